@@ -1,35 +1,63 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { Supplier, ReconciliationRecord, ReconciliationResult, ProductItem, ExistingMapping, ComparedItem } from './types';
-import { POWER_AUTOMATE_URL, DYNAMICS_API_BASE_URL } from './constants';
-import { extractDataFromFile, reconcileData, GeminiParseError } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { Supplier, ReconciliationRecord, ReconciliationResult, ProductItem, ExistingMapping, ColumnMappingTemplate, ValidationIssue, ToleranceSettings, DateWindowSettings, SystemDateField, ReconciliationSession, SessionFileInfo } from './types';
+import { POWER_AUTOMATE_URL } from './constants';
+import { extractDataFromFile, extractStatementFromFile, GeminiParseError } from './services/geminiService';
+import { runGoodsReconciliation } from './services/reconciliationService';
+import { validateRecords } from './services/validationService';
+import { saveSession, getSession, toFileInfo } from './services/sessionService';
+import { buildReconciliationChangeset } from './services/reconciliationExportService';
+import { loadToleranceSettings, saveToleranceSettings, compareWithinTolerance, DEFAULT_TOLERANCES } from './services/toleranceService';
+import type { BatchJob, BatchStage } from './services/batchService';
+import { buildSupplierAging } from './services/agingService';
+import type { SupplierAging } from './services/agingService';
+import { fetchPurchaseDocuments } from './services/purchaseService';
+import { buildSystemLedger, ledgerBalance, reconcileStatement, statementToResult, fetchSupplierPayments, DEFAULT_STATEMENT_VAT_PERCENT } from './services/statementService';
+import { loadDateWindowSettings, saveDateWindowSettings, getSystemDataWindow, shiftDate, DEFAULT_DATE_WINDOW, DATE_FIELD_LABELS } from './services/dateWindowService';
+import { parseSpreadsheet, isSpreadsheetFile, spreadsheetToCsvFile, loadColumnTemplate, saveColumnTemplate } from './services/spreadsheetService';
+import { buildMappingPayload, buildMappingSupplierFilter, buildMappingLinkRequests, fetchSupplierMappings, findLinkConflicts, planMappingWrites, suggestMappings, MAPPING_ENTITY_SET, MAPPING_SUPPLIER_LOOKUP_VALUE } from './services/mappingService';
+import type { MappingDraft, MappingSuggestion, MappingWriteStep, MappingRowOutcome, MappingSaveResult, LegacyMapping } from './services/mappingService';
+import { dataverseUrl, executeChangeset, executeRequest, fetchAllPages } from './services/dataverseClient';
+import type { PageProgress } from './services/dataverseClient';
 import DataTable from './components/DataTable';
 import Spinner from './components/Spinner';
 import ReconciliationResultDisplay from './components/ReconciliationResultDisplay';
 import SkuMappingModal from './components/SkuMappingModal';
-import { ComparisonStatus } from './types';
 import FeedbackModal from './components/FeedbackModal';
+import ColumnTemplateModal from './components/ColumnTemplateModal';
+import ToleranceSettingsModal from './components/ToleranceSettingsModal';
+import HistoryView from './components/HistoryView';
+import MappingManager from './components/MappingManager';
+import MappingMigrationModal from './components/MappingMigrationModal';
+import AgingReportModal from './components/AgingReportModal';
+import BatchReconciliationModal from './components/BatchReconciliationModal';
 
 
 // --- Helper Functions ---
-const getApiErrorMessage = async (response: Response): Promise<string> => {
-  if (response.status === 401) {
-    return 'Lỗi xác thực (401). Token của bạn có thể đã hết hạn. Vui lòng làm mới trang và thử lại.';
-  }
-  try {
-    const body = await response.json();
-    const message = body?.error?.message;
-    if (typeof message === 'string') {
-      return message;
-    }
-  } catch (e) {
-    // Response body is not JSON or is malformed, ignore and use statusText.
-  }
-  return response.statusText || `Request failed with status ${response.status}`;
+// Suffix for a loading message once a paged load has received its first page.
+const describeProgress = (progress?: PageProgress): string =>
+  progress ? ` (${progress.records.toLocaleString('vi-VN')} bản ghi)` : '';
+
+// The first and last document dates of the supplier data, used as the reconciliation period
+// and to pre-fill the range Wecare data is fetched for.
+const getRecordPeriod = (records: ReconciliationRecord[]): { start: string | null; end: string | null } => {
+  const dates = records
+    .map(d => d.date?.split('T')[0])
+    .filter((d): d is string => Boolean(d) && !isNaN(new Date(d!).getTime()))
+    .sort();
+  return { start: dates[0] ?? null, end: dates[dates.length - 1] ?? null };
 };
 
+const samePeriod = (a: { start: string | null; end: string | null }, b: { start: string | null; end: string | null }) =>
+  a.start === b.start && a.end === b.end;
+
+const formatDisplayDate = (dateString: string) =>
+  new Date(dateString + 'T00:00:00Z').toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' });
+
 interface SkuMapping {
   supplierItem: ProductItem;
   systemItem: ProductItem;
+  /** Number of Wecare units in one supplier unit; 1 when both use the same unit. */
+  conversionFactor?: number;
 }
 
 
@@ -78,7 +106,11 @@ const AppHeader: React.FC<{
   onSupplierChange: (id: string) => void;
   isLoading: boolean;
   onOpenFeedback: () => void;
-}> = ({ suppliers, selectedSupplierId, onSupplierChange, isLoading, onOpenFeedback }) => {
+  onOpenHistory: () => void;
+  onOpenMappings: () => void;
+  onOpenAging: () => void;
+  onOpenBatch: () => void;
+}> = ({ suppliers, selectedSupplierId, onSupplierChange, isLoading, onOpenFeedback, onOpenHistory, onOpenMappings, onOpenAging, onOpenBatch }) => {
   const [inputText, setInputText] = useState('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -143,6 +175,49 @@ const AppHeader: React.FC<{
                 </div>
             )}
             </div>
+            <button
+                onClick={onOpenBatch}
+                disabled={isLoading}
+                className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring focus:ring-offset-background dark:focus:ring-offset-card disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Đối chiếu hàng loạt"
+                title="Đối chiếu hàng loạt nhiều nhà cung cấp"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                </svg>
+            </button>
+            <button
+                onClick={onOpenAging}
+                disabled={isLoading}
+                className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring focus:ring-offset-background dark:focus:ring-offset-card disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Tuổi nợ phải trả"
+                title="Tuổi nợ phải trả"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+            </button>
+            <button
+                onClick={onOpenHistory}
+                className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring focus:ring-offset-background dark:focus:ring-offset-card"
+                aria-label="Lịch sử đối chiếu"
+                title="Lịch sử đối chiếu"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+            </button>
+            <button
+                onClick={onOpenMappings}
+                disabled={!selectedSupplierId}
+                className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring focus:ring-offset-background dark:focus:ring-offset-card disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Quản lý mapping sản phẩm"
+                title={selectedSupplierId ? 'Quản lý mapping sản phẩm' : 'Chọn nhà cung cấp để quản lý mapping'}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                </svg>
+            </button>
             <button
                 onClick={onOpenFeedback}
                 className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring focus:ring-offset-background dark:focus:ring-offset-card"
@@ -165,13 +240,21 @@ const SupplierDataPanel: React.FC<{
   onReadFile: () => void;
   onClear: () => void;
   onRemoveFile: (index: number) => void;
-  onDateChange: (date: string | null) => void;
+  onDateChange: (range: { start: string | null; end: string | null }) => void;
+  onDateWindowChange: (settings: DateWindowSettings) => void;
+  onDataChange: (data: ReconciliationRecord[]) => void;
+  onOpenColumnTemplate: () => void;
+  hasColumnTemplate: boolean;
   uploadedFiles: File[];
-  processedFiles: File[];
+  processedFiles: SessionFileInfo[];
   extractedData: ReconciliationRecord[];
+  validationIssues: ValidationIssue[];
   isReadingFile: boolean;
   isReconciling: boolean;
   supplierDateRange: { start: string | null; end: string | null };
+  dateWindow: DateWindowSettings;
+  /** Statements are compared on their exact period, so the buffer does not apply. */
+  isExactPeriod: boolean;
 }> = (props) => {
   const totalItems = props.extractedData.reduce((acc, record) => {
     if (record.items && record.items.length > 0) {
@@ -180,16 +263,47 @@ const SupplierDataPanel: React.FC<{
     return acc + 1;
   }, 0);
 
+  const dateInputClassName = 'bg-white dark:bg-input border border-slate-300 dark:border-border rounded-md p-1.5 text-sm text-gray-700 dark:text-foreground focus:ring-2 focus:ring-ring focus:border-primary';
+  const { start, end } = props.supplierDateRange;
   const datePickerControl = props.extractedData.length > 0 ? (
-    <div className="flex items-center text-sm">
-      <label htmlFor="start-date-filter" className="font-semibold whitespace-nowrap text-gray-600 dark:text-muted-foreground">Ngày HD:</label>
+    <div className="flex items-center flex-wrap gap-2 text-sm text-gray-600 dark:text-muted-foreground">
+      <label htmlFor="start-date-filter" className="font-semibold whitespace-nowrap">Từ:</label>
       <input
           id="start-date-filter"
           type="date"
-          value={props.supplierDateRange.start || ''}
-          onChange={(e) => props.onDateChange(e.target.value || null)}
-          className="ml-2 bg-white dark:bg-input border border-slate-300 dark:border-border rounded-md p-1.5 text-sm text-gray-700 dark:text-foreground focus:ring-2 focus:ring-ring focus:border-primary"
+          value={start || ''}
+          max={end || undefined}
+          onChange={(e) => props.onDateChange({ start: e.target.value || null, end })}
+          className={dateInputClassName}
+      />
+      <label htmlFor="end-date-filter" className="font-semibold whitespace-nowrap">Đến:</label>
+      <input
+          id="end-date-filter"
+          type="date"
+          value={end || ''}
+          min={start || undefined}
+          onChange={(e) => props.onDateChange({ start, end: e.target.value || null })}
+          className={dateInputClassName}
+      />
+      <label htmlFor="buffer-days" className="font-semibold whitespace-nowrap" title={props.isExactPeriod ? 'Đối chiếu công nợ lấy dữ liệu Wecare đúng kỳ của bảng kê' : 'Số ngày lấy thêm dữ liệu Wecare trước và sau khoảng ngày'}>±</label>
+      <input
+          id="buffer-days"
+          type="number"
+          min="0"
+          value={props.isExactPeriod ? 0 : props.dateWindow.bufferDays}
+          disabled={props.isExactPeriod}
+          onChange={(e) => props.onDateWindowChange({ ...props.dateWindow, bufferDays: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          className={`${dateInputClassName} w-16 text-right`}
       />
+      <span className="whitespace-nowrap">ngày theo</span>
+      <select
+          value={props.dateWindow.dateField}
+          onChange={(e) => props.onDateWindowChange({ ...props.dateWindow, dateField: e.target.value as SystemDateField })}
+          className={dateInputClassName}
+          aria-label="Trường ngày dùng để lọc dữ liệu Wecare"
+      >
+        {(Object.keys(DATE_FIELD_LABELS) as SystemDateField[]).map(field => <option key={field} value={field}>{DATE_FIELD_LABELS[field]}</option>)}
+      </select>
     </div>
   ) : null;
 
@@ -199,7 +313,7 @@ const SupplierDataPanel: React.FC<{
       <div className="flex items-start space-x-4 flex-shrink-0 mb-4">
         <div className="flex-grow flex items-center flex-wrap gap-2">
           <label htmlFor="file-upload" className="cursor-pointer py-2 px-4 rounded-full border-0 text-sm font-semibold bg-primary/10 text-primary hover:bg-primary/20 inline-block whitespace-nowrap">Chọn tệp</label>
-          <input id="file-upload" type="file" onChange={(e) => e.target.files && props.onFilesSelected(Array.from(e.target.files))} accept=".xlsx,.xls,.pdf,image/*" multiple className="hidden" />
+          <input id="file-upload" type="file" onChange={(e) => e.target.files && props.onFilesSelected(Array.from(e.target.files))} accept=".xlsx,.csv,.pdf,image/*" multiple className="hidden" />
           {props.processedFiles.map((file, index) => (
             <div key={`${file.name}-${index}`} className="flex items-center text-sm bg-green-50 dark:bg-green-900/50 text-green-800 dark:text-green-300 pl-2 pr-3 py-1 rounded-full border border-green-200 dark:border-green-700">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
@@ -216,6 +330,13 @@ const SupplierDataPanel: React.FC<{
           ))}
         </div>
         <div className="flex space-x-2 flex-shrink-0">
+          <button
+            onClick={props.onOpenColumnTemplate}
+            className="px-3 py-2 text-sm font-semibold rounded-lg border border-slate-300 dark:border-border text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-secondary transition-colors"
+            title="Tiêu đề cột dùng để đọc tệp Excel/CSV của NCC này mà không cần AI"
+          >
+            Mẫu cột{props.hasColumnTemplate ? ' ✓' : ''}
+          </button>
           <button onClick={props.onReadFile} disabled={props.isReadingFile || props.uploadedFiles.length === 0} className="flex items-center justify-center px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors duration-200">
             {props.isReadingFile ? <Spinner /> : 'Đọc File'}
           </button>
@@ -230,6 +351,8 @@ const SupplierDataPanel: React.FC<{
           icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-primary" fill="none" viewBox="0 0 20 20"><path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2-2z" /></svg>} 
           totalCount={totalItems}
           headerControls={datePickerControl}
+          issues={props.validationIssues}
+          onDataChange={props.onDataChange}
         />
       </div>
     </div>
@@ -238,9 +361,11 @@ const SupplierDataPanel: React.FC<{
 
 const SystemDataPanel: React.FC<{
   isFetching: boolean;
+  fetchProgress?: PageProgress;
   data: ReconciliationRecord[];
   supplierDateRange: { start: string | null; end: string | null };
-}> = ({ isFetching, data, supplierDateRange }) => {
+  dateWindow: DateWindowSettings;
+}> = ({ isFetching, fetchProgress, data, supplierDateRange, dateWindow }) => {
   const totalItems = data.reduce((acc, record) => {
     if (record.items && record.items.length > 0) {
       return acc + record.items.length;
@@ -248,20 +373,10 @@ const SystemDataPanel: React.FC<{
     return acc + 1; // Assuming a record without items is a single line
   }, 0);
 
-  const formatDate = (dateString: string | null) => {
-    if (!dateString) return '';
-    try {
-        const date = new Date(dateString + 'T00:00:00Z'); // Prevent local timezone from shifting the date
-        return date.toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric' });
-    } catch (e) {
-        return dateString; // Fallback
-    }
-  };
-
-  let title = '2. Dữ liệu trên Wecare';
-    if (supplierDateRange.start) {
-        title = `Dữ liệu Wecare (Ngày HĐ ${formatDate(supplierDateRange.start)} ±10 ngày)`;
-    }
+  const fetchWindow = getSystemDataWindow(supplierDateRange, dateWindow);
+  const title = fetchWindow
+    ? `Dữ liệu Wecare (${DATE_FIELD_LABELS[dateWindow.dateField]} ${formatDisplayDate(fetchWindow.start)} – ${formatDisplayDate(fetchWindow.end)})`
+    : '2. Dữ liệu trên Wecare';
 
 
   return (
@@ -274,7 +389,7 @@ const SystemDataPanel: React.FC<{
           <div className="flex justify-center items-center h-full">
             <div className="flex flex-col items-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              <p className="mt-3 text-slate-500 dark:text-muted-foreground">Đang tải dữ liệu...</p>
+              <p className="mt-3 text-slate-500 dark:text-muted-foreground">Đang tải dữ liệu...{describeProgress(fetchProgress)}</p>
             </div>
           </div>
         ) : (
@@ -297,19 +412,57 @@ const App: React.FC = () => {
   const [selectedSupplierId, setSelectedSupplierId] = useState<string>('');
   
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
-  const [processedFiles, setProcessedFiles] = useState<File[]>([]);
+  const [processedFiles, setProcessedFiles] = useState<SessionFileInfo[]>([]);
   const [extractedData, setExtractedData] = useState<ReconciliationRecord[]>([]);
   const [systemData, setSystemData] = useState<ReconciliationRecord[]>([]);
+  // Goods compares invoice lines; statement compares a statement of account with Wecare purchases and payments.
+  const [reconciliationMode, setReconciliationMode] = useState<'goods' | 'statement'>('goods');
+  const [systemPayments, setSystemPayments] = useState<ReconciliationRecord[]>([]);
+  const [statementVatPercent, setStatementVatPercent] = useState(DEFAULT_STATEMENT_VAT_PERCENT);
+  const validationIssues = useMemo(() => validateRecords(extractedData), [extractedData]);
   const [reconciliationResult, setReconciliationResult] = useState<ReconciliationResult | null>(null);
   const [reconciliationTime, setReconciliationTime] = useState<number | null>(null);
+  const [extractionTime, setExtractionTime] = useState<number | null>(null);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isMappingManagerOpen, setIsMappingManagerOpen] = useState(false);
+  const [isMappingMigrationOpen, setIsMappingMigrationOpen] = useState(false);
+  const [isAgingReportOpen, setIsAgingReportOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  // Set while a saved session is being reopened, so its stored Wecare data is not refetched over.
+  const skipNextSystemFetch = useRef(false);
+  // Session saves of reviewer edits, chained so quick successive edits reach IndexedDB in the order they were made.
+  const reviewSaveQueue = useRef<Promise<void>>(Promise.resolve());
   const [supplierDateRange, setSupplierDateRange] = useState<{ start: string | null, end: string | null }>({ start: null, end: null });
+  // Bumped on save so the memo below re-reads the stored settings.
+  const [dateWindowVersion, setDateWindowVersion] = useState(0);
+  // Read in render rather than loaded in an effect, so switching supplier fetches once with that supplier's settings.
+  const dateWindow = useMemo(
+    () => (selectedSupplierId ? loadDateWindowSettings(selectedSupplierId) : DEFAULT_DATE_WINDOW),
+    [selectedSupplierId, dateWindowVersion]
+  );
+  // A statement covers an exact period: Wecare entries from outside it would only show up as Wecare-only.
+  const systemDateWindow = useMemo(
+    () => (reconciliationMode === 'statement' ? { ...dateWindow, bufferDays: 0 } : dateWindow),
+    [reconciliationMode, dateWindow]
+  );
 
   const [isSkuMappingModalOpen, setIsSkuMappingModalOpen] = useState(false);
-  const [skuMappingsToShow, setSkuMappingsToShow] = useState<SkuMapping[]>([]);
+  const [skuMappingsToShow, setSkuMappingsToShow] = useState<MappingSuggestion[]>([]);
+  const [skuMappingCandidates, setSkuMappingCandidates] = useState<ProductItem[]>([]);
   const [existingMappings, setExistingMappings] = useState<ExistingMapping[]>([]);
 
+  const [isColumnTemplateModalOpen, setIsColumnTemplateModalOpen] = useState(false);
+  const [columnTemplate, setColumnTemplate] = useState<ColumnMappingTemplate | null>(null);
+  const [isToleranceModalOpen, setIsToleranceModalOpen] = useState(false);
+  const [toleranceSettings, setToleranceSettings] = useState<ToleranceSettings>(DEFAULT_TOLERANCES);
+
   const [accessToken, setAccessToken] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState({ suppliers: true, systemData: false, readingFile: false, reconciling: false, existingMappings: false });
+  const [isLoading, setIsLoading] = useState({ suppliers: true, systemData: false, systemPayments: false, readingFile: false, reconciling: false, existingMappings: false });
+  // Records received so far by the paged loads, shown next to their loading indicators.
+  const [loadProgress, setLoadProgress] = useState<{ suppliers?: PageProgress; systemData?: PageProgress; existingMappings?: PageProgress }>({});
+  const trackProgress = (key: 'suppliers' | 'systemData' | 'existingMappings') =>
+    (progress: PageProgress) => setLoadProgress(prev => ({ ...prev, [key]: progress }));
   
   const [error, setError] = useState<string | null>(null);
   const [rawErrorData, setRawErrorData] = useState<string | null>(null);
@@ -352,12 +505,10 @@ const App: React.FC = () => {
   const fetchSuppliers = useCallback(async (token: string) => {
     try {
       const filter = `$filter=statecode eq 0 and crdfd_suppliername ne null and crdfd_nhacungcap eq true and crdfd_loaioituong eq 191920000`;
-      const apiUrl = `${DYNAMICS_API_BASE_URL}/api/data/v9.2/crdfd_suppliers?$select=crdfd_supplierid,crdfd_suppliername&${filter}&$orderby=createdon desc`;
-      const response = await fetch(apiUrl, { headers: { 'Authorization': `Bearer ${token}` } });
-      if (!response.ok) throw new Error(`Lỗi khi tải danh sách NCC: ${await getApiErrorMessage(response)}`);
-      const result = await response.json();
-      if (!Array.isArray(result.value)) throw new Error('Dữ liệu NCC trả về không đúng định dạng.');
-      const mappedSuppliers: Supplier[] = result.value.map((s: any) => ({ id: s.crdfd_supplierid, name: s.crdfd_suppliername }));
+      const apiUrl = dataverseUrl(`crdfd_suppliers?$select=crdfd_supplierid,crdfd_suppliername&${filter}&$orderby=createdon desc`);
+      setLoadProgress(prev => ({ ...prev, suppliers: undefined }));
+      const records = await fetchAllPages(apiUrl, token, { errorPrefix: 'Lỗi khi tải danh sách NCC', onProgress: trackProgress('suppliers') });
+      const mappedSuppliers: Supplier[] = records.map((s: any) => ({ id: s.crdfd_supplierid, name: s.crdfd_suppliername }));
       setSuppliers(mappedSuppliers);
       if (mappedSuppliers.length > 0) setSelectedSupplierId(mappedSuppliers[0].id);
     } catch (err: any)
@@ -368,69 +519,27 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const fetchSystemData = useCallback(async (supplierId: string, dateRange: {start: string | null}) => {
+  const fetchSystemData = useCallback(async (supplierId: string, dateRange: { start: string | null; end: string | null }, windowSettings: DateWindowSettings) => {
     const supplier = suppliers.find(s => s.id === supplierId);
     if (!accessToken || !supplier) { 
         setSystemData([]); 
         return; 
     }
     
-    // Do not fetch data if there's no valid start date from the invoice.
-    if (!dateRange.start) {
+    // Do not fetch data until there is a period to fetch it for.
+    const fetchWindow = getSystemDataWindow(dateRange, windowSettings);
+    if (!fetchWindow) {
         setSystemData([]);
         return;
     }
 
     setIsLoading(prev => ({ ...prev, systemData: true }));
+    setLoadProgress(prev => ({ ...prev, systemData: undefined }));
     setErrorMessage(null);
     setReconciliationResult(null);
 
     try {
-        const centerDate = new Date(dateRange.start);
-        
-        const startDate = new Date(centerDate);
-        startDate.setDate(centerDate.getDate() - 10);
-        const startDateString = startDate.toISOString().split('T')[0];
-
-        const endDate = new Date(centerDate);
-        endDate.setDate(centerDate.getDate() + 10);
-        const endDateString = endDate.toISOString().split('T')[0];
-
-        const filters = [
-            `cr44a_tenoituong eq '${supplier.name.replace(/'/g, "''")}'`,
-            `createdon ge ${startDateString}T00:00:00Z`,
-            `createdon le ${endDateString}T23:59:59Z`
-        ];
-        
-        const filterQuery = `$filter=${filters.join(' and ')}`;
-        const selectQuery = `$select=cr44a_ongia,cr44a_vtay,cr44a_tenhangcal,createdon,cr44a_soluongmua,cr44a_ngayhachtoan`;
-        const apiUrl = `${DYNAMICS_API_BASE_URL}/api/data/v9.2/cr44a_muahangchitiets?${selectQuery}&${filterQuery}`;
-        
-        const response = await fetch(apiUrl, { headers: { 'Authorization': `Bearer ${accessToken}` } });
-        if (!response.ok) throw new Error(`Lỗi tải dữ liệu hệ thống: ${await getApiErrorMessage(response)}`);
-        
-        const result = (await response.json());
-        const records = result.value;
-        if (!Array.isArray(records)) {
-            setSystemData([]);
-            return;
-        }
-
-        const mappedData: ReconciliationRecord[] = records.map((item: any) => {
-            const date = item.cr44a_ngayhachtoan ? (item.cr44a_ngayhachtoan).split('T')[0] : (item.createdon).split('T')[0];
-            const quantity = parseFloat(item.cr44a_soluongmua) || 0;
-            const unitPrice = parseFloat(item.cr44a_ongia) || 0;
-            const totalPrice = quantity * unitPrice;
-            const name = item.cr44a_tenhangcal || 'N/A';
-            return {
-                id: crypto.randomUUID(),
-                date,
-                amount: totalPrice,
-                description: name,
-                items: [{ name, quantity, unitPrice, totalPrice }],
-            };
-        });
-        setSystemData(mappedData);
+        setSystemData(await fetchPurchaseDocuments(accessToken, supplier.id, fetchWindow, windowSettings.dateField, trackProgress('systemData')));
     } catch (err: any) {
         setErrorMessage(err.message.includes('Failed to fetch') ? 'Lỗi Mạng: Không thể kết nối đến Dynamics CRM. Vui lòng kiểm tra cấu hình CORS.' : (err.message || "Lỗi khi tải dữ liệu từ hệ thống."));
         setSystemData([]);
@@ -439,6 +548,25 @@ const App: React.FC = () => {
     }
 }, [accessToken, suppliers]);
 
+  // Payments to the supplier in the same window as the purchase lines, for statement mode.
+  const fetchSystemPayments = useCallback(async (supplierId: string, dateRange: { start: string | null; end: string | null }, windowSettings: DateWindowSettings) => {
+    const supplier = suppliers.find(s => s.id === supplierId);
+    const fetchWindow = getSystemDataWindow(dateRange, windowSettings);
+    if (!accessToken || !supplier || !fetchWindow) {
+        setSystemPayments([]);
+        return;
+    }
+    setIsLoading(prev => ({ ...prev, systemPayments: true }));
+    try {
+        setSystemPayments(await fetchSupplierPayments(accessToken, supplier.id, fetchWindow));
+    } catch (err: any) {
+        setErrorMessage(err.message.includes('Failed to fetch') ? 'Lỗi Mạng: Không thể kết nối đến Dynamics CRM. Vui lòng kiểm tra cấu hình CORS.' : (err.message || "Lỗi khi tải dữ liệu thanh toán."));
+        setSystemPayments([]);
+    } finally {
+        setIsLoading(prev => ({ ...prev, systemPayments: false }));
+    }
+  }, [accessToken, suppliers]);
+
   const fetchExistingMappings = useCallback(async (supplierId: string) => {
     const supplier = suppliers.find(s => s.id === supplierId);
     if (!accessToken || !supplier) {
@@ -447,26 +575,11 @@ const App: React.FC = () => {
     }
   
     setIsLoading(prev => ({ ...prev, existingMappings: true }));
+    setLoadProgress(prev => ({ ...prev, existingMappings: undefined }));
     setErrorMessage(null); // Clear previous errors on new fetch
     try {
-      const supplierName = supplier.name.replace(/'/g, "''");
-      const filter = `$filter=crdfd_supplier eq '${supplierName}'`;
-      const select = `$select=crdfd_product_name,crdfd_supplier_product_name,crdfd_supplier`;
-      const apiUrl = `${DYNAMICS_API_BASE_URL}/api/data/v9.2/crdfd_mapping_sku_2025s?${select}&${filter}`;
-  
-      const response = await fetch(apiUrl, {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
-  
-      if (!response.ok) {
-        // Throw a detailed error to be caught below
-        throw new Error(`Không thể tải mapping đã có: ${await getApiErrorMessage(response)}`);
-      }
-  
-      const result = await response.json();
-      if (result.value && Array.isArray(result.value)) {
-        setExistingMappings(result.value);
-      }
+      const mappings = await fetchSupplierMappings(accessToken, supplier, trackProgress('existingMappings'));
+      setExistingMappings(mappings);
     } catch (err: any) {
       // Set a user-friendly error message in the UI
       setErrorMessage(
@@ -486,10 +599,25 @@ const App: React.FC = () => {
   useEffect(() => { if (accessToken) fetchSuppliers(accessToken); }, [accessToken, fetchSuppliers]);
   useEffect(() => { 
     if (selectedSupplierId && accessToken) {
-      fetchSystemData(selectedSupplierId, supplierDateRange); 
+      if (skipNextSystemFetch.current) {
+        skipNextSystemFetch.current = false;
+      } else {
+        fetchSystemData(selectedSupplierId, supplierDateRange, systemDateWindow); 
+      }
       fetchExistingMappings(selectedSupplierId);
     }
-  }, [selectedSupplierId, supplierDateRange, fetchSystemData, fetchExistingMappings, accessToken]);
+  }, [selectedSupplierId, supplierDateRange, systemDateWindow, fetchSystemData, fetchExistingMappings, accessToken]);
+  useEffect(() => {
+    if (reconciliationMode === 'statement' && selectedSupplierId && accessToken) {
+      fetchSystemPayments(selectedSupplierId, supplierDateRange, systemDateWindow);
+    } else {
+      setSystemPayments([]);
+    }
+  }, [reconciliationMode, selectedSupplierId, supplierDateRange, systemDateWindow, fetchSystemPayments, accessToken]);
+  useEffect(() => {
+    setColumnTemplate(selectedSupplierId ? loadColumnTemplate(selectedSupplierId) : null);
+    setToleranceSettings(selectedSupplierId ? loadToleranceSettings(selectedSupplierId) : DEFAULT_TOLERANCES);
+  }, [selectedSupplierId]);
 
   const handleFileChange = (files: File[]) => {
     setUploadedFiles(prev => [...prev, ...files]);
@@ -499,12 +627,54 @@ const App: React.FC = () => {
     if (fileInput) fileInput.value = '';
   };
 
+  // Spreadsheets with a known layout are read locally; everything else goes to the AI.
+  // Batch runs read files of other suppliers, with those suppliers' own column templates.
+  const readSupplierFile = async (file: File, supplierId = selectedSupplierId, template = columnTemplate): Promise<ReconciliationRecord[]> => {
+    if (!isSpreadsheetFile(file)) {
+      return extractDataFromFile(file);
+    }
+    let fileForAI = file;
+    try {
+      const parsed = await parseSpreadsheet(file, template);
+      if (parsed) {
+        if (supplierId && !template) {
+          saveColumnTemplate(supplierId, parsed.template);
+          if (supplierId === selectedSupplierId) setColumnTemplate(parsed.template);
+        }
+        return parsed.records;
+      }
+      fileForAI = await spreadsheetToCsvFile(file);
+    } catch (e) {
+      console.warn(`Could not read "${file.name}" locally, falling back to AI extraction.`, e);
+    }
+    return extractDataFromFile(fileForAI);
+  };
+
+  // Statements are read as ledger entries, which only the AI extraction knows how to produce;
+  // like unknown layouts above, spreadsheets reach it as CSV text.
+  const readStatementFile = async (file: File): Promise<ReconciliationRecord[]> =>
+    extractStatementFromFile(isSpreadsheetFile(file) ? await spreadsheetToCsvFile(file) : file);
+
+  const handleSaveToleranceSettings = (settings: ToleranceSettings) => {
+    if (!selectedSupplierId) return;
+    saveToleranceSettings(selectedSupplierId, settings);
+    setToleranceSettings(settings);
+  };
+
+  const handleSaveColumnTemplate = (template: ColumnMappingTemplate) => {
+    if (!selectedSupplierId) return;
+    saveColumnTemplate(selectedSupplierId, template);
+    setColumnTemplate(template);
+  };
+
   const handleReadFile = async () => {
     if (uploadedFiles.length === 0) return;
     setIsLoading(prev => ({ ...prev, readingFile: true }));
     setErrorMessage(null);
+    const startTime = performance.now();
 
-    const results = await Promise.allSettled(uploadedFiles.map(extractDataFromFile));
+    const readFile = reconciliationMode === 'statement' ? readStatementFile : (file: File) => readSupplierFile(file);
+    const results = await Promise.allSettled(uploadedFiles.map(readFile));
     const successfulData: ReconciliationRecord[] = [];
     const errorMessages: string[] = [];
     let firstRawError: string | null = null;
@@ -531,30 +701,25 @@ const App: React.FC = () => {
     if (successfulData.length > 0) {
       const combinedData = [...extractedData, ...successfulData];
       setExtractedData(combinedData);
-      
-      const validDates = combinedData
-        .map(d => (d.date ? new Date(d.date) : null))
-        .filter((d): d is Date => d !== null && !isNaN(d.getTime()));
-
-      if (validDates.length > 0) {
-        // Instead of a range, pick the most recent date from the uploaded documents
-        // as the primary invoice date for comparison.
-        const maxDate = new Date(Math.max(...validDates.map(d => d.getTime())));
-        
-        setSupplierDateRange({ 
-            start: maxDate.toISOString().split('T')[0],
-            end: null, // End date is no longer used for fetching system data
-        });
-      } else {
-        setSupplierDateRange({ start: null, end: null });
-      }
+      setSupplierDateRange(getRecordPeriod(combinedData));
     }
     
-    setProcessedFiles(prev => [...prev, ...uploadedFiles]);
+    setProcessedFiles(prev => [...prev, ...uploadedFiles.map(toFileInfo)]);
+    setExtractionTime(prev => (prev ?? 0) + (performance.now() - startTime) / 1000);
     setUploadedFiles([]);
     setIsLoading(prev => ({ ...prev, readingFile: false }));
   };
 
+  const handleExtractedDataChange = (records: ReconciliationRecord[]) => {
+    // Only follow the data when an edit moves its period, so a range picked by hand survives other edits.
+    const period = getRecordPeriod(records);
+    if (!samePeriod(period, getRecordPeriod(extractedData))) {
+      setSupplierDateRange(period);
+    }
+    setExtractedData(records);
+    setReconciliationResult(null);
+  };
+
   const handleClear = () => {
     setExtractedData([]);
     setUploadedFiles([]);
@@ -563,6 +728,57 @@ const App: React.FC = () => {
     setErrorMessage(null);
     setSupplierDateRange({ start: null, end: null });
     setReconciliationTime(null);
+    setExtractionTime(null);
+    setCurrentSessionId(null);
+  };
+
+  // Saves the run under the current session, so re-running a reopened session updates it in place.
+  const persistSession = async (result: ReconciliationResult, reconciliationSeconds: number) => {
+    const supplier = suppliers.find(s => s.id === selectedSupplierId);
+    if (!supplier) return;
+    const id = currentSessionId ?? crypto.randomUUID();
+    const now = new Date().toISOString();
+    try {
+      const existing = currentSessionId ? await getSession(currentSessionId) : undefined;
+      const session: ReconciliationSession = {
+        id,
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        files: processedFiles,
+        extractedData,
+        systemData,
+        supplierDateRange,
+        result,
+        timings: { extractionSeconds: extractionTime, reconciliationSeconds },
+      };
+      await saveSession(session);
+      setCurrentSessionId(id);
+    } catch (err: any) {
+      console.error('Failed to save reconciliation session:', err);
+      setErrorMessage(`Không thể lưu phiên đối chiếu vào lịch sử: ${err.message}`);
+    }
+  };
+
+  const handleOpenSession = (session: ReconciliationSession) => {
+    const dateRangeChanged = session.supplierDateRange.start !== supplierDateRange.start || session.supplierDateRange.end !== supplierDateRange.end;
+    if (session.supplierId !== selectedSupplierId || dateRangeChanged) {
+      skipNextSystemFetch.current = true;
+    }
+    setIsHistoryOpen(false);
+    setErrorMessage(null);
+    setSelectedSupplierId(session.supplierId);
+    setSupplierDateRange(session.supplierDateRange);
+    setUploadedFiles([]);
+    setProcessedFiles(session.files);
+    setExtractedData(session.extractedData);
+    setSystemData(session.systemData);
+    setReconciliationMode(session.result?.statement || session.extractedData.some(record => record.ledgerKind) ? 'statement' : 'goods');
+    setReconciliationResult(session.result);
+    setReconciliationTime(session.timings.reconciliationSeconds);
+    setExtractionTime(session.timings.extractionSeconds);
+    setCurrentSessionId(session.id);
   };
   
   const handleReconcile = async () => {
@@ -573,102 +789,9 @@ const App: React.FC = () => {
     const startTime = performance.now();
 
     try {
-        // 1. Flatten data and create a case-insensitive lookup map for existing mappings.
-        const allSupplierItems = extractedData.flatMap(record =>
-            (record.items && record.items.length > 0)
-            ? record.items
-            : [{ name: record.description, quantity: 1, unitPrice: record.amount, totalPrice: record.amount }]
-        );
-        const allSystemItems = systemData.flatMap(record => record.items || []);
-        const mappingMap = new Map<string, string>(existingMappings.map(m => [m.crdfd_supplier_product_name.toLowerCase(), m.crdfd_product_name]));
-
-        // 2. Pre-processing: Handle items with existing mappings first.
-        const preProcessedItems: ComparedItem[] = [];
-        const itemsForAI_Supplier: ProductItem[] = [];
-        const usedSystemItemIndices = new Set<number>();
-
-        allSupplierItems.forEach(supplierItem => {
-            const systemProductName = mappingMap.get(supplierItem.name.toLowerCase());
-            if (systemProductName) {
-                const systemItemIndex = allSystemItems.findIndex((sysItem, index) => 
-                    sysItem.name === systemProductName && !usedSystemItemIndices.has(index)
-                );
-                
-                if (systemItemIndex !== -1) {
-                    usedSystemItemIndices.add(systemItemIndex);
-                    const systemItem = allSystemItems[systemItemIndex];
-                    const isMatched = supplierItem.quantity === systemItem.quantity && supplierItem.unitPrice === systemItem.unitPrice;
-                    preProcessedItems.push({
-                        status: isMatched ? ComparisonStatus.MATCHED : ComparisonStatus.DISCREPANCY,
-                        supplierItem,
-                        systemItem,
-                        details: isMatched ? '' : `Chênh lệch SL/ĐG. NCC: ${supplierItem.quantity} @ ${supplierItem.unitPrice}, Wecare: ${systemItem.quantity} @ ${systemItem.unitPrice}`
-                    });
-                } else {
-                    preProcessedItems.push({
-                        status: ComparisonStatus.SUPPLIER_ONLY,
-                        supplierItem,
-                        systemItem: null,
-                        details: 'Sản phẩm đã được mapping nhưng không có trong dữ liệu Wecare kỳ này.'
-                    });
-                }
-            } else {
-                itemsForAI_Supplier.push(supplierItem);
-            }
-        });
-
-        const itemsForAI_System = allSystemItems.filter((_, index) => !usedSystemItemIndices.has(index));
-
-        // 3. Set up initial UI with pre-processed results and placeholders for AI.
-        const totalSupplierAmount = allSupplierItems.reduce((sum, item) => sum + item.totalPrice, 0);
-        const preProcessedSystemAmount = preProcessedItems.reduce((sum, item) => sum + (item.systemItem?.totalPrice || 0), 0);
-        
-        const aiProcessingPlaceholders: ComparedItem[] = itemsForAI_Supplier.map(item => ({
-            status: ComparisonStatus.PROCESSING,
-            supplierItem: item,
-            systemItem: null,
-            details: 'Đang chờ AI phân tích...'
-        }));
-
-        const initialComparedItems = [...preProcessedItems, ...aiProcessingPlaceholders];
-        
-        setReconciliationResult({
-            summary: 'Đang xử lý... Kết quả sơ bộ từ mapping đã lưu. Chờ AI hoàn tất...',
-            totalSupplierAmount,
-            totalSystemAmount: preProcessedSystemAmount,
-            difference: totalSupplierAmount - preProcessedSystemAmount,
-            comparedItems: initialComparedItems
-        });
-        
-        // 4. Call AI with only the remaining, unmapped items.
-        let aiResult: ReconciliationResult = { 
-            summary: 'Không có dữ liệu cần AI xử lý.', 
-            totalSupplierAmount: 0, 
-            totalSystemAmount: 0, 
-            difference: 0, 
-            comparedItems: [] 
-        };
-
-        if (itemsForAI_Supplier.length > 0 || itemsForAI_System.length > 0) {
-            const supplierRecordsForAI: ReconciliationRecord[] = [{ id: 'unmatched-sup', amount: 0, description: '', items: itemsForAI_Supplier }];
-            const systemRecordsForAI: ReconciliationRecord[] = [{ id: 'unmatched-sys', amount: 0, description: '', items: itemsForAI_System }];
-            aiResult = await reconcileData(supplierRecordsForAI, systemRecordsForAI);
-        }
-
-        // 5. Combine final results and update the state.
-        setReconciliationResult(() => {
-            const finalSummary = `${preProcessedItems.length > 0 ? `Đã tự động xử lý ${preProcessedItems.length} sản phẩm dựa trên mapping đã lưu.` : ''} ${aiResult.summary}`;
-            const finalComparedItems = [...preProcessedItems, ...aiResult.comparedItems];
-            const finalSystemAmount = finalComparedItems.reduce((sum, item) => sum + (item.systemItem?.totalPrice || 0), 0);
-
-            return {
-                summary: finalSummary.trim(),
-                totalSupplierAmount,
-                totalSystemAmount: finalSystemAmount,
-                difference: totalSupplierAmount - finalSystemAmount,
-                comparedItems: finalComparedItems
-            };
-        });
+        const finalResult = await runGoodsReconciliation(extractedData, systemData, existingMappings, toleranceSettings, setReconciliationResult);
+        setReconciliationResult(finalResult);
+        await persistSession(finalResult, (performance.now() - startTime) / 1000);
 
     } catch (err: any) {
       setError(err.message || "Lỗi trong quá trình đối chiếu.");
@@ -682,20 +805,49 @@ const App: React.FC = () => {
     }
   };
   
+  const handleReconcileStatement = async () => {
+    if (extractedData.length === 0) return;
+    setIsLoading(prev => ({ ...prev, reconciling: true }));
+    setErrorMessage(null);
+    const startTime = performance.now();
+    try {
+        const period = getSystemDataWindow(supplierDateRange, systemDateWindow);
+        if (!accessToken || !selectedSupplierId || !period) throw new Error("Thiếu token xác thực, nhà cung cấp hoặc kỳ đối chiếu.");
+        // Wecare's opening balance is what it owed before the period: every purchase and payment dated before the start.
+        const beforePeriod = { end: shiftDate(period.start, -1) };
+        const [earlierPurchases, earlierPayments] = await Promise.all([
+            fetchPurchaseDocuments(accessToken, selectedSupplierId, beforePeriod, dateWindow.dateField),
+            fetchSupplierPayments(accessToken, selectedSupplierId, beforePeriod),
+        ]);
+        const systemOpening = ledgerBalance(buildSystemLedger(earlierPurchases, earlierPayments, statementVatPercent));
+        const systemLedger = buildSystemLedger(systemData, systemPayments, statementVatPercent);
+        const result = statementToResult(reconcileStatement(extractedData, systemLedger, systemOpening, toleranceSettings));
+        const seconds = (performance.now() - startTime) / 1000;
+        setReconciliationResult(result);
+        setReconciliationTime(seconds);
+        await persistSession(result, seconds);
+    } catch (err: any) {
+        setError(err.message || "Lỗi trong quá trình đối chiếu công nợ.");
+    } finally {
+        setIsLoading(prev => ({ ...prev, reconciling: false }));
+    }
+  };
+
+  const handleModeChange = (mode: 'goods' | 'statement') => {
+    if (mode === reconciliationMode) return;
+    // The two modes read files into different shapes, so data read for one is no use to the other.
+    if (extractedData.length > 0 && !window.confirm('Đổi chế độ sẽ xóa dữ liệu NCC đã đọc. Tiếp tục?')) return;
+    handleClear();
+    setReconciliationMode(mode);
+  };
+
   const handleOpenSkuMappingModal = () => {
     if (extractedData.length === 0 || systemData.length === 0) {
         alert("Không có đủ dữ liệu từ NCC và Wecare để tìm mapping.");
         return;
     }
     
-    const systemItemsMap = new Map<string, ProductItem[]>();
-    systemData.flatMap(rec => rec.items ?? []).forEach(item => {
-        const key = `${item.quantity.toFixed(4)}-${item.unitPrice.toFixed(4)}`;
-        if (!systemItemsMap.has(key)) {
-            systemItemsMap.set(key, []);
-        }
-        systemItemsMap.get(key)!.push(item);
-    });
+    const systemItems = systemData.flatMap(rec => rec.items ?? []);
 
     const supplierItems: ProductItem[] = extractedData.flatMap(record =>
         (record.items && record.items.length > 0)
@@ -703,91 +855,250 @@ const App: React.FC = () => {
         : [{ name: record.description, quantity: 1, unitPrice: record.amount, totalPrice: record.amount }]
     );
 
-    const mappings: SkuMapping[] = [];
-    const matchedSystemItems = new Set<ProductItem>();
-
-    for (const supItem of supplierItems) {
-        const key = `${supItem.quantity.toFixed(4)}-${supItem.unitPrice.toFixed(4)}`;
-        const potentialMatches = systemItemsMap.get(key);
-        if (potentialMatches) {
-            const match = potentialMatches.find(sysItem => !matchedSystemItems.has(sysItem));
-            if (match) {
-                mappings.push({
-                    supplierItem: supItem,
-                    systemItem: match,
-                });
-                matchedSystemItems.add(match);
-            }
-        }
-    }
-
-    const newMappings = mappings.filter(potentialMapping => {
-      return !existingMappings.some(existing => 
-          existing.crdfd_product_name === potentialMapping.systemItem.name &&
-          existing.crdfd_supplier_product_name === potentialMapping.supplierItem.name
-      );
-    });
-    
-    if (newMappings.length === 0) {
-        alert("Không tìm thấy sản phẩm nào mới để tạo mapping. Tất cả các cặp khớp (về số lượng, đơn giá) có thể đã được lưu trước đó.");
+    const suggestions = suggestMappings(supplierItems, systemItems, existingMappings, toleranceSettings);
+    if (suggestions.length === 0) {
+        alert("Tất cả sản phẩm trong chứng từ NCC đã có mapping.");
         return;
     }
 
-    setSkuMappingsToShow(newMappings);
+    setSkuMappingsToShow(suggestions);
+    setSkuMappingCandidates(systemItems);
     setIsSkuMappingModalOpen(true);
   };
 
-  const handleSaveMappings = async (mappingsToSave: SkuMapping[]): Promise<{success: boolean, error?: string}> => {
+  // Reviewer edits replace the result and are kept in the session right away.
+  const handleResultReviewed = (result: ReconciliationResult) => {
+    setReconciliationResult(result);
+    reviewSaveQueue.current = reviewSaveQueue.current.then(() => persistSession(result, reconciliationTime ?? 0));
+  };
+
+  // Creates the reconciliation header and one line per compared row in a single changeset, so either
+  // all of them are saved or none. The header id is chosen here, since the lines must reference it.
+  const handleSaveResultToDynamics = async (): Promise<{success: boolean, error?: string}> => {
+      if (!reconciliationResult || !accessToken) {
+          return { success: false, error: "Không thể lưu: Thiếu kết quả đối chiếu hoặc token xác thực." };
+      }
+      const supplierName = suppliers.find(s => s.id === selectedSupplierId)?.name;
+      if (!supplierName) {
+        return { success: false, error: "Không thể tìm thấy tên nhà cung cấp đã chọn." };
+      }
+
+      try {
+          const headerId = crypto.randomUUID();
+          const outcome = await executeChangeset(accessToken, buildReconciliationChangeset(reconciliationResult, supplierName, getRecordPeriod(extractedData), headerId));
+          if (!outcome.committed) {
+              const failedIndex = outcome.errors.findIndex(Boolean);
+              const cause = failedIndex === -1
+                  ? outcome.error
+                  : `${failedIndex === 0 ? 'bản ghi đối chiếu' : `dòng ${failedIndex}`}: ${outcome.errors[failedIndex]}`;
+              return { success: false, error: `Lỗi khi lưu kết quả đối chiếu, không có bản ghi nào được tạo (${cause}).` };
+          }
+
+          const savedResult = { ...reconciliationResult, dynamicsRecordId: headerId };
+          setReconciliationResult(savedResult);
+          await persistSession(savedResult, reconciliationTime ?? 0);
+          return { success: true };
+      } catch (err: any) {
+          return { success: false, error: err.message?.includes('Failed to fetch') ? 'Lỗi Mạng: Không thể kết nối đến Dynamics CRM. Vui lòng kiểm tra cấu hình CORS.' : (err.message || "Đã xảy ra lỗi không xác định khi lưu kết quả đối chiếu.") };
+      }
+  };
+
+  /**
+   * Saves mappings for the selected supplier as one changeset. `drafts` are upserted on
+   * their supplier product name against the mappings saved right now; `updates` go to the
+   * given records. Outcomes come back per row, drafts first and then updates.
+   */
+  const writeMappings = async (
+      drafts: MappingDraft[],
+      updates: { id: string; draft: MappingDraft }[] = []
+  ): Promise<MappingSaveResult> => {
       if (!selectedSupplierId || !accessToken) {
           return { success: false, error: "Không thể lưu: Thiếu thông tin nhà cung cấp hoặc token xác thực."};
       }
       
-      const supplierName = suppliers.find(s => s.id === selectedSupplierId)?.name;
-      if (!supplierName) {
+      const supplier = suppliers.find(s => s.id === selectedSupplierId);
+      if (!supplier) {
         return { success: false, error: "Không thể tìm thấy tên nhà cung cấp đã chọn." };
       }
       
       try {
-          const apiUrl = `${DYNAMICS_API_BASE_URL}/api/data/v9.2/crdfd_mapping_sku_2025s`;
-          const promises = mappingsToSave.map(mapping => {
-              const payload = {
-                  crdfd_product_name: mapping.systemItem.name,
-                  crdfd_supplier_product_name: mapping.supplierItem.name,
-                  crdfd_supplier: supplierName
-              };
-              return fetch(apiUrl, {
-                  method: 'POST',
-                  headers: {
-                      'Authorization': `Bearer ${accessToken}`,
-                      'Content-Type': 'application/json',
-                      'OData-MaxVersion': '4.0',
-                      'OData-Version': '4.0',
-                  },
-                  body: JSON.stringify(payload)
-              });
+          // Plan against a fresh read, not the list loaded earlier, so a save never creates a duplicate.
+          const current = await fetchAllPages<ExistingMapping>(
+              dataverseUrl(`${MAPPING_ENTITY_SET}?$select=crdfd_mapping_sku_2025id,crdfd_product_name,crdfd_supplier_product_name,crdfd_supplier_unit,crdfd_unit,crdfd_conversion_factor&$filter=${buildMappingSupplierFilter(supplier)}`),
+              accessToken,
+              { errorPrefix: 'Không thể tải mapping đã có' }
+          );
+          const steps: MappingWriteStep[] = [
+              ...planMappingWrites(drafts, current),
+              ...updates.map(({ id, draft }): MappingWriteStep => ({ kind: 'update', id, draft })),
+          ];
+          const writes = steps
+              .map((step, index) => ({ step, index }))
+              .filter(({ step }) => step.kind === 'create' || step.kind === 'update');
+
+          const result = await executeChangeset(accessToken, writes.map(({ step }) => ({
+              method: step.kind === 'create' ? 'POST' : 'PATCH',
+              path: step.kind === 'create' ? MAPPING_ENTITY_SET : `${MAPPING_ENTITY_SET}(${step.id})`,
+              body: buildMappingPayload(step.draft, supplier),
+          })));
+
+          const outcomes: MappingRowOutcome[] = steps.map(step => ({
+              status: step.kind === 'create' ? 'created' : step.kind === 'update' ? 'updated' : step.kind,
+          }));
+          writes.forEach(({ index }, writeIndex) => {
+              if (result.committed) return;
+              const error = result.errors[writeIndex];
+              outcomes[index] = error
+                  ? { status: 'failed', error }
+                  : { status: 'rolledBack', error: result.error ?? 'Không được lưu vì có dòng khác bị lỗi.' };
           });
+          fetchExistingMappings(selectedSupplierId);
 
-          const responses = await Promise.all(promises);
-          const failedRequests = responses.filter(res => !res.ok);
-
-          if (failedRequests.length > 0) {
-              const errorMessages = await Promise.all(failedRequests.map(getApiErrorMessage));
-              const combinedError = `Lỗi khi lưu ${failedRequests.length}/${mappingsToSave.length} mapping: ${errorMessages.join(', ')}`;
-              return { success: false, error: combinedError };
-          } else {
-              // Refresh existing mappings after successful save
-              fetchExistingMappings(selectedSupplierId);
-              return { success: true };
+          if (!result.committed) {
+              const failed = result.errors.filter(Boolean);
+              const details = failed.length > 0 ? failed.join(', ') : result.error;
+              return { success: false, error: `Không mapping nào được lưu do lỗi: ${details}`, outcomes };
           }
+          return { success: true, outcomes };
 
       } catch (err: any) {
-          return { success: false, error: err.message || "Đã xảy ra lỗi không xác định khi lưu SKU mapping."};
+          return { success: false, error: err.message?.includes('Failed to fetch') ? 'Lỗi Mạng: Không thể kết nối đến Dynamics CRM. Vui lòng kiểm tra cấu hình CORS.' : (err.message || "Đã xảy ra lỗi không xác định khi lưu SKU mapping.")};
+      }
+  };
+
+  const handleSaveMappings = (mappingsToSave: SkuMapping[]) =>
+      writeMappings(mappingsToSave.map(mapping => ({
+          supplierProductName: mapping.supplierItem.name,
+          productName: mapping.systemItem.name,
+          supplierUnit: mapping.supplierItem.unit ?? null,
+          unit: mapping.systemItem.unit ?? null,
+          conversionFactor: mapping.conversionFactor ?? 1,
+      })));
+
+  const handleDeleteMapping = async (id: string): Promise<{success: boolean, error?: string}> => {
+      if (!accessToken) {
+          return { success: false, error: "Không thể xóa: Thiếu token xác thực." };
       }
+      try {
+          await executeRequest(accessToken, { method: 'DELETE', path: `${MAPPING_ENTITY_SET}(${id})` });
+          setExistingMappings(prev => prev.filter(m => m.crdfd_mapping_sku_2025id !== id));
+          return { success: true };
+      } catch (err: any) {
+          return { success: false, error: err.message?.includes('Failed to fetch') ? 'Lỗi Mạng: Không thể kết nối đến Dynamics CRM. Vui lòng kiểm tra cấu hình CORS.' : (err.message ? `Lỗi khi xóa mapping: ${err.message}` : "Đã xảy ra lỗi không xác định khi xóa mapping.") };
+      }
+  };
+
+
+  // The supplier's whole purchase and payment history up to the report date, since an old purchase can still be unpaid.
+  const fetchAgingData = async (supplierId: string, asOf: string, vatPercent: number): Promise<SupplierAging> => {
+      const supplier = suppliers.find(s => s.id === supplierId);
+      if (!accessToken || !supplier) throw new Error("Thiếu token xác thực hoặc thông tin nhà cung cấp.");
+      const untilAsOf = { end: asOf };
+      const [purchases, payments] = await Promise.all([
+          fetchPurchaseDocuments(accessToken, supplier.id, untilAsOf, 'accountingDate'),
+          fetchSupplierPayments(accessToken, supplier.id, untilAsOf),
+      ]);
+      return buildSupplierAging(supplier, purchases, payments, asOf, vatPercent);
   };
 
+  // One supplier of a batch, run with that supplier's own column template, date window, mappings and tolerances.
+  const runBatchJob = async (job: BatchJob, onStage: (stage: BatchStage) => void): Promise<Pick<BatchJob, 'result' | 'sessionId' | 'warnings'>> => {
+      const supplier = suppliers.find(s => s.id === job.supplierId);
+      if (!accessToken || !supplier) throw new Error("Thiếu token xác thực hoặc thông tin nhà cung cấp.");
+
+      onStage('extracting');
+      const extractionStart = performance.now();
+      const template = loadColumnTemplate(supplier.id);
+      const reads = await Promise.allSettled(job.files.map(file => readSupplierFile(file, supplier.id, template)));
+      const records = reads.flatMap(read => (read.status === 'fulfilled' ? read.value : []));
+      const warnings = reads
+          .map((read, i) => (read.status === 'rejected' ? `Tệp "${job.files[i].name}": ${(read.reason as Error).message}` : ''))
+          .filter(Boolean);
+      if (records.length === 0) throw new Error(warnings.join('\n') || 'Không đọc được dữ liệu nào từ các tệp.');
+      const extractionSeconds = (performance.now() - extractionStart) / 1000;
+
+      onStage('fetching');
+      const period = getRecordPeriod(records);
+      const windowSettings = loadDateWindowSettings(supplier.id);
+      const fetchWindow = getSystemDataWindow(period, windowSettings);
+      if (!fetchWindow) throw new Error('Không xác định được kỳ đối chiếu vì các chứng từ không có ngày.');
+      const [systemDocuments, mappings] = await Promise.all([
+          fetchPurchaseDocuments(accessToken, supplier.id, fetchWindow, windowSettings.dateField),
+          fetchSupplierMappings(accessToken, supplier),
+      ]);
+
+      onStage('reconciling');
+      const reconciliationStart = performance.now();
+      const result = await runGoodsReconciliation(records, systemDocuments, mappings, loadToleranceSettings(supplier.id));
+      const now = new Date().toISOString();
+      const session: ReconciliationSession = {
+          id: crypto.randomUUID(),
+          supplierId: supplier.id,
+          supplierName: supplier.name,
+          createdAt: now,
+          updatedAt: now,
+          files: job.files.map(toFileInfo),
+          extractedData: records,
+          systemData: systemDocuments,
+          supplierDateRange: period,
+          result,
+          timings: { extractionSeconds, reconciliationSeconds: (performance.now() - reconciliationStart) / 1000 },
+      };
+      await saveSession(session);
+      return { result, sessionId: session.id, warnings };
+  };
 
-  const handleSupplierDateChange = (date: string | null) => {
-    setSupplierDateRange({ start: date, end: null });
+  const handleOpenBatchResult = async (sessionId: string) => {
+      try {
+          const session = await getSession(sessionId);
+          if (!session) throw new Error('Không tìm thấy phiên đối chiếu trong lịch sử.');
+          setIsBatchOpen(false);
+          handleOpenSession(session);
+      } catch (err: any) {
+          setErrorMessage(err.message || 'Không thể mở kết quả đối chiếu.');
+      }
+  };
+
+  // Mappings saved before the supplier lookup existed, across all suppliers.
+  const fetchLegacyMappings = async (): Promise<LegacyMapping[]> => {
+      if (!accessToken) throw new Error("Thiếu token xác thực.");
+      const apiUrl = dataverseUrl(`${MAPPING_ENTITY_SET}?$select=crdfd_mapping_sku_2025id,crdfd_supplier,crdfd_supplier_product_name&$filter=${MAPPING_SUPPLIER_LOOKUP_VALUE} eq null`);
+      const records = await fetchAllPages(apiUrl, accessToken, { errorPrefix: 'Không thể tải mapping cũ' });
+      return records.map((m: any) => ({ id: m.crdfd_mapping_sku_2025id, supplierName: m.crdfd_supplier ?? '', supplierProductName: m.crdfd_supplier_product_name ?? '' }));
+  };
+
+  // Links a group of name-keyed mappings to a supplier record in one changeset, so the group is linked all-or-nothing.
+  const handleLinkMappings = async (mappings: LegacyMapping[], supplierId: string): Promise<{success: boolean, error?: string}> => {
+      const supplier = suppliers.find(s => s.id === supplierId);
+      if (!accessToken || !supplier) {
+          return { success: false, error: "Không thể liên kết: Thiếu thông tin nhà cung cấp hoặc token xác thực." };
+      }
+      try {
+          const linked = (await fetchSupplierMappings(accessToken, supplier)).filter(m => m._crdfd_supplierlookup_value === supplier.id);
+          const conflicts = findLinkConflicts(mappings, linked);
+          if (conflicts.length > 0) {
+              return { success: false, error: `Nhà cung cấp đã có mapping cho: ${conflicts.join(', ')}. Hãy xóa bản trùng trong Quản lý mapping rồi liên kết lại.` };
+          }
+          const outcome = await executeChangeset(accessToken, buildMappingLinkRequests(mappings, supplier));
+          if (selectedSupplierId) fetchExistingMappings(selectedSupplierId);
+          if (!outcome.committed) {
+              const cause = outcome.errors.find(Boolean) ?? outcome.error;
+              return { success: false, error: `Lỗi khi liên kết, không có mapping nào được liên kết (${cause}).` };
+          }
+          return { success: true };
+      } catch (err: any) {
+          return { success: false, error: err.message?.includes('Failed to fetch') ? 'Lỗi Mạng: Không thể kết nối đến Dynamics CRM. Vui lòng kiểm tra cấu hình CORS.' : (err.message || "Đã xảy ra lỗi không xác định khi liên kết mapping.") };
+      }
+  };
+
+  const handleSupplierDateChange = (range: { start: string | null; end: string | null }) => {
+    setSupplierDateRange(range);
+  };
+
+  const handleDateWindowChange = (settings: DateWindowSettings) => {
+    if (!selectedSupplierId) return;
+    saveDateWindowSettings(selectedSupplierId, settings);
+    setDateWindowVersion(v => v + 1);
   };
 
   const selectedSupplierName = suppliers.find(s => s.id === selectedSupplierId)?.name || 'Không rõ';
@@ -823,7 +1134,12 @@ const App: React.FC = () => {
           result={reconciliationResult}
           executionTime={reconciliationTime}
           onStartOver={handleClear}
+          onSaveToDynamics={handleSaveResultToDynamics}
           supplierName={selectedSupplierName}
+          supplierData={extractedData}
+          systemData={systemData}
+          onResultChange={handleResultReviewed}
+          tolerances={toleranceSettings}
         />
       ) : (
         <>
@@ -833,6 +1149,10 @@ const App: React.FC = () => {
             onSupplierChange={setSelectedSupplierId}
             isLoading={isLoading.suppliers || isLoading.systemData}
             onOpenFeedback={() => setIsFeedbackModalOpen(true)}
+            onOpenHistory={() => setIsHistoryOpen(true)}
+            onOpenMappings={() => setIsMappingManagerOpen(true)}
+            onOpenAging={() => setIsAgingReportOpen(true)}
+            onOpenBatch={() => setIsBatchOpen(true)}
           />
 
           <main className="flex-grow px-4 sm:px-6 lg:px-8 py-8 flex flex-col min-h-0">
@@ -859,7 +1179,7 @@ const App: React.FC = () => {
               <div className="text-center py-10 bg-white dark:bg-card rounded-xl shadow-md flex-grow flex items-center justify-center">
                 <div className="flex flex-col items-center">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-                  <p className="mt-3 text-slate-500 dark:text-muted-foreground">{!accessToken ? 'Đang lấy token xác thực...' : 'Đang tải danh sách nhà cung cấp...'}</p>
+                  <p className="mt-3 text-slate-500 dark:text-muted-foreground">{!accessToken ? 'Đang lấy token xác thực...' : `Đang tải danh sách nhà cung cấp...${describeProgress(loadProgress.suppliers)}`}</p>
                 </div>
               </div>
             ) : (
@@ -869,6 +1189,7 @@ const App: React.FC = () => {
                     uploadedFiles={uploadedFiles}
                     processedFiles={processedFiles}
                     extractedData={extractedData}
+                    validationIssues={validationIssues}
                     isReadingFile={isLoading.readingFile}
                     isReconciling={isLoading.reconciling}
                     supplierDateRange={supplierDateRange}
@@ -877,26 +1198,68 @@ const App: React.FC = () => {
                     onReadFile={handleReadFile}
                     onClear={handleClear}
                     onDateChange={handleSupplierDateChange}
+                    onDateWindowChange={handleDateWindowChange}
+                    dateWindow={dateWindow}
+                    isExactPeriod={reconciliationMode === 'statement'}
+                    onDataChange={handleExtractedDataChange}
+                    onOpenColumnTemplate={() => setIsColumnTemplateModalOpen(true)}
+                    hasColumnTemplate={columnTemplate !== null}
                   />
                   <SystemDataPanel
-                    isFetching={isLoading.systemData}
-                    data={systemData}
+                    isFetching={isLoading.systemData || isLoading.systemPayments}
+                    fetchProgress={loadProgress.systemData}
+                    data={reconciliationMode === 'statement' ? [...systemData, ...systemPayments] : systemData}
                     supplierDateRange={supplierDateRange}
+                    dateWindow={systemDateWindow}
                   />
                 </div>
 
                 <div className="py-8 flex-shrink-0">
                   <div className="flex flex-col items-center gap-4 md:flex-row md:justify-center">
+                    <div className="flex flex-col gap-1 text-sm text-slate-700 dark:text-foreground">
+                      <select
+                        value={reconciliationMode}
+                        onChange={(e) => handleModeChange(e.target.value as 'goods' | 'statement')}
+                        disabled={isLoading.reconciling || isLoading.readingFile}
+                        className="bg-white dark:bg-input border border-slate-300 dark:border-border rounded-lg px-3 py-2 font-semibold"
+                        aria-label="Chế độ đối chiếu"
+                      >
+                        <option value="goods">Đối chiếu hàng hóa</option>
+                        <option value="statement">Đối chiếu công nợ (bảng kê)</option>
+                      </select>
+                      {reconciliationMode === 'statement' && (
+                        <label className="flex items-center gap-2" title="Thuế GTGT cộng vào tổng tiền hàng Wecare (trước thuế) để so với bảng kê">
+                          <span>VAT hàng Wecare</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={statementVatPercent}
+                            onChange={(e) => setStatementVatPercent(Math.max(0, parseFloat(e.target.value) || 0))}
+                            className="w-16 bg-white dark:bg-input border border-slate-300 dark:border-border rounded-md p-1 text-right"
+                          />
+                          <span>%</span>
+                        </label>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => setIsToleranceModalOpen(true)}
+                      disabled={!selectedSupplierId || isLoading.reconciling}
+                      className="flex items-center justify-center w-full max-w-lg md:max-w-[10rem] px-6 py-3 bg-white dark:bg-card border border-slate-300 dark:border-border text-slate-700 dark:text-foreground text-lg font-bold rounded-lg shadow-lg hover:bg-slate-100 dark:hover:bg-secondary disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                      title="Dung sai đơn giá, số lượng và thành tiền cho NCC này"
+                    >
+                      Dung sai
+                    </button>
                     <button
                       onClick={handleOpenSkuMappingModal}
-                      disabled={isLoading.reconciling || isLoading.existingMappings || extractedData.length === 0 || systemData.length === 0}
+                      disabled={reconciliationMode === 'statement' || isLoading.reconciling || isLoading.existingMappings || extractedData.length === 0 || systemData.length === 0}
                       className="flex items-center justify-center w-full max-w-lg md:max-w-xs px-6 py-3 bg-green-600 text-white text-lg font-bold rounded-lg shadow-lg hover:bg-green-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed transform hover:scale-105 transition-all duration-200"
                     >
-                       {isLoading.existingMappings ? <><Spinner /> <span className="ml-2">Đang kiểm tra...</span></> : 'SKU Mapping'}
+                       {isLoading.existingMappings ? <><Spinner /> <span className="ml-2">Đang kiểm tra...{describeProgress(loadProgress.existingMappings)}</span></> : 'SKU Mapping'}
                     </button>
                     <button
-                      onClick={handleReconcile}
-                      disabled={isLoading.reconciling || extractedData.length === 0}
+                      onClick={reconciliationMode === 'statement' ? handleReconcileStatement : handleReconcile}
+                      disabled={isLoading.reconciling || isLoading.systemPayments || extractedData.length === 0}
                       className="flex items-center justify-center w-full max-w-lg md:max-w-xs px-6 py-3 bg-primary text-primary-foreground text-lg font-bold rounded-lg shadow-lg hover:bg-accent-hover disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed transform hover:scale-105 transition-all duration-200"
                     >
                       {isLoading.reconciling ? (
@@ -916,15 +1279,70 @@ const App: React.FC = () => {
             isOpen={isSkuMappingModalOpen}
             onClose={() => setIsSkuMappingModalOpen(false)}
             mappings={skuMappingsToShow}
+            systemItems={skuMappingCandidates}
             onSave={handleSaveMappings}
             supplierName={selectedSupplierName}
           />
+          <ToleranceSettingsModal
+            isOpen={isToleranceModalOpen}
+            onClose={() => setIsToleranceModalOpen(false)}
+            settings={toleranceSettings}
+            onSave={handleSaveToleranceSettings}
+            supplierName={selectedSupplierName}
+          />
+          <ColumnTemplateModal
+            isOpen={isColumnTemplateModalOpen}
+            onClose={() => setIsColumnTemplateModalOpen(false)}
+            template={columnTemplate}
+            onSave={handleSaveColumnTemplate}
+            supplierName={selectedSupplierName}
+          />
         </>
       )}
       <FeedbackModal 
         isOpen={isFeedbackModalOpen}
         onClose={() => setIsFeedbackModalOpen(false)}
       />
+      <HistoryView
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        supplierId={selectedSupplierId}
+        supplierName={selectedSupplierName}
+        onOpenSession={handleOpenSession}
+      />
+      <MappingManager
+        isOpen={isMappingManagerOpen}
+        onClose={() => setIsMappingManagerOpen(false)}
+        supplierName={selectedSupplierName}
+        mappings={existingMappings}
+        isLoading={isLoading.existingMappings}
+        onCreate={(drafts) => writeMappings(drafts)}
+        onUpdate={(id, draft) => writeMappings([], [{ id, draft }])}
+        onDelete={handleDeleteMapping}
+        onImport={(plan) => writeMappings(plan.toCreate, plan.toUpdate)}
+        onOpenMigration={() => setIsMappingMigrationOpen(true)}
+      />
+      <MappingMigrationModal
+        isOpen={isMappingMigrationOpen}
+        onClose={() => setIsMappingMigrationOpen(false)}
+        suppliers={suppliers}
+        onLoad={fetchLegacyMappings}
+        onLink={handleLinkMappings}
+      />
+      <AgingReportModal
+        isOpen={isAgingReportOpen}
+        onClose={() => setIsAgingReportOpen(false)}
+        suppliers={suppliers}
+        selectedSupplierId={selectedSupplierId}
+        onLoad={fetchAgingData}
+      />
+      <BatchReconciliationModal
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        suppliers={suppliers}
+        onRunJob={runBatchJob}
+        onOpenResult={handleOpenBatchResult}
+      />
     </div>
   );
 };
@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Supplier } from '../types';
+import { AGING_BUCKETS, buildAgingRows } from '../services/agingService';
+import type { SupplierAging } from '../services/agingService';
+import { DEFAULT_STATEMENT_VAT_PERCENT } from '../services/statementService';
+import Spinner from './Spinner';
+
+interface AgingReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  suppliers: Supplier[];
+  selectedSupplierId: string;
+  /** Ages the payables of one supplier, adding `vatPercent` to Wecare's pre-tax purchases. */
+  onLoad: (supplierId: string, asOf: string, vatPercent: number) => Promise<SupplierAging>;
+}
+
+const formatAmount = (value: number) => value.toLocaleString('vi-VN', { maximumFractionDigits: 0 });
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const AgingReportModal: React.FC<AgingReportModalProps> = ({
+  isOpen,
+  onClose,
+  suppliers,
+  selectedSupplierId,
+  onLoad,
+}) => {
+  // Suppliers are aged one at a time and added to the report, since each one reads its whole purchase history.
+  const [supplierId, setSupplierId] = useState(selectedSupplierId);
+  const [asOf, setAsOf] = useState(today());
+  const [vatPercent, setVatPercent] = useState(DEFAULT_STATEMENT_VAT_PERCENT);
+  const [agings, setAgings] = useState<SupplierAging[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loadingProgress, setLoadingProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped by every load, "Dừng" and closing, so a load that was left behind drops what it still receives.
+  const loadRun = useRef(0);
+
+  const isLoading = loadingProgress !== null;
+
+  const loadSuppliers = async (supplierIds: string[]) => {
+    const run = ++loadRun.current;
+    setError(null);
+    setLoadingProgress({ done: 0, total: supplierIds.length });
+    for (const [done, loadSupplierId] of supplierIds.entries()) {
+      try {
+        const aging = await onLoad(loadSupplierId, asOf, vatPercent);
+        if (loadRun.current !== run) return;
+        setAgings(prev => [...prev.filter(a => a.supplierId !== aging.supplierId), aging]);
+      } catch (err: any) {
+        if (loadRun.current !== run) return;
+        const name = suppliers.find(s => s.id === loadSupplierId)?.name ?? loadSupplierId;
+        setError(`${name}: ${err.message || 'Đã xảy ra lỗi không xác định khi tải công nợ.'}`);
+        break;
+      }
+      setLoadingProgress({ done: done + 1, total: supplierIds.length });
+    }
+    setLoadingProgress(null);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSupplierId(selectedSupplierId);
+    setAgings([]);
+    setExpanded(new Set());
+    setError(null);
+    if (selectedSupplierId) loadSuppliers([selectedSupplierId]);
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // Suppliers already aged stay in the report; "Tải ... NCC còn lại" carries on from there.
+  const stopLoading = () => {
+    loadRun.current++;
+    setLoadingProgress(null);
+  };
+
+  const handleClose = () => {
+    stopLoading();
+    onClose();
+  };
+
+  // Amounts depend on the report date and VAT, so suppliers aged with other settings are dropped.
+  const resetReport = () => {
+    setAgings([]);
+    setExpanded(new Set());
+    setError(null);
+  };
+
+  const loadedIds = new Set(agings.map(aging => aging.supplierId));
+  const remainingIds = suppliers.filter(supplier => !loadedIds.has(supplier.id)).map(supplier => supplier.id);
+  const owing = agings
+    .filter(aging => aging.total >= 1 || aging.unappliedCredit >= 1)
+    .sort((a, b) => b.total - a.total);
+  const grandTotal = owing.reduce((sum, aging) => sum + aging.total, 0);
+
+  const toggleExpanded = (toggledId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(toggledId)) next.delete(toggledId);
+      else next.add(toggledId);
+      return next;
+    });
+  };
+
+  const handleExportCSV = () => {
+    if (owing.length === 0) return;
+    const escapeCSV = (str: string | number | null | undefined): string => {
+      const s = str === null || str === undefined ? '' : String(str);
+      return `"${s.replace(/"/g, '""')}"`;
+    };
+    const csvString = buildAgingRows(owing).map(row => row.map(escapeCSV).join(',')).join('\n');
+    // Add BOM for Excel to recognize UTF-8 characters correctly
+    const blob = new Blob([`\uFEFF${csvString}`], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    const scope = owing.length === 1 ? `_${owing[0].supplierName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}` : '';
+    link.setAttribute('download', `tuoi-no${scope}_${asOf}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClassName = 'bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-md focus:ring-1 focus:ring-primary focus:border-primary px-2 py-1';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">Tuổi nợ phải trả nhà cung cấp</h3>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+        <div className="p-4 border-b dark:border-border flex-shrink-0 flex flex-wrap items-end gap-4 text-sm text-gray-700 dark:text-muted-foreground">
+          <label className="flex flex-col gap-1">
+            <span>Nhà cung cấp</span>
+            <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} disabled={isLoading} className={inputClassName}>
+              {!supplierId && <option value="">Chọn nhà cung cấp</option>}
+              {suppliers.map(supplier => <option key={supplier.id} value={supplier.id}>{supplier.name}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Tính đến ngày</span>
+            <input type="date" value={asOf} max={today()} onChange={(e) => { setAsOf(e.target.value || today()); resetReport(); }} disabled={isLoading} className={inputClassName} />
+          </label>
+          <label className="flex flex-col gap-1" title="Thuế GTGT cộng vào tổng tiền hàng Wecare (trước thuế)">
+            <span>VAT hàng Wecare (%)</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={vatPercent}
+              onChange={(e) => { setVatPercent(Math.max(0, parseFloat(e.target.value) || 0)); resetReport(); }}
+              disabled={isLoading}
+              className={`${inputClassName} w-20 text-right`}
+            />
+          </label>
+          <button
+            onClick={() => loadSuppliers([supplierId])}
+            disabled={isLoading || !supplierId}
+            className="px-4 py-1.5 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover transition-colors disabled:opacity-50"
+          >
+            {loadedIds.has(supplierId) ? 'Tải lại NCC này' : 'Thêm vào báo cáo'}
+          </button>
+          {loadingProgress ? (
+            <button
+              onClick={stopLoading}
+              className="px-4 py-1.5 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors"
+            >
+              Dừng ({loadingProgress.done}/{loadingProgress.total})
+            </button>
+          ) : remainingIds.length > 0 && (
+            <button
+              onClick={() => loadSuppliers(remainingIds)}
+              className="px-4 py-1.5 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors"
+              title="Tải lần lượt từng nhà cung cấp chưa có trong báo cáo; có thể dừng và tiếp tục sau"
+            >
+              {agings.length > 0 ? `Tải ${remainingIds.length} NCC còn lại` : 'Tải tất cả NCC'}
+            </button>
+          )}
+          <p className="text-xs italic">Thanh toán và hàng trả được trừ vào các chứng từ mua cũ nhất trước. Giá trị đã gồm VAT.</p>
+        </div>
+        <div className="p-4 overflow-y-auto flex-grow text-sm text-gray-700 dark:text-muted-foreground">
+          {agings.length > 0 && (
+            <p className="mb-2 text-xs text-gray-500">
+              Đã tải {agings.length}/{suppliers.length} nhà cung cấp, {owing.length} còn công nợ tính đến ngày {asOf}.
+            </p>
+          )}
+          {owing.length === 0 ? (
+            isLoading ? (
+              <div className="flex justify-center items-center py-10"><Spinner /></div>
+            ) : agings.length === 0 ? (
+              !error && <p className="py-10 text-center italic">Chọn nhà cung cấp và bấm "Thêm vào báo cáo", hoặc tải tất cả nhà cung cấp.</p>
+            ) : (
+              <p className="py-10 text-center italic">Không còn công nợ phải trả các nhà cung cấp đã tải tính đến ngày {asOf}.</p>
+            )
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs uppercase bg-slate-100 dark:bg-secondary text-gray-700 dark:text-muted-foreground sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">Nhà cung cấp / Chứng từ</th>
+                  {AGING_BUCKETS.map(bucket => <th key={bucket.key} className="px-3 py-2 text-right">{bucket.label}</th>)}
+                  <th className="px-3 py-2 text-right">Tổng còn nợ</th>
+                  <th className="px-3 py-2 text-right">Trả trước</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y dark:divide-border">
+                {owing.map(aging => (
+                  <React.Fragment key={aging.supplierId}>
+                    <tr onClick={() => toggleExpanded(aging.supplierId)} className="cursor-pointer hover:bg-slate-50 dark:hover:bg-secondary/50">
+                      <td className="px-3 py-2 font-medium text-gray-900 dark:text-foreground">
+                        <span className="inline-block w-4 text-gray-400">{expanded.has(aging.supplierId) ? '▾' : '▸'}</span>
+                        {aging.supplierName}
+                        <span className="ml-2 text-xs text-gray-500">({aging.documents.length} chứng từ)</span>
+                      </td>
+                      {AGING_BUCKETS.map(bucket => (
+                        <td key={bucket.key} className={`px-3 py-2 text-right font-mono ${bucket.key === '90+' && aging.buckets[bucket.key] > 0 ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>
+                          {aging.buckets[bucket.key] ? formatAmount(aging.buckets[bucket.key]) : '-'}
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right font-mono font-semibold text-gray-900 dark:text-foreground">{formatAmount(aging.total)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{aging.unappliedCredit >= 1 ? formatAmount(aging.unappliedCredit) : '-'}</td>
+                    </tr>
+                    {expanded.has(aging.supplierId) && aging.documents.map(document => (
+                      <tr key={`${aging.supplierId}-${document.id}-${document.date}`} className="bg-slate-50 dark:bg-secondary/30 text-xs">
+                        <td className="px-3 py-1.5 pl-10">
+                          <span className="font-medium text-gray-900 dark:text-foreground">{document.id || document.description}</span>
+                          <span className="ml-2 text-gray-500">{document.date ?? '—'} · {document.ageDays} ngày</span>
+                          {document.openAmount < document.amount && (
+                            <span className="ml-2 text-gray-500">(đã trả một phần, giá trị {formatAmount(document.amount)})</span>
+                          )}
+                        </td>
+                        {AGING_BUCKETS.map(bucket => (
+                          <td key={bucket.key} className="px-3 py-1.5 text-right font-mono">
+                            {bucket.key === document.bucket ? formatAmount(document.openAmount) : ''}
+                          </td>
+                        ))}
+                        <td colSpan={2}></td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+              {owing.length > 1 && (
+                <tfoot className="bg-slate-100 dark:bg-secondary/70 font-semibold">
+                  <tr>
+                    <td className="px-3 py-2">Tổng cộng</td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td key={bucket.key} className="px-3 py-2 text-right font-mono">
+                        {formatAmount(owing.reduce((sum, aging) => sum + aging.buckets[bucket.key], 0))}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right font-mono">{formatAmount(grandTotal)}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          )}
+          {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-end gap-4">
+          <button onClick={handleClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+            Đóng
+          </button>
+          <button
+            onClick={handleExportCSV}
+            disabled={isLoading || owing.length === 0}
+            className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover transition-colors disabled:opacity-50"
+          >
+            Xuất CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgingReportModal;
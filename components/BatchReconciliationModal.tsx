@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import type { Supplier } from '../types';
+import { ComparisonStatus } from '../types';
+import {
+  assignBatchFiles,
+  buildBatchJobs,
+  isBatchFileSupported,
+  readDroppedFiles,
+  runWithConcurrency,
+  BATCH_STAGE_LABELS,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+} from '../services/batchService';
+import type { BatchFile, BatchJob, BatchStage } from '../services/batchService';
+import Spinner from './Spinner';
+
+type JobOutcome = Pick<BatchJob, 'result' | 'sessionId' | 'warnings'>;
+
+interface BatchReconciliationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  suppliers: Supplier[];
+  /** Reads, fetches and reconciles one supplier's files, reporting each stage; throws when the run fails. */
+  onRunJob: (job: BatchJob, onStage: (stage: BatchStage) => void) => Promise<JobOutcome>;
+  /** Opens a finished run in the main view. */
+  onOpenResult: (sessionId: string) => void;
+}
+
+const formatAmount = (value: number) => value.toLocaleString('vi-VN', { maximumFractionDigits: 0 });
+
+const isRunning = (stage: BatchStage) => stage === 'extracting' || stage === 'fetching' || stage === 'reconciling';
+
+const BatchReconciliationModal: React.FC<BatchReconciliationModalProps> = ({
+  isOpen,
+  onClose,
+  suppliers,
+  onRunJob,
+  onOpenResult,
+}) => {
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const addFiles = (added: File[]) => {
+    const known = new Set(files.map(f => f.path));
+    const assigned = assignBatchFiles(added.filter(isBatchFileSupported), suppliers).filter(f => !known.has(f.path));
+    setFiles(prev => [...prev, ...assigned]);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(await readDroppedFiles(e.dataTransfer));
+  };
+
+  const setFileSupplier = (path: string, supplierId: string) => {
+    setFiles(prev => prev.map(f => (f.path === path ? { ...f, supplierId: supplierId || null } : f)));
+  };
+
+  const updateJob = (supplierId: string, update: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => (job.supplierId === supplierId ? { ...job, ...update } : job)));
+  };
+
+  const runJobs = async (queue: BatchJob[]) => {
+    setIsProcessing(true);
+    try {
+      // Each job records its own failure, so the batch carries on with the other suppliers.
+      await runWithConcurrency(queue, concurrency, async (job) => {
+        try {
+          const outcome = await onRunJob(job, stage => updateJob(job.supplierId, { stage }));
+          updateJob(job.supplierId, { ...outcome, stage: 'done', error: undefined });
+        } catch (err: any) {
+          updateJob(job.supplierId, { stage: 'error', error: err.message || 'Đã xảy ra lỗi không xác định.' });
+        }
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleStart = () => {
+    const queue = buildBatchJobs(files, suppliers);
+    setJobs(queue);
+    runJobs(queue);
+  };
+
+  const handleRetryFailed = () => {
+    const failed = jobs.filter(job => job.stage === 'error');
+    failed.forEach(job => updateJob(job.supplierId, { stage: 'queued', error: undefined }));
+    runJobs(failed);
+  };
+
+  const handleNewBatch = () => {
+    setFiles([]);
+    setJobs([]);
+  };
+
+  const assignedCount = files.filter(f => f.supplierId).length;
+  const supplierCount = new Set(files.map(f => f.supplierId).filter(Boolean)).size;
+  const finished = jobs.filter(job => job.stage === 'done');
+  const failedCount = jobs.filter(job => job.stage === 'error').length;
+  const totals = finished.reduce(
+    (acc, job) => ({
+      supplier: acc.supplier + (job.result?.totalSupplierAmount ?? 0),
+      system: acc.system + (job.result?.totalSystemAmount ?? 0),
+      difference: acc.difference + (job.result?.difference ?? 0),
+    }),
+    { supplier: 0, system: 0, difference: 0 }
+  );
+
+  const countStatus = (job: BatchJob, status: ComparisonStatus) =>
+    job.result?.comparedItems.filter(item => item.status === status).length ?? 0;
+
+  const renderStage = (job: BatchJob) => {
+    if (isRunning(job.stage)) {
+      return <span className="flex items-center gap-2"><Spinner /> {BATCH_STAGE_LABELS[job.stage]}</span>;
+    }
+    switch (job.stage) {
+      case 'done': {
+        const issues = job.result ? job.result.comparedItems.length - countStatus(job, ComparisonStatus.MATCHED) : 0;
+        return issues === 0
+          ? <span className="font-semibold text-green-600 dark:text-green-400">Khớp hoàn toàn</span>
+          : <span className="font-semibold text-amber-600 dark:text-amber-400">{issues} dòng cần xem</span>;
+      }
+      case 'error': return <span className="text-red-600 dark:text-red-400" title={job.error}>Lỗi: {job.error}</span>;
+      default: return <span className="text-gray-500">{BATCH_STAGE_LABELS[job.stage]}</span>;
+    }
+  };
+
+  const selectClassName = 'w-full bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-md focus:ring-1 focus:ring-primary focus:border-primary px-2 py-1';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">Đối chiếu hàng loạt</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+        <div className="p-4 overflow-y-auto flex-grow text-sm text-gray-700 dark:text-muted-foreground">
+          {jobs.length === 0 ? (
+            <>
+              <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`border-2 border-dashed rounded-lg p-6 text-center mb-4 transition-colors ${isDragging ? 'border-primary bg-primary/10' : 'border-slate-300 dark:border-border'}`}
+              >
+                <p className="mb-3">Kéo thả thư mục hoặc các tệp bảng kê của nhiều nhà cung cấp vào đây.</p>
+                <div className="flex justify-center gap-3">
+                  <label className="px-3 py-1.5 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg cursor-pointer hover:bg-slate-300 dark:hover:bg-secondary/80">
+                    Chọn thư mục
+                    <input
+                      type="file"
+                      multiple
+                      className="hidden"
+                      {...{ webkitdirectory: '' }}
+                      onChange={(e) => { e.target.files && addFiles(Array.from(e.target.files)); e.target.value = ''; }}
+                    />
+                  </label>
+                  <label className="px-3 py-1.5 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg cursor-pointer hover:bg-slate-300 dark:hover:bg-secondary/80">
+                    Chọn tệp
+                    <input
+                      type="file"
+                      multiple
+                      accept=".xlsx,.csv,.pdf,image/*"
+                      className="hidden"
+                      onChange={(e) => { e.target.files && addFiles(Array.from(e.target.files)); e.target.value = ''; }}
+                    />
+                  </label>
+                </div>
+              </div>
+              {files.length > 0 && (
+                <>
+                  <p className="mb-2">
+                    Nhà cung cấp được gợi ý theo tên tệp và thư mục. Kiểm tra lại trước khi chạy; các tệp của cùng một NCC được đối chiếu chung.
+                    {files.length > assignedCount && <span className="text-amber-600 dark:text-amber-400"> {files.length - assignedCount} tệp chưa chọn NCC sẽ bị bỏ qua.</span>}
+                  </p>
+                  <table className="w-full text-left">
+                    <thead className="text-xs uppercase bg-slate-100 dark:bg-secondary text-gray-700 dark:text-muted-foreground">
+                      <tr>
+                        <th className="px-3 py-2">Tệp</th>
+                        <th className="px-3 py-2 w-1/3">Nhà cung cấp</th>
+                        <th className="px-3 py-2">Gợi ý</th>
+                        <th className="px-3 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y dark:divide-border">
+                      {files.map(f => (
+                        <tr key={f.path}>
+                          <td className="px-3 py-2 font-medium text-gray-900 dark:text-foreground break-all">{f.path}</td>
+                          <td className="px-3 py-2">
+                            <select value={f.supplierId ?? ''} onChange={(e) => setFileSupplier(f.path, e.target.value)} className={selectClassName}>
+                              <option value="">-- Bỏ qua --</option>
+                              {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2 text-xs">
+                            {f.suggestion
+                              ? <span className={f.suggestion.supplierId === f.supplierId ? 'text-green-600 dark:text-green-400' : 'text-gray-500'}>{Math.round(f.suggestion.confidence * 100)}%</span>
+                              : <span className="text-amber-600 dark:text-amber-400">Không nhận ra</span>}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            <button onClick={() => setFiles(prev => prev.filter(x => x.path !== f.path))} className="text-red-500 hover:text-red-700" aria-label={`Xóa ${f.path}`}>&times;</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="mb-2">
+                {finished.length}/{jobs.length} nhà cung cấp đã xong{failedCount > 0 ? `, ${failedCount} lỗi` : ''}. Bấm "Xem" để mở kết quả chi tiết của từng NCC; các lần chạy được lưu vào lịch sử đối chiếu.
+              </p>
+              <table className="w-full text-left">
+                <thead className="text-xs uppercase bg-slate-100 dark:bg-secondary text-gray-700 dark:text-muted-foreground sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2">Nhà cung cấp</th>
+                    <th className="px-3 py-2 text-right">Tệp</th>
+                    <th className="px-3 py-2 text-right">Tổng NCC</th>
+                    <th className="px-3 py-2 text-right">Tổng Wecare</th>
+                    <th className="px-3 py-2 text-right">Chênh lệch</th>
+                    <th className="px-3 py-2 text-right" title="Khớp / Chênh lệch / Chỉ có ở NCC / Chỉ có ở Wecare">K / CL / NCC / WC</th>
+                    <th className="px-3 py-2">Trạng thái</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y dark:divide-border">
+                  {jobs.map(job => (
+                    <tr key={job.supplierId}>
+                      <td className="px-3 py-2 font-medium text-gray-900 dark:text-foreground">
+                        {job.supplierName}
+                        {job.warnings && job.warnings.length > 0 && (
+                          <p className="text-xs font-normal text-amber-600 dark:text-amber-400" title={job.warnings.join('\n')}>{job.warnings.length} tệp không đọc được</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">{job.files.length}</td>
+                      <td className="px-3 py-2 text-right font-mono">{job.result ? formatAmount(job.result.totalSupplierAmount) : '-'}</td>
+                      <td className="px-3 py-2 text-right font-mono">{job.result ? formatAmount(job.result.totalSystemAmount) : '-'}</td>
+                      <td className={`px-3 py-2 text-right font-mono font-semibold ${job.result && Math.abs(job.result.difference) >= 1 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                        {job.result ? formatAmount(job.result.difference) : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono text-xs">
+                        {job.result
+                          ? [ComparisonStatus.MATCHED, ComparisonStatus.DISCREPANCY, ComparisonStatus.SUPPLIER_ONLY, ComparisonStatus.SYSTEM_ONLY].map(status => countStatus(job, status)).join(' / ')
+                          : '-'}
+                      </td>
+                      <td className="px-3 py-2">{renderStage(job)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {job.sessionId && (
+                          <button onClick={() => onOpenResult(job.sessionId!)} className="text-primary font-semibold hover:underline">Xem</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                {finished.length > 1 && (
+                  <tfoot className="bg-slate-100 dark:bg-secondary/70 font-semibold">
+                    <tr>
+                      <td className="px-3 py-2" colSpan={2}>Tổng ({finished.length} NCC đã xong)</td>
+                      <td className="px-3 py-2 text-right font-mono">{formatAmount(totals.supplier)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{formatAmount(totals.system)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{formatAmount(totals.difference)}</td>
+                      <td colSpan={3}></td>
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+            </>
+          )}
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-end items-center gap-4">
+          {jobs.length === 0 ? (
+            <>
+              <label className="flex items-center gap-2 mr-auto text-sm text-gray-700 dark:text-muted-foreground" title="Số NCC được xử lý cùng lúc">
+                <span>Chạy song song</span>
+                <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className="bg-slate-50 dark:bg-input border border-slate-300 dark:border-border rounded-md px-2 py-1">
+                  {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+                Đóng
+              </button>
+              <button
+                onClick={handleStart}
+                disabled={supplierCount === 0}
+                className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover transition-colors disabled:opacity-50"
+              >
+                {`Bắt đầu đối chiếu (${supplierCount} NCC)`}
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+                Đóng
+              </button>
+              {failedCount > 0 && (
+                <button
+                  onClick={handleRetryFailed}
+                  disabled={isProcessing}
+                  className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors disabled:opacity-50"
+                >
+                  Chạy lại NCC lỗi ({failedCount})
+                </button>
+              )}
+              <button
+                onClick={handleNewBatch}
+                disabled={isProcessing}
+                className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover transition-colors disabled:opacity-50"
+              >
+                {isProcessing ? 'Đang chạy...' : 'Lô mới'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchReconciliationModal;
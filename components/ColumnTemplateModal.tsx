@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import type { ColumnMappingTemplate, SpreadsheetField } from '../types';
+import { SPREADSHEET_FIELD_LABELS } from '../services/spreadsheetService';
+
+interface ColumnTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  template: ColumnMappingTemplate | null;
+  onSave: (template: ColumnMappingTemplate) => void;
+  supplierName: string;
+}
+
+const FIELDS = Object.keys(SPREADSHEET_FIELD_LABELS) as SpreadsheetField[];
+
+const ColumnTemplateModal: React.FC<ColumnTemplateModalProps> = ({
+  isOpen,
+  onClose,
+  template,
+  onSave,
+  supplierName,
+}) => {
+  const [columns, setColumns] = useState<ColumnMappingTemplate['columns']>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setColumns(template?.columns ?? {});
+    }
+  }, [isOpen, template]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const canSave = Boolean(columns.product?.trim()) && Boolean(columns.quantity?.trim() || columns.amount?.trim());
+
+  const handleSave = () => {
+    const trimmed: ColumnMappingTemplate['columns'] = {};
+    FIELDS.forEach(field => {
+      const label = columns[field]?.trim();
+      if (label) trimmed[field] = label;
+    });
+    onSave({ columns: trimmed, updatedAt: new Date().toISOString() });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">
+            Mẫu cột Excel/CSV: <span className="text-primary">{supplierName}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+        <div className="p-6 overflow-y-auto flex-grow space-y-3">
+          <p className="text-sm text-gray-600 dark:text-muted-foreground">
+            Nhập đúng tiêu đề cột như trong bảng kê của NCC. Cột <strong className="font-semibold">Quy cách</strong> sẽ được gộp vào tên sản phẩm. Mẫu được tự lưu sau lần đọc tệp đầu tiên nhận diện được.
+          </p>
+          {FIELDS.map(field => (
+            <div key={field} className="flex items-center gap-3">
+              <label htmlFor={`column-${field}`} className="w-32 flex-shrink-0 text-sm font-medium text-gray-700 dark:text-muted-foreground">
+                {SPREADSHEET_FIELD_LABELS[field]}
+              </label>
+              <input
+                id={`column-${field}`}
+                type="text"
+                value={columns[field] ?? ''}
+                onChange={(e) => setColumns(prev => ({ ...prev, [field]: e.target.value }))}
+                placeholder="Tiêu đề cột"
+                className="flex-grow bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-lg focus:ring-2 focus:ring-primary focus:border-primary p-2"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-end items-center gap-4">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+            Hủy
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Lưu mẫu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnTemplateModal;
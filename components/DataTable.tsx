@@ -1,5 +1,17 @@
 import React, { useState, useMemo } from 'react';
-import type { ReconciliationRecord } from '../types';
+import type { ReconciliationRecord, ValidationIssue } from '../types';
+import { parseLocaleNumber } from '../services/spreadsheetService';
+import {
+  updateItemField,
+  updateRecordField,
+  splitItem,
+  mergeItemWithNext,
+  getMergeBlocker,
+  addItem,
+  deleteItem,
+  addRecord,
+  deleteRecord,
+} from '../services/recordEditService';
 
 interface DataTableProps {
   title: string;
@@ -7,19 +19,94 @@ interface DataTableProps {
   icon: React.ReactNode;
   totalCount?: number;
   headerControls?: React.ReactNode;
+  /** Validation problems to flag inline, indexed against `data`. */
+  issues?: ValidationIssue[];
+  /** When provided the table becomes editable and reports every change with the updated records. */
+  onDataChange?: (data: ReconciliationRecord[]) => void;
 }
 
-const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, headerControls }) => {
+type EditableColumn = 'date' | 'productName' | 'quantity' | 'unitPrice' | 'totalPrice';
+
+const EditableCell: React.FC<{
+  value: string;
+  display: React.ReactNode;
+  isEditable: boolean;
+  inputType?: 'text' | 'date';
+  align?: 'left' | 'right';
+  onCommit: (value: string) => void;
+}> = ({ value, display, isEditable, inputType = 'text', align = 'left', onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (!isEditable) {
+    return <>{display}</>;
+  }
+
+  if (draft === null) {
+    return (
+      <button
+        onClick={() => setDraft(value)}
+        className={`w-full ${align === 'right' ? 'text-right' : 'text-left'} rounded hover:ring-1 hover:ring-primary/60 cursor-text font-inherit text-inherit`}
+        title="Bấm để sửa"
+      >
+        {display}
+      </button>
+    );
+  }
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      autoFocus
+      type={inputType}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={`w-full bg-white dark:bg-input border border-primary rounded px-1 py-0.5 text-sm text-gray-900 dark:text-foreground ${align === 'right' ? 'text-right font-mono' : ''}`}
+    />
+  );
+};
+
+const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, headerControls, issues = [], onDataChange }) => {
+  const isEditable = onDataChange !== undefined;
   const totalAmount = data.reduce((sum, item) => sum + item.amount, 0);
   const [sortConfig, setSortConfig] = useState<{ key: 'date'; direction: 'ascending' | 'descending' } | null>(null);
+  const [showIssues, setShowIssues] = useState(false);
+
+  // Record-level issues are shown on every line of the record, item-level ones on their own line.
+  const issuesByRow = useMemo(() => {
+    const map = new Map<string, string[]>();
+    issues.forEach(issue => {
+      const key = issue.itemIndex === undefined ? `${issue.recordIndex}` : `${issue.recordIndex}-${issue.itemIndex}`;
+      map.set(key, [...(map.get(key) || []), issue.message]);
+    });
+    return map;
+  }, [issues]);
 
   // Create a flattened list of all items for rendering
-  const allItems = useMemo(() => data.flatMap(record => {
+  const allItems = useMemo(() => data.flatMap((record, recordIndex) => {
+    const recordIssues = issuesByRow.get(`${recordIndex}`) || [];
     if (record.items && record.items.length > 0) {
-      return record.items.map(item => ({
-        key: `${record.id}-${item.name}`,
+      const itemCount = record.items.length;
+      return record.items.map((item, itemIndex) => ({
+        key: `${recordIndex}-${itemIndex}-${record.id}-${item.name}`,
+        recordIndex,
+        itemIndex: itemIndex as number | null,
+        hasNextInRecord: itemIndex < itemCount - 1,
+        mergeBlocker: itemIndex < itemCount - 1 ? getMergeBlocker(item, record.items![itemIndex + 1]) : null,
+        isEdited: Boolean(item.manuallyEdited || record.manuallyEdited),
+        issues: [...recordIssues, ...(issuesByRow.get(`${recordIndex}-${itemIndex}`) || [])],
         date: record.date || '-',
+        documentId: record.id,
         productName: item.name,
+        unit: item.unit,
         quantity: item.quantity,
         unitPrice: item.unitPrice,
         totalPrice: item.totalPrice,
@@ -28,14 +115,22 @@ const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, he
     // This handles records that are already single line items (like from system data)
     // or records without detailed items.
     return [{
-      key: record.id,
+      key: `${recordIndex}-${record.id}`,
+      recordIndex,
+      itemIndex: null,
+      hasNextInRecord: false,
+      mergeBlocker: null,
+      isEdited: Boolean(record.manuallyEdited),
+      issues: recordIssues,
       date: record.date || '-',
+      documentId: record.id,
       productName: record.description,
+      unit: undefined as string | undefined,
       quantity: null,
       unitPrice: null,
       totalPrice: record.amount,
     }];
-  }), [data]);
+  }), [data, issuesByRow]);
 
   const sortedItems = useMemo(() => {
     if (!sortConfig) {
@@ -67,6 +162,34 @@ const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, he
     setSortConfig({ key, direction });
   };
 
+  type Row = typeof allItems[number];
+
+  const handleCellCommit = (row: Row, column: EditableColumn, rawValue: string) => {
+    if (!onDataChange) return;
+    const { recordIndex, itemIndex } = row;
+    if (column === 'date') {
+      onDataChange(updateRecordField(data, recordIndex, 'date', rawValue));
+      return;
+    }
+    if (column === 'productName') {
+      const name = rawValue.trim();
+      if (!name) return;
+      onDataChange(itemIndex === null
+        ? updateRecordField(data, recordIndex, 'description', name)
+        : updateItemField(data, recordIndex, itemIndex, 'name', name));
+      return;
+    }
+    const numericValue = parseLocaleNumber(rawValue);
+    if (numericValue === null) return;
+    if (itemIndex === null) {
+      if (column === 'totalPrice') onDataChange(updateRecordField(data, recordIndex, 'amount', numericValue));
+      return;
+    }
+    onDataChange(updateItemField(data, recordIndex, itemIndex, column, numericValue));
+  };
+
+  const rowActionClass = "px-1.5 py-0.5 rounded text-xs text-gray-500 dark:text-muted-foreground hover:bg-slate-200 dark:hover:bg-secondary disabled:opacity-30 disabled:cursor-not-allowed";
+
   const SortIcon = ({ columnKey }: { columnKey: 'date' }) => {
     if (!sortConfig || sortConfig.key !== columnKey) {
       return <span className="text-gray-400 dark:text-gray-500 opacity-50 group-hover:opacity-100 transition-opacity">↕</span>;
@@ -86,6 +209,15 @@ const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, he
         </div>
         <div className="flex items-center gap-4">
             {headerControls}
+            {issues.length > 0 && (
+                <button
+                    onClick={() => setShowIssues(prev => !prev)}
+                    className="font-semibold text-sm text-amber-800 bg-amber-100 hover:bg-amber-200 dark:text-amber-200 dark:bg-amber-900/60 dark:hover:bg-amber-900 px-3 py-1 rounded-lg whitespace-nowrap"
+                    aria-expanded={showIssues}
+                >
+                    ⚠ {issues.length} cảnh báo
+                </button>
+            )}
             {totalCount !== undefined && totalCount > 0 && (
                 <div className="font-semibold text-sm text-blue-800 bg-blue-100 dark:text-blue-200 dark:bg-blue-900/80 px-3 py-1 rounded-lg whitespace-nowrap">
                     Tổng số: {totalCount} dòng
@@ -93,6 +225,11 @@ const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, he
             )}
         </div>
       </div>
+      {showIssues && issues.length > 0 && (
+        <ul className="mb-4 max-h-40 overflow-y-auto text-sm text-amber-800 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg p-3 space-y-1 list-disc list-inside flex-shrink-0">
+          {issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+        </ul>
+      )}
       <div className="flex-grow overflow-y-auto">
         <table className="w-full text-sm text-left text-gray-600 dark:text-muted-foreground">
           <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase bg-gray-100 dark:bg-secondary/80 sticky top-0">
@@ -107,27 +244,89 @@ const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, he
               <th scope="col" className="px-4 py-3 text-right">Số lượng</th>
               <th scope="col" className="px-4 py-3 text-right">Đơn giá</th>
               <th scope="col" className="px-4 py-3 text-right">Số tiền</th>
+              {isEditable && <th scope="col" className="px-2 py-3 text-center">Sửa</th>}
             </tr>
           </thead>
           <tbody>
             {sortedItems.length === 0 ? (
               <tr>
-                <td colSpan={5} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
+                <td colSpan={isEditable ? 6 : 5} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
                   Chưa có dữ liệu
                 </td>
               </tr>
             ) : (
               sortedItems.map((item) => (
-                <tr key={item.key} className="border-b dark:border-border hover:bg-gray-50 dark:hover:bg-secondary/60">
-                  <td className="px-4 py-2">{item.date}</td>
-                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground">{item.productName}</td>
+                <tr key={item.key} className={`border-b dark:border-border ${item.isEdited ? 'border-l-4 border-l-primary' : ''} ${item.issues.length > 0 ? 'bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/40' : 'hover:bg-gray-50 dark:hover:bg-secondary/60'}`}>
+                  <td className="px-4 py-2">
+                    <EditableCell
+                      value={item.date === '-' ? '' : item.date}
+                      display={item.date}
+                      isEditable={isEditable}
+                      inputType="date"
+                      onCommit={(value) => handleCellCommit(item, 'date', value)}
+                    />
+                    {item.documentId && <div className="text-[10px] font-mono text-gray-400 dark:text-gray-500" title="Số chứng từ">{item.documentId}</div>}
+                  </td>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground">
+                    <EditableCell
+                      value={item.productName}
+                      display={<>
+                        {item.issues.length > 0 && (
+                          <span className="text-amber-500 mr-1.5 cursor-help" title={item.issues.join('\n')} aria-label="Cảnh báo">⚠</span>
+                        )}
+                        {item.productName}
+                        {item.isEdited && (
+                          <span className="ml-2 text-[10px] font-semibold uppercase text-primary bg-primary/10 px-1.5 py-0.5 rounded" title="Dòng đã được sửa thủ công">Đã sửa</span>
+                        )}
+                      </>}
+                      isEditable={isEditable}
+                      onCommit={(value) => handleCellCommit(item, 'productName', value)}
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">
+                    <EditableCell
+                      value={item.quantity !== null ? String(item.quantity) : ''}
+                      display={item.quantity !== null ? <>{item.quantity.toLocaleString('vi-VN')}{item.unit && <span className="ml-1 text-xs font-sans text-gray-500 dark:text-muted-foreground">{item.unit}</span>}</> : '-'}
+                      isEditable={isEditable && item.itemIndex !== null}
+                      align="right"
+                      onCommit={(value) => handleCellCommit(item, 'quantity', value)}
+                    />
+                  </td>
                   <td className="px-4 py-2 text-right font-mono">
-                    {item.quantity !== null ? item.quantity.toLocaleString('vi-VN') : '-'}
+                    <EditableCell
+                      value={item.unitPrice !== null ? String(item.unitPrice) : ''}
+                      display={item.unitPrice !== null ? item.unitPrice.toLocaleString('vi-VN') : '-'}
+                      isEditable={isEditable && item.itemIndex !== null}
+                      align="right"
+                      onCommit={(value) => handleCellCommit(item, 'unitPrice', value)}
+                    />
                   </td>
                   <td className="px-4 py-2 text-right font-mono">
-                     {item.unitPrice !== null ? item.unitPrice.toLocaleString('vi-VN') : '-'}
+                    <EditableCell
+                      value={String(item.totalPrice)}
+                      display={item.totalPrice.toLocaleString('vi-VN')}
+                      isEditable={isEditable}
+                      align="right"
+                      onCommit={(value) => handleCellCommit(item, 'totalPrice', value)}
+                    />
                   </td>
-                  <td className="px-4 py-2 text-right font-mono">{item.totalPrice.toLocaleString('vi-VN')}</td>
+                  {isEditable && onDataChange && (
+                    <td className="px-2 py-2 whitespace-nowrap text-center">
+                      <button className={rowActionClass} title="Thêm dòng bên dưới" onClick={() => onDataChange(addItem(data, item.recordIndex, item.itemIndex ?? undefined))}>＋</button>
+                      <button className={rowActionClass} title="Tách dòng làm hai" disabled={item.itemIndex === null} onClick={() => item.itemIndex !== null && onDataChange(splitItem(data, item.recordIndex, item.itemIndex))}>⇅</button>
+                      <button className={rowActionClass} title={item.mergeBlocker ? `Không thể gộp: ${item.mergeBlocker}` : 'Gộp với dòng bên dưới'} disabled={!item.hasNextInRecord || Boolean(item.mergeBlocker)} onClick={() => item.itemIndex !== null && onDataChange(mergeItemWithNext(data, item.recordIndex, item.itemIndex))}>⤓</button>
+                      <button
+                        className={`${rowActionClass} hover:text-red-600`}
+                        title={item.itemIndex === null ? 'Xoá chứng từ' : 'Xoá dòng'}
+                        onClick={() => onDataChange(item.itemIndex === null ? deleteRecord(data, item.recordIndex) : deleteItem(data, item.recordIndex, item.itemIndex))}
+                      >
+                        &times;
+                      </button>
+                      {item.itemIndex === 0 && (
+                        <button className={`${rowActionClass} hover:text-red-600`} title="Xoá cả chứng từ" onClick={() => onDataChange(deleteRecord(data, item.recordIndex))}>⊘</button>
+                      )}
+                    </td>
+                  )}
                 </tr>
               ))
             )}
@@ -135,6 +334,14 @@ const DataTable: React.FC<DataTableProps> = ({ title, data, icon, totalCount, he
         </table>
       </div>
       <div className="mt-4 pt-4 border-t-2 border-gray-200 dark:border-border flex justify-end items-baseline">
+        {isEditable && onDataChange && (
+          <button
+            onClick={() => onDataChange(addRecord(data))}
+            className="mr-auto px-3 py-1.5 text-sm font-semibold rounded-lg text-primary bg-primary/10 hover:bg-primary/20"
+          >
+            ＋ Thêm chứng từ
+          </button>
+        )}
         <span className="text-base font-bold text-gray-700 dark:text-muted-foreground">Tổng cộng:</span>
         <span className="text-2xl font-bold text-primary ml-4 font-mono">
           {totalAmount.toLocaleString('vi-VN')} VNĐ
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import type { ReconciliationResult } from '../types';
+import {
+  CONFIRMATION_PLACEHOLDERS,
+  DEFAULT_CONFIRMATION_TEMPLATE,
+  loadConfirmationSettings,
+  saveConfirmationSettings,
+  renderConfirmation,
+  printConfirmation,
+  buildConfirmationDoc,
+} from '../services/confirmationService';
+import type { ConfirmationSettings, ConfirmationInput } from '../services/confirmationService';
+
+interface DebtConfirmationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  result: ReconciliationResult;
+  supplierName: string;
+  period: { start: string | null; end: string | null };
+  onDownload: (blob: Blob, extension: string) => void;
+}
+
+const inputClassName = 'mt-1 block w-full bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-lg focus:ring-2 focus:ring-primary focus:border-primary p-2';
+
+const parseAmount = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(/[.\s]/g, '').replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+};
+
+const DebtConfirmationModal: React.FC<DebtConfirmationModalProps> = ({
+  isOpen,
+  onClose,
+  result,
+  supplierName,
+  period,
+  onDownload,
+}) => {
+  const [settings, setSettings] = useState<ConfirmationSettings>(loadConfirmationSettings);
+  const [activeTab, setActiveTab] = useState<'document' | 'template'>('document');
+  const [supplierRepresentative, setSupplierRepresentative] = useState('');
+  const [periodStart, setPeriodStart] = useState<string | null>(period.start);
+  const [periodEnd, setPeriodEnd] = useState<string | null>(period.end);
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [closingBalance, setClosingBalance] = useState('');
+  const [notes, setNotes] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSettings(loadConfirmationSettings());
+      setPeriodStart(period.start);
+      setPeriodEnd(period.end);
+      setMessage(null);
+    }
+  }, [isOpen, period.start, period.end]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const input: ConfirmationInput = {
+    supplierName,
+    supplierRepresentative,
+    periodStart,
+    periodEnd,
+    openingBalance: parseAmount(openingBalance),
+    closingBalance: parseAmount(closingBalance),
+    notes,
+  };
+  const html = renderConfirmation(settings, input, result);
+  const title = `Biên bản đối chiếu công nợ - ${supplierName}`;
+
+  const handleSuggestClosing = () => {
+    const opening = parseAmount(openingBalance) ?? 0;
+    setClosingBalance(String(Math.round(opening + result.totalSupplierAmount)));
+  };
+
+  const handlePrint = () => {
+    if (!printConfirmation(html, title)) {
+      setMessage('Trình duyệt đã chặn cửa sổ in. Vui lòng cho phép cửa sổ bật lên và thử lại.');
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    saveConfirmationSettings(settings);
+    setMessage('Đã lưu mẫu biên bản.');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-6xl h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">
+            Biên bản đối chiếu công nợ: <span className="text-primary">{supplierName}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+        <div className="flex border-b dark:border-border px-4 flex-shrink-0">
+          {(['document', 'template'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-sm font-semibold border-b-2 -mb-px ${activeTab === tab ? 'border-primary text-primary' : 'border-transparent text-gray-500 dark:text-muted-foreground hover:text-gray-700'}`}
+            >
+              {tab === 'document' ? 'Thông tin biên bản' : 'Chỉnh sửa mẫu'}
+            </button>
+          ))}
+        </div>
+        <div className="flex-grow flex min-h-0">
+          <div className="w-2/5 p-4 overflow-y-auto border-r dark:border-border space-y-3 text-sm">
+            {activeTab === 'document' ? (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-gray-700 dark:text-muted-foreground">Từ ngày
+                    <input type="date" value={periodStart ?? ''} onChange={(e) => setPeriodStart(e.target.value || null)} className={inputClassName} />
+                  </label>
+                  <label className="text-gray-700 dark:text-muted-foreground">Đến ngày
+                    <input type="date" value={periodEnd ?? ''} onChange={(e) => setPeriodEnd(e.target.value || null)} className={inputClassName} />
+                  </label>
+                </div>
+                <label className="block text-gray-700 dark:text-muted-foreground">Đại diện NCC
+                  <input type="text" value={supplierRepresentative} onChange={(e) => setSupplierRepresentative(e.target.value)} className={inputClassName} />
+                </label>
+                <label className="block text-gray-700 dark:text-muted-foreground">Số dư đầu kỳ (VNĐ)
+                  <input type="text" inputMode="decimal" value={openingBalance} onChange={(e) => setOpeningBalance(e.target.value)} className={inputClassName} />
+                </label>
+                <label className="block text-gray-700 dark:text-muted-foreground">Số dư cuối kỳ (VNĐ)
+                  <div className="flex gap-2">
+                    <input type="text" inputMode="decimal" value={closingBalance} onChange={(e) => setClosingBalance(e.target.value)} className={inputClassName} />
+                    <button onClick={handleSuggestClosing} className="mt-1 px-3 text-xs font-semibold rounded-lg border border-slate-300 dark:border-border hover:bg-slate-100 dark:hover:bg-secondary whitespace-nowrap" title="Đầu kỳ + phát sinh theo NCC, chưa trừ thanh toán">Gợi ý</button>
+                  </div>
+                </label>
+                <label className="block text-gray-700 dark:text-muted-foreground">Ghi chú
+                  <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={inputClassName} />
+                </label>
+              </>
+            ) : (
+              <>
+                <label className="block text-gray-700 dark:text-muted-foreground">Tên công ty bên mua
+                  <input type="text" value={settings.companyName} onChange={(e) => setSettings(prev => ({ ...prev, companyName: e.target.value }))} className={inputClassName} />
+                </label>
+                <label className="block text-gray-700 dark:text-muted-foreground">Đại diện bên mua
+                  <input type="text" value={settings.companyRepresentative} onChange={(e) => setSettings(prev => ({ ...prev, companyRepresentative: e.target.value }))} className={inputClassName} />
+                </label>
+                <label className="block text-gray-700 dark:text-muted-foreground">Mẫu HTML
+                  <textarea
+                    value={settings.template}
+                    onChange={(e) => setSettings(prev => ({ ...prev, template: e.target.value }))}
+                    rows={14}
+                    spellCheck={false}
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                </label>
+                <details className="text-xs text-gray-500 dark:text-muted-foreground">
+                  <summary className="cursor-pointer">Các trường có thể dùng</summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {Object.entries(CONFIRMATION_PLACEHOLDERS).map(([key, label]) => (
+                      <li key={key}><code className="text-primary">{`{{${key}}}`}</code> — {label}</li>
+                    ))}
+                  </ul>
+                </details>
+                <div className="flex gap-2">
+                  <button onClick={handleSaveTemplate} className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg hover:bg-accent-hover">Lưu mẫu</button>
+                  <button onClick={() => setSettings(prev => ({ ...prev, template: DEFAULT_CONFIRMATION_TEMPLATE }))} className="px-4 py-2 text-gray-500 dark:text-muted-foreground hover:underline">Khôi phục mẫu mặc định</button>
+                </div>
+              </>
+            )}
+            {message && <p className="text-sm text-primary">{message}</p>}
+          </div>
+          <div className="w-3/5 p-4 bg-slate-100 dark:bg-secondary/40">
+            <iframe title="Xem trước biên bản" srcDoc={html} className="w-full h-full bg-white rounded-md shadow" />
+          </div>
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-end items-center gap-4">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+            Đóng
+          </button>
+          <button onClick={() => onDownload(buildConfirmationDoc(html, title), 'doc')} className="px-4 py-2 border border-primary text-primary font-semibold rounded-lg hover:bg-primary/10 transition-colors">
+            Tải Word (.doc)
+          </button>
+          <button onClick={handlePrint} className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover transition-colors">
+            In / Lưu PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebtConfirmationModal;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ReconciliationSession } from '../types';
+import { ComparisonStatus } from '../types';
+import { listSessions, deleteSession, duplicateSession } from '../services/sessionService';
+import Spinner from './Spinner';
+
+interface HistoryViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  supplierId: string;
+  supplierName: string;
+  onOpenSession: (session: ReconciliationSession) => void;
+}
+
+const formatCurrency = (amount: number) => amount.toLocaleString('vi-VN', { maximumFractionDigits: 0 });
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** The document date range of the supplier data, e.g. "01/03/2025 – 31/03/2025". */
+const describePeriod = (session: ReconciliationSession) => {
+  const dates = session.extractedData.map(record => record.date).filter((d): d is string => Boolean(d)).sort();
+  if (dates.length === 0) return '-';
+  const format = (date: string) => new Date(date + 'T00:00:00Z').toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  return dates[0] === dates[dates.length - 1] ? format(dates[0]) : `${format(dates[0])} – ${format(dates[dates.length - 1])}`;
+};
+
+const HistoryView: React.FC<HistoryViewProps> = ({
+  isOpen,
+  onClose,
+  supplierId,
+  supplierName,
+  onOpenSession,
+}) => {
+  const [sessions, setSessions] = useState<ReconciliationSession[]>([]);
+  // Null until the user ticks the box, so each opening defaults to the supplier selected at that time.
+  const [allSuppliersChoice, setAllSuppliersChoice] = useState<boolean | null>(null);
+  const showAllSuppliers = allSuppliersChoice ?? !supplierId;
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSessions(await listSessions(showAllSuppliers ? undefined : supplierId));
+    } catch (err: any) {
+      setError(err.message || 'Không thể tải lịch sử đối chiếu.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAllSuppliers, supplierId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSessions();
+    } else {
+      setAllSuppliersChoice(null);
+    }
+  }, [isOpen, loadSessions]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      onOpenSession(await duplicateSession(id));
+    } catch (err: any) {
+      setError(err.message || 'Không thể nhân bản phiên đối chiếu.');
+    }
+  };
+
+  const handleDelete = async (session: ReconciliationSession) => {
+    if (!window.confirm(`Xóa phiên đối chiếu ${session.supplierName} lúc ${formatDateTime(session.updatedAt)}?`)) return;
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err: any) {
+      setError(err.message || 'Không thể xóa phiên đối chiếu.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">
+            Lịch sử đối chiếu{!showAllSuppliers && <>: <span className="text-primary">{supplierName}</span></>}
+          </h3>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showAllSuppliers}
+                disabled={!supplierId}
+                onChange={(e) => setAllSuppliersChoice(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              Tất cả NCC
+            </label>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+          </div>
+        </div>
+        <div className="p-4 overflow-y-auto flex-grow">
+          {error && (
+            <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+          {isLoading ? (
+            <div className="flex justify-center py-10"><Spinner /></div>
+          ) : sessions.length === 0 ? (
+            <p className="text-center py-10 text-gray-500 dark:text-muted-foreground">Chưa có phiên đối chiếu nào được lưu.</p>
+          ) : (
+            <table className="w-full text-sm text-left text-gray-600 dark:text-muted-foreground">
+              <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase bg-gray-100 dark:bg-secondary/80 sticky top-0">
+                <tr>
+                  <th scope="col" className="px-4 py-3">Thời gian</th>
+                  {showAllSuppliers && <th scope="col" className="px-4 py-3">Nhà cung cấp</th>}
+                  <th scope="col" className="px-4 py-3">Kỳ chứng từ</th>
+                  <th scope="col" className="px-4 py-3">Tệp</th>
+                  <th scope="col" className="px-4 py-3 text-right">Tổng NCC</th>
+                  <th scope="col" className="px-4 py-3 text-right">Chênh lệch</th>
+                  <th scope="col" className="px-4 py-3 text-center">Thao tác</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map(session => {
+                  const openCount = session.result?.comparedItems.filter(item => item.status !== ComparisonStatus.MATCHED).length ?? 0;
+                  return (
+                    <tr key={session.id} className="border-b dark:border-border hover:bg-gray-50 dark:hover:bg-secondary/60">
+                      <td className="px-4 py-2 whitespace-nowrap">{formatDateTime(session.updatedAt)}</td>
+                      {showAllSuppliers && <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground">{session.supplierName}</td>}
+                      <td className="px-4 py-2 whitespace-nowrap">{describePeriod(session)}</td>
+                      <td className="px-4 py-2 max-w-[220px] truncate" title={session.files.map(f => f.name).join('\n')}>
+                        {session.files.length > 0 ? session.files.map(f => f.name).join(', ') : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">{session.result ? formatCurrency(session.result.totalSupplierAmount) : '-'}</td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {session.result ? (
+                          <>
+                            <span className={session.result.difference === 0 ? 'text-green-600' : 'text-red-600'}>{formatCurrency(session.result.difference)}</span>
+                            {openCount > 0 && <div className="text-[11px] font-sans text-gray-500 dark:text-muted-foreground">{openCount} dòng chưa khớp</div>}
+                          </>
+                        ) : (
+                          <span className="font-sans text-xs italic">Chưa đối chiếu</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => onOpenSession(session)} className="px-3 py-1 text-xs font-semibold rounded-md bg-primary text-primary-foreground hover:bg-accent-hover">Mở</button>
+                          <button onClick={() => handleDuplicate(session.id)} className="px-3 py-1 text-xs font-semibold rounded-md border border-slate-300 dark:border-border hover:bg-slate-100 dark:hover:bg-secondary" title="Tạo bản sao để chỉnh sửa và đối chiếu lại">Nhân bản</button>
+                          <button onClick={() => handleDelete(session)} className="px-3 py-1 text-xs font-semibold rounded-md text-red-600 border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/40">Xóa</button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import type { ComparedItem } from '../types';
+import { ComparisonStatus } from '../types';
+import { aggregateItems } from '../services/groupService';
+import { normalizeVietnamese } from '../services/matchingService';
+import { findUnmatchedSystemRows } from '../services/reviewService';
+import type { LineReviewChanges } from '../services/reviewService';
+
+interface LineReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: ComparedItem[];
+  /** Index in `items` of the row being reviewed. */
+  index: number | null;
+  onSave: (changes: LineReviewChanges) => void;
+}
+
+const REVIEW_STATUSES = [
+  ComparisonStatus.MATCHED,
+  ComparisonStatus.DISCREPANCY,
+  ComparisonStatus.SUPPLIER_ONLY,
+  ComparisonStatus.SYSTEM_ONLY,
+];
+
+const inputClassName = 'mt-1 block w-full bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-lg focus:ring-2 focus:ring-primary focus:border-primary p-2';
+
+const formatNumber = (value: number | undefined) => value?.toLocaleString('vi-VN', { maximumFractionDigits: 2 }) ?? '-';
+
+const describeSide = (item: ComparedItem, side: 'supplierItems' | 'systemItems') => {
+  const aggregate = aggregateItems(item[side]);
+  return aggregate
+    ? `${aggregate.name} · SL ${formatNumber(aggregate.quantity)} · ĐG ${formatNumber(aggregate.unitPrice)} · TT ${formatNumber(aggregate.totalPrice)}`
+    : '—';
+};
+
+const LineReviewModal: React.FC<LineReviewModalProps> = ({
+  isOpen,
+  onClose,
+  items,
+  index,
+  onSave,
+}) => {
+  const [unpair, setUnpair] = useState(false);
+  const [systemIndex, setSystemIndex] = useState<number | null>(null);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<ComparisonStatus | ''>('');
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const item = index !== null ? items[index] : undefined;
+
+  useEffect(() => {
+    if (isOpen && item) {
+      setUnpair(false);
+      setSystemIndex(null);
+      setSearch('');
+      setStatus(item.statusOverride ? item.status : '');
+      setReason(item.statusOverride?.reason ?? '');
+      setNote(item.note ?? '');
+      setError(null);
+    }
+    // Only reset when a different row is opened, not when the list changes underneath.
+  }, [isOpen, index]);
+
+  if (!isOpen || !item || index === null) {
+    return null;
+  }
+
+  const canPair = item.supplierItems.length > 0;
+  const terms = normalizeVietnamese(search).split(' ').filter(Boolean);
+  const candidates = canPair
+    ? findUnmatchedSystemRows(items).filter(({ item: candidate }) => {
+        const name = normalizeVietnamese(candidate.systemItems.map(line => line.name).join(' '));
+        return terms.every(term => name.includes(term));
+      })
+    : [];
+  const originalStatus = item.statusOverride?.originalStatus ?? item.status;
+  // After a new pairing the matching decides the status afresh, so any explicit choice is an override.
+  const needsReason = status !== '' && (systemIndex !== null || status !== originalStatus);
+
+  const handleSave = () => {
+    if (needsReason && !reason.trim()) {
+      setError('Vui lòng nhập lý do khi thay đổi trạng thái.');
+      return;
+    }
+    onSave({
+      unpair: unpair || undefined,
+      systemIndex: systemIndex ?? undefined,
+      status: status || undefined,
+      reason,
+      note,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">Duyệt dòng {index + 1}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+        <div className="p-4 overflow-y-auto flex-grow space-y-5 text-sm text-gray-700 dark:text-muted-foreground">
+          <div className="grid grid-cols-1 gap-2">
+            <p><span className="font-semibold text-amber-800 dark:text-amber-300">NCC:</span> {describeSide(item, 'supplierItems')}</p>
+            <p><span className="font-semibold text-primary">Wecare:</span> {describeSide(item, 'systemItems')}</p>
+            <p>
+              Trạng thái hiện tại: <span className="font-semibold">{item.status}</span>
+              {item.statusOverride && <> (gốc: {item.statusOverride.originalStatus})</>}
+            </p>
+          </div>
+
+          {canPair && (
+            <section>
+              <h4 className="font-semibold text-gray-800 dark:text-foreground mb-2">Ghép lại với hàng Wecare</h4>
+              {item.systemItems.length > 0 && (
+                <label className="flex items-center gap-2 mb-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={unpair || systemIndex !== null}
+                    disabled={systemIndex !== null}
+                    onChange={(e) => setUnpair(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <span>Bỏ ghép hàng Wecare hiện tại (đưa về danh sách chưa khớp)</span>
+                </label>
+              )}
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Tìm hàng Wecare chưa khớp..."
+                className={inputClassName}
+              />
+              <div className="mt-2 max-h-48 overflow-y-auto border border-slate-200 dark:border-border rounded-lg divide-y dark:divide-border">
+                {candidates.length === 0 ? (
+                  <p className="p-3 text-center italic">Không có hàng Wecare chưa khớp phù hợp.</p>
+                ) : candidates.map(({ item: candidate, index: candidateIndex }) => (
+                  <label key={candidateIndex} className={`flex items-start gap-2 p-2 cursor-pointer hover:bg-slate-50 dark:hover:bg-secondary/60 ${systemIndex === candidateIndex ? 'bg-primary/10' : ''}`}>
+                    <input
+                      type="radio"
+                      name="review-system-row"
+                      checked={systemIndex === candidateIndex}
+                      onChange={() => setSystemIndex(candidateIndex)}
+                      className="mt-1 h-4 w-4 text-primary focus:ring-primary"
+                    />
+                    <span>{describeSide(candidate, 'systemItems')}</span>
+                  </label>
+                ))}
+              </div>
+              {systemIndex !== null && (
+                <button onClick={() => setSystemIndex(null)} className="mt-1 text-xs text-primary hover:underline">Bỏ chọn</button>
+              )}
+            </section>
+          )}
+
+          <section>
+            <h4 className="font-semibold text-gray-800 dark:text-foreground mb-2">Điều chỉnh trạng thái</h4>
+            <select value={status} onChange={(e) => setStatus(e.target.value as ComparisonStatus | '')} className={inputClassName}>
+              <option value="">{systemIndex !== null ? 'Theo kết quả ghép mới' : 'Không thay đổi'}</option>
+              {REVIEW_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            {needsReason && (
+              <label className="block mt-2">Lý do <span className="text-red-500">*</span>
+                <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} className={inputClassName} />
+              </label>
+            )}
+          </section>
+
+          <section>
+            <h4 className="font-semibold text-gray-800 dark:text-foreground mb-2">Ghi chú</h4>
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} className={inputClassName} placeholder="Ghi chú của người duyệt..." />
+          </section>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-end gap-4">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+            Hủy
+          </button>
+          <button onClick={handleSave} className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover transition-colors">
+            Lưu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineReviewModal;
@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ExistingMapping } from '../types';
+import { normalizeVietnamese } from '../services/matchingService';
+import {
+  toMappingDraft,
+  validateMappingDraft,
+  findMappingConflicts,
+  parseMappingFile,
+  planMappingImport,
+  buildMappingFile,
+} from '../services/mappingService';
+import type { MappingDraft, MappingImportPlan } from '../services/mappingService';
+import Spinner from './Spinner';
+
+type SaveOutcome = { success: boolean; error?: string };
+
+interface MappingManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  supplierName: string;
+  mappings: ExistingMapping[];
+  isLoading: boolean;
+  onCreate: (drafts: MappingDraft[]) => Promise<SaveOutcome>;
+  onUpdate: (id: string, draft: MappingDraft) => Promise<SaveOutcome>;
+  onDelete: (id: string) => Promise<SaveOutcome>;
+  onImport: (plan: MappingImportPlan) => Promise<SaveOutcome>;
+  /** Opens the one-time tool linking name-keyed mappings to supplier records. */
+  onOpenMigration: () => void;
+}
+
+const EMPTY_DRAFT: MappingDraft = { supplierProductName: '', productName: '', supplierUnit: null, unit: null, conversionFactor: 1 };
+
+const cellInputClassName = 'w-full bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-md focus:ring-1 focus:ring-primary focus:border-primary px-2 py-1';
+
+/** Editable cells for one mapping, shared by the "add" row and rows being edited. */
+const DraftCells: React.FC<{ draft: MappingDraft; onChange: (draft: MappingDraft) => void }> = ({ draft, onChange }) => (
+  <>
+    <td className="px-3 py-2"><input className={cellInputClassName} value={draft.supplierProductName} onChange={(e) => onChange({ ...draft, supplierProductName: e.target.value })} placeholder="Tên sản phẩm NCC" /></td>
+    <td className="px-3 py-2"><input className={cellInputClassName} value={draft.productName} onChange={(e) => onChange({ ...draft, productName: e.target.value })} placeholder="Tên sản phẩm Wecare" /></td>
+    <td className="px-3 py-2"><input className={cellInputClassName} value={draft.supplierUnit ?? ''} onChange={(e) => onChange({ ...draft, supplierUnit: e.target.value || null })} /></td>
+    <td className="px-3 py-2"><input className={cellInputClassName} value={draft.unit ?? ''} onChange={(e) => onChange({ ...draft, unit: e.target.value || null })} /></td>
+    <td className="px-3 py-2"><input type="number" min="0" step="any" className={`${cellInputClassName} text-right`} value={draft.conversionFactor} onChange={(e) => onChange({ ...draft, conversionFactor: parseFloat(e.target.value) })} /></td>
+  </>
+);
+
+const MappingManager: React.FC<MappingManagerProps> = ({
+  isOpen,
+  onClose,
+  supplierName,
+  mappings,
+  isLoading,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onImport,
+  onOpenMigration,
+}) => {
+  const [search, setSearch] = useState('');
+  const [showConflictsOnly, setShowConflictsOnly] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<MappingDraft>(EMPTY_DRAFT);
+  const [newDraft, setNewDraft] = useState<MappingDraft | null>(null);
+  const [importPlan, setImportPlan] = useState<MappingImportPlan | null>(null);
+  const [importInvalid, setImportInvalid] = useState<{ row: number; reason: string }[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditingId(null);
+      setNewDraft(null);
+      setImportPlan(null);
+      setImportInvalid([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const conflicts = findMappingConflicts(mappings);
+  const conflictByMapping = new Map<ExistingMapping, string>();
+  conflicts.forEach(conflict => conflict.mappings.forEach(mapping => conflictByMapping.set(
+    mapping,
+    conflict.kind === 'multipleProducts'
+      ? `"${conflict.supplierProductName}" đang trỏ tới ${conflict.mappings.length} sản phẩm Wecare khác nhau`
+      : `"${conflict.supplierProductName}" bị lưu trùng ${conflict.mappings.length} lần`
+  )));
+
+  const terms = normalizeVietnamese(search).split(' ').filter(Boolean);
+  const visibleMappings = mappings.filter(mapping => {
+    if (showConflictsOnly && !conflictByMapping.has(mapping)) return false;
+    const haystack = normalizeVietnamese(`${mapping.crdfd_supplier_product_name} ${mapping.crdfd_product_name}`);
+    return terms.every(term => haystack.includes(term));
+  });
+
+  const run = async (action: () => Promise<SaveOutcome>, onSuccess?: () => void) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const outcome = await action();
+      if (outcome.success) {
+        onSuccess?.();
+      } else {
+        setError(outcome.error || 'Đã xảy ra lỗi không xác định.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingId) return;
+    const validationError = validateMappingDraft(editDraft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    run(() => onUpdate(editingId, editDraft), () => setEditingId(null));
+  };
+
+  const handleCreate = () => {
+    if (!newDraft) return;
+    const validationError = validateMappingDraft(newDraft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    run(() => onCreate([newDraft]), () => setNewDraft(null));
+  };
+
+  const handleDelete = (mapping: ExistingMapping) => {
+    const id = mapping.crdfd_mapping_sku_2025id;
+    if (!id) return;
+    if (!window.confirm(`Xóa mapping "${mapping.crdfd_supplier_product_name}" → "${mapping.crdfd_product_name}"?`)) return;
+    run(() => onDelete(id));
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const { drafts, invalid } = await parseMappingFile(file);
+      setImportPlan(planMappingImport(drafts, mappings));
+      setImportInvalid(invalid);
+    } catch (err: any) {
+      setError(`Không thể đọc tệp ${file.name}: ${err.message || 'lỗi không xác định'}`);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    const blob = await buildMappingFile(mappings, format);
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    const sanitizedSupplierName = supplierName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    link.setAttribute('href', url);
+    link.setAttribute('download', `mapping_${sanitizedSupplierName}.${format}`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const toolbarButtonClassName = 'px-3 py-1.5 text-sm font-semibold rounded-lg border border-slate-300 dark:border-border hover:bg-slate-100 dark:hover:bg-secondary disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">
+            Quản lý mapping sản phẩm: <span className="text-primary">{supplierName}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+
+        <div className="p-4 flex flex-wrap items-center gap-2 border-b dark:border-border flex-shrink-0 text-sm">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Tìm theo tên sản phẩm NCC hoặc Wecare..."
+            className="flex-grow min-w-[220px] bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-lg focus:ring-2 focus:ring-primary focus:border-primary px-3 py-1.5"
+          />
+          <label className={`flex items-center gap-2 cursor-pointer ${conflicts.length > 0 ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-600 dark:text-muted-foreground'}`}>
+            <input
+              type="checkbox"
+              checked={showConflictsOnly}
+              onChange={(e) => setShowConflictsOnly(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Chỉ hiện xung đột ({conflicts.length})
+          </label>
+          <button onClick={() => setNewDraft({ ...EMPTY_DRAFT })} disabled={isBusy || newDraft !== null} className={toolbarButtonClassName}>+ Thêm</button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={toolbarButtonClassName}>Nhập CSV/XLSX</button>
+          <input ref={fileInputRef} type="file" accept=".csv,.xlsx" className="hidden" onChange={handleFileSelected} />
+          <button onClick={() => handleExport('csv')} disabled={mappings.length === 0} className={toolbarButtonClassName}>Xuất CSV</button>
+          <button onClick={() => handleExport('xlsx')} disabled={mappings.length === 0} className={toolbarButtonClassName}>Xuất XLSX</button>
+          <button onClick={onOpenMigration} className={toolbarButtonClassName} title="Liên kết các mapping lưu theo tên NCC với bản ghi nhà cung cấp">Liên kết mapping cũ</button>
+        </div>
+
+        {importPlan && (
+          <div className="mx-4 mt-4 p-3 rounded-lg bg-blue-50 dark:bg-primary/10 text-sm text-gray-700 dark:text-muted-foreground flex-shrink-0">
+            <p>
+              Tệp nhập: <strong>{importPlan.toCreate.length}</strong> mapping mới, <strong>{importPlan.toUpdate.length}</strong> cập nhật,{' '}
+              {importPlan.unchanged} không đổi{importInvalid.length > 0 && <>, <span className="text-red-600 dark:text-red-400">{importInvalid.length} dòng lỗi</span></>}.
+            </p>
+            {importInvalid.length > 0 && (
+              <ul className="mt-1 text-xs text-red-600 dark:text-red-400 max-h-20 overflow-y-auto">
+                {importInvalid.map(({ row, reason }) => <li key={row}>Dòng {row}: {reason}</li>)}
+              </ul>
+            )}
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={() => run(() => onImport(importPlan), () => { setImportPlan(null); setImportInvalid([]); })}
+                disabled={isBusy || (importPlan.toCreate.length === 0 && importPlan.toUpdate.length === 0)}
+                className="px-3 py-1.5 bg-primary text-primary-foreground font-semibold rounded-lg hover:bg-accent-hover disabled:opacity-50"
+              >
+                Áp dụng
+              </button>
+              <button onClick={() => { setImportPlan(null); setImportInvalid([]); }} className="px-3 py-1.5 text-gray-500 dark:text-muted-foreground hover:underline">Hủy</button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mx-4 mt-3 text-sm text-red-600 dark:text-red-400 flex-shrink-0">{error}</p>}
+
+        <div className="p-4 overflow-y-auto flex-grow">
+          {isLoading ? (
+            <div className="flex justify-center py-10"><Spinner /></div>
+          ) : (
+            <table className="w-full text-sm text-left text-gray-600 dark:text-muted-foreground">
+              <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase bg-gray-100 dark:bg-secondary/80 sticky top-0">
+                <tr>
+                  <th scope="col" className="px-3 py-3 w-[30%]">Sản phẩm NCC</th>
+                  <th scope="col" className="px-3 py-3 w-[30%]">Sản phẩm Wecare</th>
+                  <th scope="col" className="px-3 py-3">ĐVT NCC</th>
+                  <th scope="col" className="px-3 py-3">ĐVT Wecare</th>
+                  <th scope="col" className="px-3 py-3 text-right">Hệ số</th>
+                  <th scope="col" className="px-3 py-3 text-center">Thao tác</th>
+                </tr>
+              </thead>
+              <tbody>
+                {newDraft && (
+                  <tr className="border-b dark:border-border bg-green-50 dark:bg-green-900/20">
+                    <DraftCells draft={newDraft} onChange={setNewDraft} />
+                    <td className="px-3 py-2 text-center whitespace-nowrap">
+                      <button onClick={handleCreate} disabled={isBusy} className="px-2 py-1 text-xs font-semibold rounded-md bg-primary text-primary-foreground hover:bg-accent-hover">Lưu</button>
+                      <button onClick={() => setNewDraft(null)} className="ml-2 text-xs hover:underline">Hủy</button>
+                    </td>
+                  </tr>
+                )}
+                {visibleMappings.length === 0 && !newDraft ? (
+                  <tr>
+                    <td colSpan={6} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
+                      {mappings.length === 0 ? 'Nhà cung cấp này chưa có mapping nào.' : 'Không có mapping nào khớp tìm kiếm.'}
+                    </td>
+                  </tr>
+                ) : visibleMappings.map((mapping, index) => {
+                  const id = mapping.crdfd_mapping_sku_2025id;
+                  const conflict = conflictByMapping.get(mapping);
+                  if (id && id === editingId) {
+                    return (
+                      <tr key={id} className="border-b dark:border-border bg-blue-50 dark:bg-primary/10">
+                        <DraftCells draft={editDraft} onChange={setEditDraft} />
+                        <td className="px-3 py-2 text-center whitespace-nowrap">
+                          <button onClick={handleSaveEdit} disabled={isBusy} className="px-2 py-1 text-xs font-semibold rounded-md bg-primary text-primary-foreground hover:bg-accent-hover">Lưu</button>
+                          <button onClick={() => setEditingId(null)} className="ml-2 text-xs hover:underline">Hủy</button>
+                        </td>
+                      </tr>
+                    );
+                  }
+                  return (
+                    <tr key={id ?? index} className={`border-b dark:border-border ${conflict ? 'bg-red-50 dark:bg-red-900/20' : 'hover:bg-gray-50 dark:hover:bg-secondary/60'}`} title={conflict}>
+                      <td className="px-3 py-2 font-medium text-gray-900 dark:text-foreground">
+                        {mapping.crdfd_supplier_product_name}
+                        {!mapping._crdfd_supplierlookup_value && (
+                          <span className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300" title="Mapping đang gắn theo tên NCC, chưa liên kết với bản ghi nhà cung cấp">Theo tên</span>
+                        )}
+                        {conflict && <div className="text-[11px] font-normal text-red-600 dark:text-red-400">{conflict}</div>}
+                      </td>
+                      <td className="px-3 py-2">{mapping.crdfd_product_name}</td>
+                      <td className="px-3 py-2">{mapping.crdfd_supplier_unit || '-'}</td>
+                      <td className="px-3 py-2">{mapping.crdfd_unit || '-'}</td>
+                      <td className="px-3 py-2 text-right font-mono">{mapping.crdfd_conversion_factor ?? 1}</td>
+                      <td className="px-3 py-2">
+                        <div className="flex justify-center gap-2">
+                          <button
+                            onClick={() => { setEditingId(id ?? null); setEditDraft(toMappingDraft(mapping)); setError(null); }}
+                            disabled={!id || isBusy}
+                            className="px-3 py-1 text-xs font-semibold rounded-md border border-slate-300 dark:border-border hover:bg-slate-100 dark:hover:bg-secondary disabled:opacity-50"
+                          >
+                            Sửa
+                          </button>
+                          <button
+                            onClick={() => handleDelete(mapping)}
+                            disabled={!id || isBusy}
+                            className="px-3 py-1 text-xs font-semibold rounded-md text-red-600 border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/40 disabled:opacity-50"
+                          >
+                            Xóa
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-between items-center text-sm text-gray-500 dark:text-muted-foreground">
+          <span>{visibleMappings.length}/{mappings.length} mapping</span>
+          <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+            Đóng
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MappingManager;
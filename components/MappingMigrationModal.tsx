@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import type { Supplier } from '../types';
+import { groupLegacyMappings } from '../services/mappingService';
+import type { LegacyMapping, MappingMigrationGroup } from '../services/mappingService';
+import Spinner from './Spinner';
+
+type SaveOutcome = { success: boolean; error?: string };
+type GroupState = { status: 'pending' | 'linking' | 'done' | 'error'; error?: string };
+
+interface MappingMigrationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  suppliers: Supplier[];
+  /** Loads every mapping that is still keyed by supplier name only. */
+  onLoad: () => Promise<LegacyMapping[]>;
+  onLink: (mappings: LegacyMapping[], supplierId: string) => Promise<SaveOutcome>;
+}
+
+const MappingMigrationModal: React.FC<MappingMigrationModalProps> = ({
+  isOpen,
+  onClose,
+  suppliers,
+  onLoad,
+  onLink,
+}) => {
+  const [groups, setGroups] = useState<MappingMigrationGroup[]>([]);
+  const [states, setStates] = useState<Record<string, GroupState>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setGroups([]);
+    setStates({});
+    setError(null);
+    setIsLoading(true);
+    onLoad()
+      .then(legacy => setGroups(groupLegacyMappings(legacy, suppliers)))
+      .catch((err: any) => setError(err.message || 'Đã xảy ra lỗi không xác định khi tải mapping cũ.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const setSupplier = (supplierName: string, supplierId: string) => {
+    setGroups(prev => prev.map(group => (group.supplierName === supplierName ? { ...group, supplierId: supplierId || null } : group)));
+  };
+
+  const linkable = groups.filter(group => group.supplierId && states[group.supplierName]?.status !== 'done');
+
+  // One supplier at a time, so a failure is reported against the group it belongs to.
+  const handleLink = async () => {
+    setIsLinking(true);
+    for (const group of linkable) {
+      setStates(prev => ({ ...prev, [group.supplierName]: { status: 'linking' } }));
+      const outcome = await onLink(group.mappings, group.supplierId!);
+      setStates(prev => ({
+        ...prev,
+        [group.supplierName]: outcome.success ? { status: 'done' } : { status: 'error', error: outcome.error },
+      }));
+    }
+    setIsLinking(false);
+  };
+
+  const renderState = (group: MappingMigrationGroup) => {
+    const state = states[group.supplierName];
+    if (!state) {
+      return group.supplierId ? <span className="text-gray-500">Sẵn sàng</span> : <span className="text-amber-600 dark:text-amber-400">Chưa chọn NCC</span>;
+    }
+    switch (state.status) {
+      case 'linking': return <Spinner />;
+      case 'done': return <span className="font-semibold text-green-600 dark:text-green-400">Đã liên kết</span>;
+      case 'error': return <span className="text-red-600 dark:text-red-400" title={state.error}>Lỗi: {state.error}</span>;
+      default: return null;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">Liên kết mapping cũ với nhà cung cấp</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+        <div className="p-4 overflow-y-auto flex-grow text-sm text-gray-700 dark:text-muted-foreground">
+          <p className="mb-4">
+            Các mapping dưới đây chỉ lưu tên nhà cung cấp, nên sẽ không còn được dùng nếu tên NCC trên CRM thay đổi.
+            Chọn nhà cung cấp tương ứng cho từng nhóm rồi bấm "Liên kết".
+          </p>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10"><Spinner /></div>
+          ) : groups.length === 0 && !error ? (
+            <p className="py-10 text-center italic">Tất cả mapping đã được liên kết với nhà cung cấp.</p>
+          ) : groups.length > 0 && (
+            <table className="w-full text-left">
+              <thead className="text-xs uppercase bg-slate-100 dark:bg-secondary text-gray-700 dark:text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2">Tên NCC trong mapping</th>
+                  <th className="px-3 py-2 text-right">Số mapping</th>
+                  <th className="px-3 py-2">Nhà cung cấp</th>
+                  <th className="px-3 py-2">Trạng thái</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y dark:divide-border">
+                {groups.map(group => (
+                  <tr key={group.supplierName}>
+                    <td className="px-3 py-2 font-medium text-gray-900 dark:text-foreground">{group.supplierName || <span className="italic text-gray-400">(trống)</span>}</td>
+                    <td className="px-3 py-2 text-right">{group.mappings.length}</td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={group.supplierId ?? ''}
+                        onChange={(e) => setSupplier(group.supplierName, e.target.value)}
+                        disabled={isLinking || states[group.supplierName]?.status === 'done'}
+                        className="w-full bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-md focus:ring-1 focus:ring-primary focus:border-primary px-2 py-1"
+                      >
+                        <option value="">-- Bỏ qua --</option>
+                        {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">{renderState(group)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-end gap-4">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+            Đóng
+          </button>
+          <button
+            onClick={handleLink}
+            disabled={isLinking || linkable.length === 0}
+            className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover transition-colors disabled:opacity-50"
+          >
+            {isLinking ? 'Đang liên kết...' : `Liên kết (${linkable.reduce((sum, group) => sum + group.mappings.length, 0)})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MappingMigrationModal;
@@ -1,26 +1,135 @@
-import React from 'react';
-import type { ReconciliationResult } from '../types';
+import React, { useState } from 'react';
+import type { ReconciliationResult, ReconciliationRecord, ProductItem, ComparedItem, DocumentComparison, DocumentRef, ToleranceSettings } from '../types';
+import { ComparisonStatus } from '../types';
+import { summarizeTax } from '../services/taxService';
+import { describeConversion } from '../services/unitService';
+import { buildReconciliationWorkbook } from '../services/excelReportService';
+import Spinner from './Spinner';
+import DebtConfirmationModal from './DebtConfirmationModal';
+import LineReviewModal from './LineReviewModal';
+import StatementLedgerTable from './StatementLedgerTable';
+import { aggregateItems, sumTotals, isGroupedRow, describeGroupShape } from '../services/groupService';
+import type { TaxBreakdown } from '../services/taxService';
+import { EMPTY_RESULT_FILTER, SORT_LABELS, countByStatus, filterItems, sortItems, filterLedgerRows, sortLedgerRows, isFilterActive, describeFilter } from '../services/resultFilterService';
+import type { ResultFilter, ResultSort, ResultSortKey, IndexedItem } from '../services/resultFilterService';
+import { reviewLine, withReviewedItems, openDifference } from '../services/reviewService';
+import type { LineReviewChanges } from '../services/reviewService';
+import { buildStatementRows } from '../services/statementService';
 
 interface ReconciliationResultDisplayProps {
   result: ReconciliationResult;
   executionTime: number | null;
   onStartOver: () => void;
+  /** Saves the result as reconciliation records in Dynamics. */
+  onSaveToDynamics?: () => Promise<{ success: boolean; error?: string }>;
   supplierName: string;
+  /** Raw supplier extraction and Wecare data, exported as their own sheets. */
+  supplierData: ReconciliationRecord[];
+  systemData: ReconciliationRecord[];
+  /** Receives the result after a reviewer re-pairs, overrides or annotates a line. */
+  onResultChange?: (result: ReconciliationResult) => void;
+  /** Tolerances used to judge manual pairs. */
+  tolerances: ToleranceSettings;
 }
 
-const formatCurrency = (amount: number) => `${amount.toLocaleString('vi-VN')} VNĐ`;
+const formatCurrency = (amount: number) => `${amount.toLocaleString('vi-VN', { maximumFractionDigits: 0 })} VNĐ`;
 
-const ReconciliationResultDisplay: React.FC<ReconciliationResultDisplayProps> = ({ result, executionTime, onStartOver, supplierName }) => {
-  const { totalSupplierAmount, totalSystemAmount, difference, comparedItems, summary } = result;
+const TaxBreakdownLines: React.FC<{ breakdown: TaxBreakdown }> = ({ breakdown }) => (
+  <dl className="mt-2 text-xs text-gray-500 dark:text-muted-foreground space-y-0.5">
+    <div className="flex justify-between"><dt>Thuế GTGT</dt><dd className="font-mono">{formatCurrency(breakdown.tax)}</dd></div>
+    <div className="flex justify-between font-semibold"><dt>Tổng thanh toán</dt><dd className="font-mono">{formatCurrency(breakdown.gross)}</dd></div>
+  </dl>
+);
 
-  // Display all items for a comprehensive view
-  const itemsToDisplay = comparedItems;
+const sumQuantities = (items: ProductItem[]) => items.reduce((sum, item) => sum + item.quantity, 0);
+
+/** One line per item of a grouped row, with an optional group total underneath; '-' for an empty side. */
+const GroupLines: React.FC<{ items: ProductItem[]; render: (item: ProductItem) => React.ReactNode; total?: number }> = ({ items, render, total }) => {
+  if (items.length === 0) return <>-</>;
+  if (items.length === 1) return <>{render(items[0])}</>;
+  return (
+    <>
+      {items.map((line, lineIndex) => (
+        <div key={lineIndex} className="py-0.5 border-b border-dashed border-gray-200 dark:border-border last:border-b-0">{render(line)}</div>
+      ))}
+      {total !== undefined && (
+        <div className="pt-0.5 text-[11px] font-semibold text-indigo-700 dark:text-indigo-300">Σ {total.toLocaleString('vi-VN')}</div>
+      )}
+    </>
+  );
+};
+
+const describeDocument = (doc: DocumentRef | undefined) =>
+  doc ? `${doc.id || 'Không số'}${doc.date ? ` · ${doc.date}` : ''} · ${formatCurrency(doc.amount)}` : '—';
+
+/** Full-width row opening a document's lines when results are grouped by document. */
+const DocumentHeaderRow: React.FC<{ document?: DocumentComparison; statusClass: string }> = ({ document, statusClass }) => (
+  <tr className="bg-slate-100 dark:bg-secondary/70 border-b dark:border-border">
+    <td colSpan={9} className="px-4 py-2 text-xs">
+      {document ? (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+          <span className={`px-2 py-0.5 font-semibold rounded-full ${statusClass}`}>{document.status}</span>
+          <span className="text-amber-800 dark:text-amber-300"><span className="font-semibold">NCC:</span> {describeDocument(document.supplierDocument)}</span>
+          <span className="text-primary"><span className="font-semibold">Wecare:</span> {describeDocument(document.systemDocument)}</span>
+          {document.matchedBy && (
+            <span className="text-gray-500 dark:text-muted-foreground">
+              Ghép {document.matchedBy === 'number' ? 'theo số chứng từ' : 'theo ngày và tổng tiền'}
+            </span>
+          )}
+          {document.details && <span className="italic text-gray-500 dark:text-muted-foreground">{document.details}</span>}
+        </div>
+      ) : (
+        <span className="font-semibold text-gray-500 dark:text-muted-foreground">Chưa xác định chứng từ</span>
+      )}
+    </td>
+  </tr>
+);
+
+const ReconciliationResultDisplay: React.FC<ReconciliationResultDisplayProps> = ({ result, executionTime, onStartOver, onSaveToDynamics, supplierName, supplierData, systemData, onResultChange, tolerances }) => {
+  const { totalSupplierAmount, totalSystemAmount, difference, comparedItems, summary, documents, statement } = result;
+  const [groupByDocument, setGroupByDocument] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isExportingExcel, setIsExportingExcel] = useState(false);
+  const [isConfirmationOpen, setIsConfirmationOpen] = useState(false);
+  const [filter, setFilter] = useState<ResultFilter>(EMPTY_RESULT_FILTER);
+  const [sort, setSort] = useState<ResultSort>({ key: null, direction: 'desc' });
+  const [exportFiltered, setExportFiltered] = useState(false);
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+
+  const filterActive = isFilterActive(filter);
+  const statusCounts = countByStatus(statement ? statement.rows : comparedItems);
+  const itemsToDisplay = sortItems(filterItems(comparedItems, filter), sort);
+  const ledgerRowsToDisplay = statement ? sortLedgerRows(filterLedgerRows(statement.rows, filter), sort) : [];
+  /** Whether the exports take the current view rather than every row. */
+  const exportCurrentView = exportFiltered && (filterActive || Boolean(sort.key));
+  const exportRows: IndexedItem[] | undefined = exportCurrentView ? itemsToDisplay : undefined;
+  const systemOnlyAmount = comparedItems
+    .filter(item => item.status === ComparisonStatus.SYSTEM_ONLY)
+    .reduce((sum, item) => sum + sumTotals(item.systemItems), 0);
+  const taxSummary = summarizeTax(comparedItems);
+  const unexplainedDifference = openDifference(comparedItems);
+
+  const documentByKey = new Map<string, DocumentComparison>((documents ?? []).map(doc => [doc.key, doc]));
+  const documentGroups = [
+    ...(documents ?? []).map(doc => ({ key: doc.key, document: doc as DocumentComparison | undefined })),
+    { key: 'unassigned', document: undefined },
+  ]
+    .map(group => ({
+      ...group,
+      rows: itemsToDisplay
+        .filter(({ item }) => group.document ? item.documentKey === group.key : !item.documentKey || !documentByKey.has(item.documentKey)),
+    }))
+    // While filtering, documents without a visible line are hidden too.
+    .filter(group => (group.document && !filterActive) || group.rows.length > 0);
+  const matchedDocumentCount = (documents ?? []).filter(doc => doc.status === ComparisonStatus.MATCHED).length;
 
   const getStatusClass = (status: string) => {
     switch (status) {
       case 'Khớp': return 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300';
       case 'Chênh lệch': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300';
       case 'Chỉ có ở NCC': return 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300';
+      case 'Chỉ có ở Wecare': return 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300';
       case 'Đang xử lý': return 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
       default: return 'bg-gray-100 text-gray-800 dark:bg-secondary dark:text-muted-foreground';
     }
@@ -36,7 +145,20 @@ const ReconciliationResultDisplay: React.FC<ReconciliationResultDisplayProps> =
       'Số lượng (Wecare)',
       'Đơn giá (Wecare)',
       'Trạng thái',
-      'Ghi chú'
+      'Ghi chú',
+      'Độ tin cậy',
+      'Cơ sở so khớp',
+      'Lệch ĐG trong dung sai',
+      'Lệch TT trong dung sai',
+      'Quy đổi ĐVT',
+      'Nhóm',
+      'Chứng từ NCC',
+      'Chứng từ Wecare',
+      'Trạng thái chứng từ',
+      'Ghép thủ công',
+      'Trạng thái gốc',
+      'Lý do điều chỉnh',
+      'Ghi chú người duyệt'
     ];
 
     const escapeCSV = (str: string | number | null | undefined): string => {
@@ -48,19 +170,42 @@ const ReconciliationResultDisplay: React.FC<ReconciliationResultDisplayProps> =
       return `"${s}"`; // Always wrap to be safe
     };
     
+    if (statement) {
+      const statementCsv = buildStatementRows(statement, exportCurrentView ? ledgerRowsToDisplay : undefined).map(row => row.map(escapeCSV).join(',')).join('\n');
+      downloadBlob(new Blob([`\uFEFF${statementCsv}`], { type: 'text/csv;charset=utf-8;' }), 'csv');
+      return;
+    }
+
     // Export all items, not just the supplier-centric view for completeness
     const csvRows = [headers.join(',')];
-    comparedItems.forEach((item, index) => {
+    (exportRows ?? comparedItems.map((item, index) => ({ item, index }))).forEach(({ item, index }) => {
+      // Grouped rows are exported on one line with their combined quantity and average unit price.
+      const supplierItem = aggregateItems(item.supplierItems);
+      const systemItem = aggregateItems(item.systemItems);
+      const document = item.documentKey ? documentByKey.get(item.documentKey) : undefined;
       const row = [
         index + 1,
-        item.supplierItem?.name,
-        item.supplierItem?.quantity,
-        item.supplierItem?.unitPrice,
-        item.systemItem?.name,
-        item.systemItem?.quantity,
-        item.systemItem?.unitPrice,
+        supplierItem?.name,
+        supplierItem?.quantity,
+        supplierItem?.unitPrice,
+        systemItem?.name,
+        systemItem?.quantity,
+        systemItem?.unitPrice,
         item.status,
-        item.details
+        item.details,
+        item.confidence !== undefined ? `${Math.round(item.confidence * 100)}%` : '',
+        item.matchReason,
+        item.toleranceDeviation?.unitPrice,
+        item.toleranceDeviation?.totalPrice,
+        item.supplierItems.map(describeConversion).filter(Boolean).join('; '),
+        describeGroupShape(item),
+        document?.supplierDocument?.id,
+        document?.systemDocument?.id,
+        document?.status,
+        item.manuallyPaired ? 'Có' : '',
+        item.statusOverride?.originalStatus,
+        item.statusOverride?.reason,
+        item.note
       ].map(escapeCSV).join(',');
       csvRows.push(row);
     });
@@ -68,21 +213,266 @@ const ReconciliationResultDisplay: React.FC<ReconciliationResultDisplayProps> =
     const csvString = csvRows.join('\n');
     // Add BOM for Excel to recognize UTF-8 characters correctly
     const blob = new Blob([`\uFEFF${csvString}`], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, 'csv');
+  };
 
+  const downloadBlob = (blob: Blob, extension: string) => {
     const link = document.createElement('a');
     if (link.download !== undefined) {
       const url = URL.createObjectURL(blob);
       const date = new Date().toISOString().slice(0, 10);
       const sanitizedSupplierName = supplierName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
       link.setAttribute('href', url);
-      link.setAttribute('download', `doi-chieu_${sanitizedSupplierName}_${date}.csv`);
+      link.setAttribute('download', `doi-chieu_${sanitizedSupplierName}_${date}.${extension}`);
       link.style.visibility = 'hidden';
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const handleExportExcel = async () => {
+    setIsExportingExcel(true);
+    try {
+      const blob = await buildReconciliationWorkbook({
+        result,
+        supplierName,
+        supplierData,
+        systemData,
+        executionTime,
+        rows: exportRows,
+        filterDescription: exportRows ? describeFilter(filter, sort) : undefined,
+      });
+      downloadBlob(blob, 'xlsx');
+    } catch (err: any) {
+      console.error('Failed to build XLSX export:', err);
+      setActionError(`Không thể tạo tệp Excel: ${err.message || 'lỗi không xác định'}`);
+    } finally {
+      setIsExportingExcel(false);
     }
   };
   
+  const isStillProcessing = comparedItems.some(item => item.status === ComparisonStatus.PROCESSING);
+
+  const supplierDates = supplierData.map(record => record.date).filter((d): d is string => Boolean(d)).sort();
+  const supplierPeriod = { start: supplierDates[0] ?? null, end: supplierDates[supplierDates.length - 1] ?? null };
+
+  const handleSaveToDynamics = async () => {
+    if (!onSaveToDynamics) return;
+    setActionError(null);
+    setIsSaving(true);
+    try {
+      const outcome = await onSaveToDynamics();
+      if (!outcome.success) {
+        setActionError(outcome.error || 'Đã xảy ra lỗi không xác định.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleStatus = (status: ComparisonStatus) => {
+    setFilter(prev => ({
+      ...prev,
+      statuses: prev.statuses.includes(status) ? prev.statuses.filter(s => s !== status) : [...prev.statuses, status],
+    }));
+  };
+
+  /** Clicking a sorted column flips its direction; a new column starts with the largest values. */
+  const toggleSort = (key: ResultSortKey) => {
+    setSort(prev => prev.key === key ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' } : { key, direction: 'desc' });
+  };
+
+  const renderSortableHeader = (key: ResultSortKey, label: string, className: string) => (
+    <th scope="col" className={`${className} cursor-pointer select-none`} onClick={() => toggleSort(key)} title={`Sắp xếp theo ${SORT_LABELS[key]}`}>
+        {label}{sort.key === key && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+    </th>
+  );
+
+  const handleReviewSave = (changes: LineReviewChanges) => {
+    if (reviewIndex === null || !onResultChange) return;
+    try {
+      onResultChange(withReviewedItems(result, reviewLine(comparedItems, reviewIndex, changes, tolerances)));
+      setReviewIndex(null);
+    } catch (err: any) {
+      setActionError(err.message || 'Không thể cập nhật dòng đối chiếu.');
+    }
+  };
+
+  // Ledger rows have no quantity or price, so a statement only sorts by difference.
+  const sortKeys: ResultSortKey[] = statement ? ['difference'] : Object.keys(SORT_LABELS) as ResultSortKey[];
+
+  const filterBar = (
+    <div className="flex flex-wrap items-center gap-2 mb-3 flex-shrink-0 px-2 text-sm">
+        {Object.values(ComparisonStatus).filter(status => statusCounts[status]).map(status => (
+            <button
+                key={status}
+                onClick={() => toggleStatus(status)}
+                className={`px-3 py-1 text-xs font-semibold rounded-full border transition-colors ${filter.statuses.includes(status) ? `${getStatusClass(status)} border-current` : 'border-slate-300 dark:border-border text-gray-600 dark:text-muted-foreground hover:bg-slate-100 dark:hover:bg-secondary'}`}
+            >
+                {status} ({statusCounts[status]})
+            </button>
+        ))}
+        <input
+            type="search"
+            value={filter.search}
+            onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
+            placeholder={statement ? 'Tìm theo số chứng từ hoặc diễn giải...' : 'Tìm theo tên sản phẩm NCC hoặc Wecare...'}
+            className="flex-grow min-w-[200px] bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-lg focus:ring-2 focus:ring-primary focus:border-primary px-3 py-1.5"
+        />
+        <label className="flex items-center gap-2 cursor-pointer text-gray-600 dark:text-muted-foreground">
+            <input
+                type="checkbox"
+                checked={filter.onlyDiscrepancies}
+                onChange={(e) => setFilter(prev => ({ ...prev, onlyDiscrepancies: e.target.checked }))}
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            <span>Chỉ hiển thị chênh lệch</span>
+        </label>
+        <select
+            value={sort.key ?? ''}
+            onChange={(e) => setSort({ key: (e.target.value || null) as ResultSortKey | null, direction: 'desc' })}
+            className="bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-lg px-2 py-1.5"
+            aria-label="Sắp xếp"
+        >
+            <option value="">Thứ tự gốc</option>
+            {sortKeys.map(key => (
+                <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+        </select>
+        {sort.key && (
+            <button
+                onClick={() => setSort(prev => ({ ...prev, direction: prev.direction === 'asc' ? 'desc' : 'asc' }))}
+                className="px-2 py-1.5 rounded-lg border border-slate-300 dark:border-border hover:bg-slate-100 dark:hover:bg-secondary"
+                title={sort.direction === 'asc' ? 'Tăng dần' : 'Giảm dần'}
+            >
+                {sort.direction === 'asc' ? '▲' : '▼'}
+            </button>
+        )}
+        {(filterActive || sort.key) && (
+            <>
+                <button onClick={() => { setFilter(EMPTY_RESULT_FILTER); setSort({ key: null, direction: 'desc' }); }} className="text-primary hover:underline">
+                    Xóa bộ lọc
+                </button>
+                <label className="flex items-center gap-2 cursor-pointer text-gray-600 dark:text-muted-foreground" title="Xuất Excel/CSV chỉ gồm các dòng đang hiển thị, theo thứ tự hiện tại">
+                    <input
+                        type="checkbox"
+                        checked={exportFiltered}
+                        onChange={(e) => setExportFiltered(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    <span>Xuất theo bộ lọc</span>
+                </label>
+            </>
+        )}
+    </div>
+  );
+
+  const isReviewed = (item: ComparedItem) => Boolean(item.manuallyPaired || item.statusOverride || item.note);
+
+  const renderItemRow = (item: ComparedItem, index: number) => (
+    <tr key={index} className={`border-b dark:border-border ${isReviewed(item) ? 'border-l-4 border-l-orange-400' : ''}`}>
+        <td className="px-2 py-2 text-center text-gray-500 dark:text-muted-foreground font-medium">{index + 1}</td>
+
+        {/* Supplier Data */}
+        <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground bg-amber-50 dark:bg-amber-900/40 break-words">
+            <GroupLines items={item.supplierItems} render={line => line.name} />
+            {isGroupedRow(item) && (
+                <span className="mt-1 inline-block px-1.5 py-0.5 text-[10px] font-semibold rounded bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300">
+                    Nhóm {describeGroupShape(item)}
+                </span>
+            )}
+        </td>
+        <td className="px-4 py-2 text-right font-mono bg-amber-50 dark:bg-amber-900/40">
+            <GroupLines items={item.supplierItems} total={sumQuantities(item.supplierItems)} render={line => (
+                <>
+                    {line.quantity?.toLocaleString('vi-VN') ?? '-'}
+                    {line.unit && <span className="ml-1 text-[10px] font-sans text-gray-500 dark:text-muted-foreground">{line.unit}</span>}
+                    {line.conversion && (
+                        <div className="text-[10px] font-sans text-amber-700 dark:text-amber-300" title="Đã quy đổi sang đơn vị tính của Wecare">{describeConversion(line)}</div>
+                    )}
+                </>
+            )} />
+        </td>
+        <td className="px-4 py-2 text-right font-mono bg-amber-50 dark:bg-amber-900/40">
+            <GroupLines items={item.supplierItems} render={line => (
+                <>
+                    {line.unitPrice?.toLocaleString('vi-VN', { maximumFractionDigits: 2 }) ?? '-'}
+                    {line.vatRate !== undefined && (
+                        <div className="text-[10px] text-amber-700 dark:text-amber-300" title="Đơn giá đã quy về trước thuế để so sánh">VAT {line.vatRate}%</div>
+                    )}
+                </>
+            )} />
+        </td>
+
+        {/* System Data */}
+        <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground break-words bg-blue-50 dark:bg-primary/10">
+            <GroupLines items={item.systemItems} render={line => line.name} />
+        </td>
+        <td className="px-4 py-2 text-right font-mono bg-blue-50 dark:bg-primary/10">
+            <GroupLines items={item.systemItems} total={sumQuantities(item.systemItems)} render={line => (
+                <>
+                    {line.quantity?.toLocaleString('vi-VN') ?? '-'}
+                    {line.unit && <span className="ml-1 text-[10px] font-sans text-gray-500 dark:text-muted-foreground">{line.unit}</span>}
+                </>
+            )} />
+        </td>
+        <td className="px-4 py-2 text-right font-mono bg-blue-50 dark:bg-primary/10">
+            <GroupLines items={item.systemItems} render={line => line.unitPrice?.toLocaleString('vi-VN') ?? '-'} />
+        </td>
+
+        <td className="px-4 py-2">
+            <span className={`inline-flex items-center justify-center w-full px-2 py-1 text-xs font-semibold rounded-full ${getStatusClass(item.status)}`}>
+                {item.status === 'Đang xử lý' ? (
+                    <>
+                        <svg className="animate-spin -ml-1 mr-2 h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                        {item.status}
+                    </>
+                ) : (
+                    item.status
+                )}
+            </span>
+            {item.statusOverride && (
+                <div className="mt-1 text-center text-[11px] font-semibold text-orange-600 dark:text-orange-300" title={`Gốc: ${item.statusOverride.originalStatus}. Lý do: ${item.statusOverride.reason}`}>
+                    Đã điều chỉnh
+                </div>
+            )}
+            {item.manuallyPaired && (
+                <div className="mt-1 text-center text-[11px] font-semibold text-orange-600 dark:text-orange-300">Ghép thủ công</div>
+            )}
+            {item.toleranceDeviation && (
+                <div className="mt-1 text-center text-[11px] font-semibold text-teal-600 dark:text-teal-300" title={`Lệch SL ${item.toleranceDeviation.quantity}, ĐG ${item.toleranceDeviation.unitPrice}, TT ${item.toleranceDeviation.totalPrice}`}>
+                    Trong dung sai
+                </div>
+            )}
+            {item.confidence !== undefined && (
+                <div className="mt-1 text-center text-[11px] text-gray-500 dark:text-muted-foreground" title={item.matchReason}>
+                    Độ tin cậy {Math.round(item.confidence * 100)}%
+                </div>
+            )}
+        </td>
+        <td className="px-4 py-2 text-xs italic text-gray-500 dark:text-muted-foreground break-words">
+            {item.details}
+            {item.matchReason && <div className="not-italic text-gray-400 dark:text-gray-500 mt-0.5">{item.matchReason}</div>}
+            {item.statusOverride && (
+                <div className="not-italic text-orange-700 dark:text-orange-300 mt-0.5">
+                    Điều chỉnh từ "{item.statusOverride.originalStatus}": {item.statusOverride.reason}
+                </div>
+            )}
+            {item.note && <div className="not-italic text-gray-700 dark:text-foreground mt-0.5">Ghi chú: {item.note}</div>}
+            {onResultChange && item.status !== ComparisonStatus.PROCESSING && (
+                <button onClick={() => setReviewIndex(index)} disabled={isStillProcessing} className="not-italic mt-1 text-primary hover:underline disabled:opacity-50 disabled:no-underline">
+                    Duyệt
+                </button>
+            )}
+        </td>
+    </tr>
+  );
+
   return (
     <div className="absolute inset-0 bg-slate-200 dark:bg-background flex flex-col p-4 sm:p-6 lg:p-8">
         <div className="flex-shrink-0 flex justify-between items-center mb-4 bg-white dark:bg-card p-4 rounded-xl shadow-md">
@@ -93,8 +483,42 @@ const ReconciliationResultDisplay: React.FC<ReconciliationResultDisplayProps> =
                         Hoàn thành sau <strong className="font-mono">{executionTime.toFixed(2)} giây</strong>
                     </span>
                  )}
+                 {actionError && <p className="text-sm text-red-600 dark:text-red-400 mt-1">{actionError}</p>}
             </div>
             <div className="flex items-center gap-4">
+                {onSaveToDynamics && !statement && (
+                    <button
+                        onClick={handleSaveToDynamics}
+                        disabled={isSaving || isStillProcessing || Boolean(result.dynamicsRecordId)}
+                        className="flex items-center gap-2 px-5 py-2.5 bg-white dark:bg-card border border-primary text-primary font-bold rounded-lg shadow-md hover:bg-primary/10 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                        title="Tạo bản ghi đối chiếu và các dòng chi tiết trong Dynamics"
+                    >
+                        {isSaving ? <><Spinner /> <span>Đang lưu...</span></> : result.dynamicsRecordId ? 'Đã lưu vào CRM ✓' : 'Lưu kết quả'}
+                    </button>
+                )}
+                <button
+                    onClick={() => setIsConfirmationOpen(true)}
+                    disabled={isStillProcessing}
+                    className="flex items-center gap-2 px-5 py-2.5 bg-white dark:bg-card border border-slate-300 dark:border-border text-gray-800 dark:text-foreground font-bold rounded-lg shadow-md hover:bg-slate-100 dark:hover:bg-secondary disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                    title="Lập biên bản đối chiếu công nợ để in, lưu PDF hoặc tải Word"
+                >
+                    Biên bản
+                </button>
+                {!statement && (
+                <button
+                    onClick={handleExportExcel}
+                    disabled={isExportingExcel || isStillProcessing}
+                    className="flex items-center gap-2 px-5 py-2.5 bg-emerald-700 text-white font-bold rounded-lg shadow-md hover:bg-emerald-800 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                    title="Tệp Excel gồm tổng hợp, chi tiết có tô màu theo trạng thái và dữ liệu gốc hai bên"
+                >
+                    {isExportingExcel ? <Spinner /> : (
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    )}
+                    <span>Xuất Excel</span>
+                </button>
+                )}
                 <button
                     onClick={handleExportCSV}
                     className="flex items-center gap-2 px-5 py-2.5 bg-green-600 text-white font-bold rounded-lg shadow-md hover:bg-green-700 transition-colors"
@@ -118,100 +542,148 @@ const ReconciliationResultDisplay: React.FC<ReconciliationResultDisplayProps> =
             <p className="text-sm text-gray-600 dark:text-muted-foreground">{summary || "AI không cung cấp tóm tắt."}</p>
         </div>
 
-        <div className="flex-shrink-0 grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-            <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
-                <p className="text-sm text-gray-500 dark:text-muted-foreground">Tổng NCC</p>
-                <p className="text-xl font-bold text-gray-800 dark:text-foreground font-mono">{formatCurrency(totalSupplierAmount)}</p>
+        {statement ? (
+          <>
+            <div className="flex-shrink-0 grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
+                    <p className="text-sm text-gray-500 dark:text-muted-foreground">Số dư cuối kỳ theo NCC</p>
+                    <p className="text-xl font-bold text-gray-800 dark:text-foreground font-mono">{formatCurrency(totalSupplierAmount)}</p>
+                    <p className="text-xs text-gray-500 dark:text-muted-foreground mt-1">Đầu kỳ: <span className="font-mono">{formatCurrency(statement.openingBalance)}</span></p>
+                </div>
+                <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
+                    <p className="text-sm text-gray-500 dark:text-muted-foreground">Số dư cuối kỳ theo Wecare</p>
+                    <p className="text-xl font-bold text-gray-800 dark:text-foreground font-mono">{formatCurrency(totalSystemAmount)}</p>
+                    <p className="text-xs text-gray-500 dark:text-muted-foreground mt-1">Đầu kỳ: <span className={`font-mono ${statement.openingDiffers ? 'text-red-600' : ''}`}>{formatCurrency(statement.systemOpening)}</span></p>
+                </div>
+                <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
+                    <p className="text-sm text-gray-500 dark:text-muted-foreground">Chênh lệch số dư</p>
+                    <p className={`text-xl font-bold font-mono ${Math.abs(difference) < 1 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(difference)}</p>
+                </div>
             </div>
-            <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
-                <p className="text-sm text-gray-500 dark:text-muted-foreground">Tổng Wecare (đã khớp)</p>
-                <p className="text-xl font-bold text-gray-800 dark:text-foreground font-mono">{formatCurrency(totalSystemAmount)}</p>
+            <div className="flex-grow bg-white dark:bg-card rounded-xl shadow-md p-4 flex flex-col min-h-0">
+                <h3 className="text-xl font-bold text-gray-800 dark:text-foreground mb-3 flex-shrink-0 px-2">
+                    Chi Tiết Đối Chiếu Công Nợ ({filterActive ? `${ledgerRowsToDisplay.length}/${statement.rows.length}` : statement.rows.length} bút toán)
+                </h3>
+                {filterBar}
+                <div className="flex-grow overflow-y-auto">
+                    <StatementLedgerTable statement={statement} rows={ledgerRowsToDisplay} getStatusClass={getStatusClass} />
+                </div>
             </div>
-            <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
-                <p className="text-sm text-gray-500 dark:text-muted-foreground">Chênh lệch</p>
-                <p className={`text-xl font-bold font-mono ${difference === 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(difference)}</p>
+          </>
+        ) : (
+          <>
+            <div className="flex-shrink-0 grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
+                    <p className="text-sm text-gray-500 dark:text-muted-foreground">Tổng NCC (trước thuế)</p>
+                    <p className="text-xl font-bold text-gray-800 dark:text-foreground font-mono">{formatCurrency(totalSupplierAmount)}</p>
+                    <TaxBreakdownLines breakdown={taxSummary.supplier} />
+                </div>
+                <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
+                    <p className="text-sm text-gray-500 dark:text-muted-foreground">Tổng Wecare (trước thuế)</p>
+                    <p className="text-xl font-bold text-gray-800 dark:text-foreground font-mono">{formatCurrency(totalSystemAmount)}</p>
+                    <TaxBreakdownLines breakdown={taxSummary.system} />
+                    {systemOnlyAmount > 0 && (
+                        <p className="text-xs text-purple-600 dark:text-purple-300 mt-1">Trong đó chỉ có ở Wecare: <span className="font-mono">{formatCurrency(systemOnlyAmount)}</span></p>
+                    )}
+                </div>
+                <div className="bg-white dark:bg-card p-4 rounded-lg shadow">
+                    <p className="text-sm text-gray-500 dark:text-muted-foreground">Chênh lệch (trước thuế)</p>
+                    <p className={`text-xl font-bold font-mono ${Math.abs(difference) < 1 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(difference)}</p>
+                    <TaxBreakdownLines breakdown={{
+                        net: taxSummary.supplier.net - taxSummary.system.net,
+                        tax: taxSummary.supplier.tax - taxSummary.system.tax,
+                        gross: taxSummary.supplier.gross - taxSummary.system.gross,
+                    }} />
+                    <p className="text-xs text-gray-500 dark:text-muted-foreground mt-1" title="Tổng chênh lệch của các dòng chưa được xác nhận là khớp">
+                        Chưa giải trình: <span className={`font-mono ${unexplainedDifference === 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(unexplainedDifference)}</span>
+                    </p>
+                </div>
             </div>
-        </div>
         
-        <div className="flex-grow bg-white dark:bg-card rounded-xl shadow-md p-4 flex flex-col min-h-0">
-            <div className="flex justify-between items-center mb-3 flex-shrink-0 px-2">
-                <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">
-                    Chi Tiết Đối Chiếu ({itemsToDisplay.length} dòng)
-                </h3>
-                <div className="flex items-center space-x-4 text-sm text-gray-600 dark:text-muted-foreground">
-                    <div className="flex items-center">
-                        <span className="h-4 w-4 rounded-full bg-amber-400 mr-2 border border-amber-500"></span>
-                        <span>Chứng từ NCC</span>
-                    </div>
-                    <div className="flex items-center">
-                        <span className="h-4 w-4 rounded-full mr-2 border bg-primary border-primary/80"></span>
-                        <span>Data Wecare</span>
+            <div className="flex-grow bg-white dark:bg-card rounded-xl shadow-md p-4 flex flex-col min-h-0">
+                <div className="flex justify-between items-center mb-3 flex-shrink-0 px-2">
+                    <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">
+                        Chi Tiết Đối Chiếu ({filterActive ? `${itemsToDisplay.length}/${comparedItems.length}` : comparedItems.length} dòng{documents && `, ${matchedDocumentCount}/${documents.length} chứng từ khớp`})
+                    </h3>
+                    <div className="flex items-center space-x-4 text-sm text-gray-600 dark:text-muted-foreground">
+                        {documents && (
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={groupByDocument}
+                                    onChange={(e) => setGroupByDocument(e.target.checked)}
+                                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                                />
+                                <span>Nhóm theo chứng từ</span>
+                            </label>
+                        )}
+                        <div className="flex items-center">
+                            <span className="h-4 w-4 rounded-full bg-amber-400 mr-2 border border-amber-500"></span>
+                            <span>Chứng từ NCC</span>
+                        </div>
+                        <div className="flex items-center">
+                            <span className="h-4 w-4 rounded-full mr-2 border bg-primary border-primary/80"></span>
+                            <span>Data Wecare</span>
+                        </div>
                     </div>
                 </div>
-            </div>
-            <div className="flex-grow overflow-y-auto">
-                <table className="w-full text-sm text-left text-gray-600 dark:text-muted-foreground table-fixed">
-                    <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase sticky top-0 bg-gray-50 dark:bg-secondary/50 z-10">
-                        <tr>
-                            <th scope="col" className="px-2 py-3 text-center align-middle w-[4%]">STT</th>
+                {filterBar}
+                <div className="flex-grow overflow-y-auto">
+                    <table className="w-full text-sm text-left text-gray-600 dark:text-muted-foreground table-fixed">
+                        <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase sticky top-0 bg-gray-50 dark:bg-secondary/50 z-10">
+                            <tr>
+                                <th scope="col" className="px-2 py-3 text-center align-middle w-[4%]">STT</th>
                             
-                            <th scope="col" className="px-4 py-3 text-left bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[20%]">Sản phẩm</th>
-                            <th scope="col" className="px-4 py-3 text-right bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[6%]">SL</th>
-                            <th scope="col" className="px-4 py-3 text-right bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[7%]">Đơn giá</th>
+                                <th scope="col" className="px-4 py-3 text-left bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[20%]">Sản phẩm</th>
+                                {renderSortableHeader('supplierQuantity', 'SL', 'px-4 py-3 text-right bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[6%]')}
+                                {renderSortableHeader('supplierPrice', 'Đơn giá', 'px-4 py-3 text-right bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[7%]')}
                             
-                            <th scope="col" className="px-4 py-3 text-left font-semibold w-[20%] bg-primary text-primary-foreground">Sản phẩm</th>
-                            <th scope="col" className="px-4 py-3 text-right font-semibold w-[6%] bg-primary text-primary-foreground">SL</th>
-                            <th scope="col" className="px-4 py-3 text-right font-semibold w-[7%] bg-primary text-primary-foreground">Đơn giá</th>
+                                <th scope="col" className="px-4 py-3 text-left font-semibold w-[20%] bg-primary text-primary-foreground">Sản phẩm</th>
+                                {renderSortableHeader('systemQuantity', 'SL', 'px-4 py-3 text-right font-semibold w-[6%] bg-primary text-primary-foreground')}
+                                {renderSortableHeader('systemPrice', 'Đơn giá', 'px-4 py-3 text-right font-semibold w-[7%] bg-primary text-primary-foreground')}
                             
-                            <th scope="col" className="px-4 py-3 align-middle w-[8%]">Trạng thái</th>
-                            <th scope="col" className="px-4 py-3 align-middle w-[22%]">Ghi chú</th>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {itemsToDisplay.length === 0 ? (
-                            <tr>
-                                <td colSpan={9} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
-                                Không có dữ liệu để hiển thị.
-                                </td>
+                                <th scope="col" className="px-4 py-3 align-middle w-[8%]">Trạng thái</th>
+                                <th scope="col" className="px-4 py-3 align-middle w-[22%]">Ghi chú</th>
                             </tr>
-                        ) : (
-                            itemsToDisplay.map((item, index) => (
-                                <tr key={index} className="border-b dark:border-border">
-                                    <td className="px-2 py-2 text-center text-gray-500 dark:text-muted-foreground font-medium">{index + 1}</td>
-
-                                    {/* Supplier Data */}
-                                    <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground bg-amber-50 dark:bg-amber-900/40 break-words">{item.supplierItem?.name || '-'}</td>
-                                    <td className="px-4 py-2 text-right font-mono bg-amber-50 dark:bg-amber-900/40">{item.supplierItem?.quantity?.toLocaleString('vi-VN') ?? '-'}</td>
-                                    <td className="px-4 py-2 text-right font-mono bg-amber-50 dark:bg-amber-900/40">{item.supplierItem?.unitPrice?.toLocaleString('vi-VN') ?? '-'}</td>
-                                    
-                                    {/* System Data */}
-                                    <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground break-words bg-blue-50 dark:bg-primary/10">{item.systemItem?.name || '-'}</td>
-                                    <td className="px-4 py-2 text-right font-mono bg-blue-50 dark:bg-primary/10">{item.systemItem?.quantity?.toLocaleString('vi-VN') ?? '-'}</td>
-                                    <td className="px-4 py-2 text-right font-mono bg-blue-50 dark:bg-primary/10">{item.systemItem?.unitPrice?.toLocaleString('vi-VN') ?? '-'}</td>
-                                    
-                                    <td className="px-4 py-2">
-                                        <span className={`inline-flex items-center justify-center w-full px-2 py-1 text-xs font-semibold rounded-full ${getStatusClass(item.status)}`}>
-                                            {item.status === 'Đang xử lý' ? (
-                                                <>
-                                                    <svg className="animate-spin -ml-1 mr-2 h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                                    </svg>
-                                                    {item.status}
-                                                </>
-                                            ) : (
-                                                item.status
-                                            )}
-                                        </span>
+                        </thead>
+                        <tbody>
+                            {itemsToDisplay.length === 0 ? (
+                                <tr>
+                                    <td colSpan={9} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
+                                    {filterActive ? 'Không có dòng nào khớp bộ lọc.' : 'Không có dữ liệu để hiển thị.'}
                                     </td>
-                                    <td className="px-4 py-2 text-xs italic text-gray-500 dark:text-muted-foreground break-words">{item.details}</td>
                                 </tr>
-                            ))
-                        )}
-                    </tbody>
-                </table>
+                            ) : groupByDocument && documents ? (
+                                documentGroups.map(group => (
+                                    <React.Fragment key={group.key}>
+                                        <DocumentHeaderRow document={group.document} statusClass={group.document ? getStatusClass(group.document.status) : ''} />
+                                        {group.rows.map(({ item, index }) => renderItemRow(item, index))}
+                                    </React.Fragment>
+                                ))
+                            ) : (
+                                itemsToDisplay.map(({ item, index }) => renderItemRow(item, index))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
             </div>
-        </div>
+          </>
+        )}
+        <LineReviewModal
+            isOpen={reviewIndex !== null}
+            onClose={() => setReviewIndex(null)}
+            items={comparedItems}
+            index={reviewIndex}
+            onSave={handleReviewSave}
+        />
+        <DebtConfirmationModal
+            isOpen={isConfirmationOpen}
+            onClose={() => setIsConfirmationOpen(false)}
+            result={result}
+            supplierName={supplierName}
+            period={supplierPeriod}
+            onDownload={downloadBlob}
+        />
     </div>
   );
 };
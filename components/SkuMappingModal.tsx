@@ -1,28 +1,124 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import type { ProductItem } from '../types';
+import { nameSimilarity, normalizeVietnamese } from '../services/matchingService';
+import { isMappingOutcomeDone, MAPPING_OUTCOME_LABELS } from '../services/mappingService';
+import type { MappingSuggestion, MappingRowOutcome, MappingSaveResult } from '../services/mappingService';
 import Spinner from './Spinner';
 
 interface SkuMapping {
   supplierItem: ProductItem;
   systemItem: ProductItem;
+  conversionFactor?: number;
 }
 
+type SuggestionRow = MappingSuggestion & { conversionFactor?: number; outcome?: MappingRowOutcome };
+
 interface SkuMappingModalProps {
   isOpen: boolean;
   onClose: () => void;
-  mappings: SkuMapping[];
-  onSave: (mappingsToSave: SkuMapping[]) => Promise<{success: boolean, error?: string}>;
+  mappings: MappingSuggestion[];
+  /** Wecare products the user can pick from. */
+  systemItems: ProductItem[];
+  onSave: (mappingsToSave: SkuMapping[]) => Promise<MappingSaveResult>;
   supplierName: string;
 }
 
+/** Most similar names first; only the first results are rendered to keep long catalogues responsive. */
+const PICKER_RESULT_LIMIT = 50;
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.85 ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300'
+    : confidence >= 0.7 ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300'
+    : 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300';
+
+/** Searchable dropdown of Wecare products, ranked by similarity to the supplier product name. */
+const WecareItemPicker: React.FC<{
+  supplierItemName: string;
+  items: ProductItem[];
+  value: ProductItem | null;
+  onChange: (item: ProductItem) => void;
+}> = ({ supplierItemName, items, value, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const ranked = useMemo(() => {
+    if (!isOpen) return [];
+    const terms = normalizeVietnamese(search).split(' ').filter(Boolean);
+    return items
+      .filter(item => {
+        const name = normalizeVietnamese(item.name);
+        return terms.every(term => name.includes(term));
+      })
+      .map(item => ({ item, score: nameSimilarity(supplierItemName, item.name) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, PICKER_RESULT_LIMIT);
+  }, [isOpen, search, items, supplierItemName]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className={`w-full text-left px-2 py-1 rounded-md border ${value ? 'border-transparent hover:border-slate-300 dark:hover:border-border' : 'border-dashed border-red-400 text-red-600 dark:text-red-400'}`}
+      >
+        {value ? value.name : 'Chọn sản phẩm Wecare...'}
+        <span className="float-right text-gray-400">▾</span>
+      </button>
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-full min-w-[280px] bg-white dark:bg-card rounded-md shadow-lg border border-slate-200 dark:border-border">
+          <input
+            autoFocus
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Tìm sản phẩm Wecare..."
+            className="w-full bg-slate-50 dark:bg-input border-b border-slate-200 dark:border-border text-sm p-2 rounded-t-md focus:outline-none"
+          />
+          <div className="max-h-60 overflow-y-auto">
+            {ranked.length === 0 ? (
+              <div className="p-2.5 text-sm text-slate-500 dark:text-muted-foreground">Không tìm thấy sản phẩm.</div>
+            ) : ranked.map(({ item, score }, index) => (
+              <div
+                key={`${item.name}-${index}`}
+                onClick={() => { onChange(item); setIsOpen(false); setSearch(''); }}
+                className="cursor-pointer hover:bg-blue-50 dark:hover:bg-primary/20 p-2 text-sm flex justify-between gap-2"
+              >
+                <span>{item.name}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{Math.round(score * 100)}%</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const outcomeClass = (outcome: MappingRowOutcome) =>
+  outcome.status === 'failed' ? 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300'
+    : outcome.status === 'rolledBack' || outcome.status === 'duplicate' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300'
+    : 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300';
+
 const SkuMappingModal: React.FC<SkuMappingModalProps> = ({
   isOpen,
   onClose,
   mappings,
+  systemItems,
   onSave,
   supplierName,
 }) => {
-  const [currentMappings, setCurrentMappings] = useState<SkuMapping[]>([]);
+  const [currentMappings, setCurrentMappings] = useState<SuggestionRow[]>([]);
   const [isSavingSingle, setIsSavingSingle] = useState<number | null>(null);
   const [isSavingAll, setIsSavingAll] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -35,33 +131,61 @@ const SkuMappingModal: React.FC<SkuMappingModalProps> = ({
     }
   }, [isOpen, mappings]);
 
+  const pickableItems = useMemo(() => {
+    const byName = new Map<string, ProductItem>();
+    systemItems.forEach(item => {
+      const key = normalizeVietnamese(item.name);
+      if (key && !byName.has(key)) byName.set(key, item);
+    });
+    return [...byName.values()];
+  }, [systemItems]);
+
   if (!isOpen) {
     return null;
   }
 
-  const handleSaveOne = async (mapping: SkuMapping, index: number) => {
+  const isComplete = (row: SuggestionRow): row is SuggestionRow & { systemItem: ProductItem } => row.systemItem !== null;
+  const isReady = (row: SuggestionRow): row is SuggestionRow & { systemItem: ProductItem } => isComplete(row) && !isMappingOutcomeDone(row.outcome);
+  const readyMappings = currentMappings.filter(isReady);
+
+  // Outcomes come back in the order the rows were sent; a save that failed before reaching
+  // the server has none, so the error is only shown below the table.
+  const applyOutcomes = (indexes: number[], result: MappingSaveResult) => {
+    if (!result.outcomes) return;
+    const byIndex = new Map<number, MappingRowOutcome>(indexes.map((rowIndex, i) => [rowIndex, result.outcomes![i]]));
+    setCurrentMappings(prev => prev.map((m, i) => (byIndex.has(i) ? { ...m, outcome: byIndex.get(i) } : m)));
+  };
+
+  const handlePick = (index: number, systemItem: ProductItem) => {
+    setCurrentMappings(prev => prev.map((m, i) => i === index ? { ...m, systemItem, confidence: null, reason: 'Chọn thủ công', outcome: undefined } : m));
+  };
+
+  const handleFactorChange = (index: number, value: string) => {
+    const factor = parseFloat(value);
+    setCurrentMappings(prev => prev.map((m, i) => i === index ? { ...m, conversionFactor: factor > 0 ? factor : undefined, outcome: undefined } : m));
+  };
+
+  const handleSaveOne = async (mapping: SuggestionRow, index: number) => {
+    if (!isReady(mapping)) return;
     setError(null);
     setIsSavingSingle(index);
     const result = await onSave([mapping]);
-    if (result.success) {
-      setCurrentMappings(prev => prev.filter((_, i) => i !== index));
-    } else {
+    applyOutcomes([index], result);
+    if (!result.success) {
         setError(result.error || 'Đã xảy ra lỗi không xác định.');
     }
     setIsSavingSingle(null);
   };
 
   const handleSaveAll = async () => {
-    if (currentMappings.length === 0) return;
+    if (readyMappings.length === 0) return;
     setError(null);
     setIsSavingAll(true);
     try {
-      const result = await onSave(currentMappings);
-      if (result.success) {
-        // Clear the list and perhaps close the modal after a short delay
-        setCurrentMappings([]);
-        setTimeout(onClose, 1000); // Close after 1s to show the empty state
-      } else {
+      const indexes = currentMappings.map((row, index) => (isReady(row) ? index : -1)).filter(index => index >= 0);
+      const result = await onSave(readyMappings);
+      applyOutcomes(indexes, result);
+      if (!result.success) {
           setError(result.error || 'Đã xảy ra lỗi không xác định.');
       }
     } finally {
@@ -80,37 +204,75 @@ const SkuMappingModal: React.FC<SkuMappingModalProps> = ({
         </div>
         <div className="p-4 overflow-y-auto flex-grow">
           <p className="text-sm text-gray-600 dark:text-muted-foreground mb-4">
-            Danh sách các sản phẩm khớp về <strong className="font-semibold">Số lượng</strong> và <strong className="font-semibold">Đơn giá</strong> giữa chứng từ NCC và dữ liệu Wecare. Bấm Lưu để tạo liên kết cho các lần đối chiếu sau.
+            Sản phẩm NCC chưa có mapping, kèm sản phẩm Wecare gợi ý theo <strong className="font-semibold">độ giống tên</strong>, <strong className="font-semibold">Số lượng</strong> và <strong className="font-semibold">Đơn giá</strong>. Kiểm tra gợi ý có độ tin cậy thấp, chọn lại sản phẩm Wecare nếu cần, rồi bấm Lưu để tạo liên kết cho các lần đối chiếu sau. Nếu NCC và Wecare dùng đơn vị tính khác nhau, nhập số đơn vị Wecare trong một đơn vị NCC ở cột <strong className="font-semibold">Quy đổi</strong>.
           </p>
           <div className="border dark:border-border rounded-lg">
             <table className="w-full text-sm text-left text-gray-600 dark:text-muted-foreground">
               <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase bg-gray-100 dark:bg-secondary/80 sticky top-0">
                 <tr>
-                  <th scope="col" className="px-4 py-3 w-2/5">Sản phẩm (NCC)</th>
-                  <th scope="col" className="px-4 py-3 w-2/5">Sản phẩm (Wecare)</th>
+                  <th scope="col" className="px-4 py-3 w-1/3">Sản phẩm (NCC)</th>
+                  <th scope="col" className="px-4 py-3 w-1/3">Sản phẩm (Wecare)</th>
+                  <th scope="col" className="px-4 py-3 text-center">Độ tin cậy</th>
                   <th scope="col" className="px-4 py-3 text-right">Số lượng</th>
                   <th scope="col" className="px-4 py-3 text-right">Đơn giá</th>
+                  <th scope="col" className="px-4 py-3 text-center">Quy đổi</th>
                   <th scope="col" className="px-4 py-3 text-center">Lưu</th>
                 </tr>
               </thead>
               <tbody>
                 {currentMappings.length === 0 ? (
                   <tr>
-                    <td colSpan={5} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
-                      {mappings.length > 0 ? 'Tất cả các mapping đã được lưu.' : 'Không tìm thấy sản phẩm nào khớp.'}
+                    <td colSpan={7} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
+                      Không có sản phẩm nào cần mapping.
                     </td>
                   </tr>
                 ) : (
                   currentMappings.map((item, index) => (
                     <tr key={`${item.supplierItem.name}-${index}`} className="border-b dark:border-border last:border-b-0 hover:bg-gray-50 dark:hover:bg-secondary/60">
                       <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground">{item.supplierItem.name}</td>
-                      <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground">{item.systemItem.name}</td>
+                      <td className="px-4 py-2 font-medium text-gray-900 dark:text-foreground">
+                        <WecareItemPicker
+                          supplierItemName={item.supplierItem.name}
+                          items={pickableItems}
+                          value={item.systemItem}
+                          onChange={(systemItem) => handlePick(index, systemItem)}
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-center" title={item.reason}>
+                        {item.confidence !== null ? (
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${confidenceClass(item.confidence)}`}>{Math.round(item.confidence * 100)}%</span>
+                        ) : (
+                          <span className="text-xs italic text-gray-500 dark:text-muted-foreground">{item.systemItem ? 'Thủ công' : '-'}</span>
+                        )}
+                      </td>
                       <td className="px-4 py-2 text-right font-mono">{item.supplierItem.quantity.toLocaleString('vi-VN')}</td>
                       <td className="px-4 py-2 text-right font-mono">{item.supplierItem.unitPrice.toLocaleString('vi-VN')}</td>
+                      <td className="px-4 py-2 text-center whitespace-nowrap">
+                        <span className="text-xs">1 {item.supplierItem.unit || 'ĐV NCC'} =</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={item.conversionFactor ?? 1}
+                          onChange={(e) => handleFactorChange(index, e.target.value)}
+                          className="mx-1 w-16 bg-slate-50 dark:bg-input border border-slate-300 dark:border-border rounded p-1 text-right font-mono text-sm"
+                          aria-label="Hệ số quy đổi"
+                        />
+                        <span className="text-xs">{item.systemItem?.unit || 'ĐV Wecare'}</span>
+                      </td>
                       <td className="px-4 py-2 text-center">
+                        {item.outcome && (
+                          <span
+                            className={`block mb-1 px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${outcomeClass(item.outcome)}`}
+                            title={item.outcome.error}
+                          >
+                            {MAPPING_OUTCOME_LABELS[item.outcome.status]}
+                          </span>
+                        )}
+                        {!isMappingOutcomeDone(item.outcome) && (
                         <button
                           onClick={() => handleSaveOne(item, index)}
-                          disabled={isSavingAll || isSavingSingle !== null}
+                          disabled={isSavingAll || isSavingSingle !== null || !item.systemItem}
                           className="text-green-600 hover:text-green-800 disabled:text-gray-400 dark:disabled:text-gray-600 p-1 rounded-full hover:bg-green-100 dark:hover:bg-green-900/50"
                           aria-label="Lưu mapping này"
                         >
@@ -120,6 +282,7 @@ const SkuMappingModal: React.FC<SkuMappingModalProps> = ({
                             </svg>
                           )}
                         </button>
+                        )}
                       </td>
                     </tr>
                   ))
@@ -137,10 +300,10 @@ const SkuMappingModal: React.FC<SkuMappingModalProps> = ({
           </button>
           <button 
             onClick={handleSaveAll} 
-            disabled={isSavingAll || isSavingSingle !== null || currentMappings.length === 0}
+            disabled={isSavingAll || isSavingSingle !== null || readyMappings.length === 0}
             className="flex items-center justify-center min-w-[120px] px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
           >
-            {isSavingAll ? <><Spinner /> <span className="ml-2">Đang lưu...</span></> : `Lưu tất cả (${currentMappings.length})`}
+            {isSavingAll ? <><Spinner /> <span className="ml-2">Đang lưu...</span></> : `Lưu tất cả (${readyMappings.length})`}
           </button>
         </div>
       </div>
@@ -0,0 +1,97 @@
+import React from 'react';
+import type { ReconciliationRecord, StatementReconciliation } from '../types';
+import { LEDGER_KIND_LABELS, signedAmount } from '../services/statementService';
+import type { IndexedLedgerRow } from '../services/resultFilterService';
+
+interface StatementLedgerTableProps {
+  statement: StatementReconciliation;
+  getStatusClass: (status: string) => string;
+  /** Rows to show, in this order; every row of the statement when omitted. */
+  rows?: IndexedLedgerRow[];
+}
+
+const formatAmount = (value: number) => value.toLocaleString('vi-VN', { maximumFractionDigits: 0 });
+
+const EntryCell: React.FC<{ entry?: ReconciliationRecord }> = ({ entry }) => entry ? (
+  <>
+    <div className="font-medium text-gray-900 dark:text-foreground">{entry.id || <span className="italic text-gray-400">Không số</span>}</div>
+    <div className="text-xs text-gray-500 dark:text-muted-foreground">{entry.date ?? '—'} · {entry.description}</div>
+  </>
+) : <>-</>;
+
+/** Both ledgers side by side, one row per paired entry, with the running balance of each. */
+const StatementLedgerTable: React.FC<StatementLedgerTableProps> = ({ statement, getStatusClass, rows = statement.rows.map((row, index) => ({ row, index })) }) => {
+  const { divergenceIndex, openingBalance, systemOpening, openingDiffers } = statement;
+  return (
+    <table className="w-full text-sm text-left text-gray-600 dark:text-muted-foreground table-fixed">
+      <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase sticky top-0 bg-gray-50 dark:bg-secondary/50 z-10">
+        <tr>
+          <th scope="col" className="px-2 py-3 text-center w-[4%]">STT</th>
+          <th scope="col" className="px-4 py-3 w-[9%]">Loại</th>
+          <th scope="col" className="px-4 py-3 bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[18%]">Chứng từ NCC</th>
+          <th scope="col" className="px-4 py-3 text-right bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[9%]">Số tiền</th>
+          <th scope="col" className="px-4 py-3 text-right bg-amber-200 dark:bg-amber-900/60 text-amber-900 dark:text-amber-300 font-semibold w-[10%]">Số dư</th>
+          <th scope="col" className="px-4 py-3 bg-primary text-primary-foreground font-semibold w-[18%]">Chứng từ Wecare</th>
+          <th scope="col" className="px-4 py-3 text-right bg-primary text-primary-foreground font-semibold w-[9%]">Số tiền</th>
+          <th scope="col" className="px-4 py-3 text-right bg-primary text-primary-foreground font-semibold w-[10%]">Số dư</th>
+          <th scope="col" className="px-4 py-3 w-[13%]">Trạng thái / Ghi chú</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr
+          className={`border-b dark:border-border bg-slate-100 dark:bg-secondary/70 text-xs font-semibold ${openingDiffers ? 'border-l-4 border-l-red-500' : ''}`}
+          title={openingDiffers ? 'Số dư hai bên đã lệch ngay từ đầu kỳ' : undefined}
+        >
+          <td colSpan={4} className="px-4 py-2">{LEDGER_KIND_LABELS.opening}</td>
+          <td className="px-4 py-2 text-right font-mono">{formatAmount(openingBalance)}</td>
+          <td colSpan={2}></td>
+          <td className={`px-4 py-2 text-right font-mono ${openingDiffers ? 'text-red-600 dark:text-red-400' : ''}`}>{formatAmount(systemOpening)}</td>
+          <td></td>
+        </tr>
+        {rows.length === 0 ? (
+          <tr>
+            <td colSpan={9} className="text-center py-10 text-gray-500 dark:text-muted-foreground">
+              {statement.rows.length > 0 ? 'Không có bút toán nào khớp bộ lọc.' : 'Không có bút toán để hiển thị.'}
+            </td>
+          </tr>
+        ) : rows.map(({ row, index }) => {
+          const diverged = Math.abs(row.supplierBalance - row.systemBalance) >= 1;
+          return (
+            <tr
+              key={index}
+              className={`border-b dark:border-border ${index === divergenceIndex ? 'border-l-4 border-l-red-500' : ''}`}
+              title={index === divergenceIndex ? 'Số dư hai bên bắt đầu lệch từ bút toán này' : undefined}
+            >
+              <td className="px-2 py-2 text-center text-gray-500 dark:text-muted-foreground font-medium">{index + 1}</td>
+              <td className="px-4 py-2">{LEDGER_KIND_LABELS[row.kind]}</td>
+              <td className="px-4 py-2 bg-amber-50 dark:bg-amber-900/40 break-words"><EntryCell entry={row.supplierEntry} /></td>
+              <td className="px-4 py-2 text-right font-mono bg-amber-50 dark:bg-amber-900/40">{row.supplierEntry ? formatAmount(signedAmount(row.supplierEntry)) : '-'}</td>
+              <td className="px-4 py-2 text-right font-mono bg-amber-50 dark:bg-amber-900/40">{formatAmount(row.supplierBalance)}</td>
+              <td className="px-4 py-2 break-words"><EntryCell entry={row.systemEntry} /></td>
+              <td className="px-4 py-2 text-right font-mono">{row.systemEntry ? formatAmount(signedAmount(row.systemEntry)) : '-'}</td>
+              <td className={`px-4 py-2 text-right font-mono ${diverged ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>{formatAmount(row.systemBalance)}</td>
+              <td className="px-4 py-2">
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusClass(row.status)}`}>{row.status}</span>
+                {row.details && <p className="mt-1 text-xs">{row.details}</p>}
+              </td>
+            </tr>
+          );
+        })}
+        <tr className="bg-slate-100 dark:bg-secondary/70 text-xs font-semibold">
+          <td colSpan={4} className="px-4 py-2">
+            {LEDGER_KIND_LABELS.closing}
+            {statement.printedClosing !== undefined && (
+              <span className="ml-2 font-normal">(in trên bảng kê: <span className="font-mono">{formatAmount(statement.printedClosing)}</span>)</span>
+            )}
+          </td>
+          <td className="px-4 py-2 text-right font-mono">{formatAmount(statement.supplierClosing)}</td>
+          <td colSpan={2}></td>
+          <td className="px-4 py-2 text-right font-mono">{formatAmount(statement.systemClosing)}</td>
+          <td></td>
+        </tr>
+      </tbody>
+    </table>
+  );
+};
+
+export default StatementLedgerTable;
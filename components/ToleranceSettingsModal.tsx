@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import type { ToleranceSettings } from '../types';
+import { DEFAULT_TOLERANCES } from '../services/toleranceService';
+
+interface ToleranceSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: ToleranceSettings;
+  onSave: (settings: ToleranceSettings) => void;
+  supplierName: string;
+}
+
+const FIELDS: { key: keyof ToleranceSettings; label: string; hint: string; step: string }[] = [
+  { key: 'priceAbsolute', label: 'Đơn giá lệch tối đa (VNĐ)', hint: 'Ví dụ 1 để bỏ qua làm tròn đơn giá.', step: '0.01' },
+  { key: 'pricePercent', label: 'Đơn giá lệch tối đa (%)', hint: 'Áp dụng mức lớn hơn giữa VNĐ và %.', step: '0.01' },
+  { key: 'quantityDecimals', label: 'Làm tròn số lượng (chữ số thập phân)', hint: 'Số lượng được so sánh sau khi làm tròn.', step: '1' },
+  { key: 'lineTotalAbsolute', label: 'Thành tiền lệch tối đa (VNĐ)', hint: 'Chênh lệch thành tiền của một dòng.', step: '1' },
+];
+
+const ToleranceSettingsModal: React.FC<ToleranceSettingsModalProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  onSave,
+  supplierName,
+}) => {
+  const [draft, setDraft] = useState<ToleranceSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const isValid = FIELDS.every(({ key }) => isFinite(draft[key]) && draft[key] >= 0);
+
+  const handleSave = () => {
+    onSave({ ...draft, quantityDecimals: Math.round(draft.quantityDecimals) });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-card rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b dark:border-border flex-shrink-0">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-foreground">
+            Dung sai đối chiếu: <span className="text-primary">{supplierName}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl font-bold leading-none" aria-label="Đóng">&times;</button>
+        </div>
+        <div className="p-6 overflow-y-auto flex-grow space-y-4">
+          <p className="text-sm text-gray-600 dark:text-muted-foreground">
+            Một cặp sản phẩm được coi là <strong className="font-semibold">Khớp</strong> khi số lượng, đơn giá và thành tiền đều nằm trong các dung sai dưới đây.
+          </p>
+          {FIELDS.map(({ key, label, hint, step }) => (
+            <div key={key}>
+              <label htmlFor={`tolerance-${key}`} className="text-sm font-medium text-gray-700 dark:text-muted-foreground">{label}</label>
+              <input
+                id={`tolerance-${key}`}
+                type="number"
+                min="0"
+                step={step}
+                value={draft[key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+                className="mt-1 block w-full bg-slate-50 dark:bg-input border border-slate-300 dark:border-border text-slate-900 dark:text-foreground text-sm rounded-lg focus:ring-2 focus:ring-primary focus:border-primary p-2"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-muted-foreground">{hint}</p>
+            </div>
+          ))}
+        </div>
+        <div className="p-4 border-t dark:border-border flex-shrink-0 flex justify-end items-center gap-4">
+          <button onClick={() => setDraft(DEFAULT_TOLERANCES)} className="mr-auto text-sm text-gray-500 dark:text-muted-foreground hover:underline">
+            Khôi phục mặc định
+          </button>
+          <button onClick={onClose} className="px-4 py-2 bg-slate-200 text-slate-800 dark:bg-secondary dark:text-secondary-foreground font-semibold rounded-lg hover:bg-slate-300 dark:hover:bg-secondary/80 transition-colors">
+            Hủy
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="px-4 py-2 bg-primary text-primary-foreground font-semibold rounded-lg shadow-md hover:bg-accent-hover disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Lưu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ToleranceSettingsModal;
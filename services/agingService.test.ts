@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { ReconciliationRecord, Supplier } from '../types';
+import { buildSupplierAging, bucketForAge, buildAgingRows } from './agingService';
+
+const supplier: Supplier = { id: 'ncc-1', name: 'Công ty TNHH Hòa Phát' };
+
+const purchase = (id: string, date: string, amount: number): ReconciliationRecord =>
+    ({ id, date, description: `Chứng từ ${id}`, amount });
+
+const payment = (id: string, date: string, amount: number): ReconciliationRecord =>
+    ({ id, date, description: `Thanh toán ${id}`, amount, ledgerKind: 'payment' });
+
+describe('bucketForAge', () => {
+    it('puts each age in the first bucket that holds it', () => {
+        expect([0, 30, 31, 60, 61, 90, 91, 400].map(bucketForAge)).toEqual(['0-30', '0-30', '31-60', '31-60', '61-90', '61-90', '90+', '90+']);
+    });
+});
+
+describe('buildSupplierAging', () => {
+    it('settles payments against the oldest purchases first and ages what is left', () => {
+        const aging = buildSupplierAging(
+            supplier,
+            [purchase('HD3', '2025-09-20', 200_000), purchase('HD1', '2025-06-01', 1_000_000), purchase('HD2', '2025-08-15', 500_000)],
+            [payment('UNC01', '2025-09-01', 1_300_000)],
+            '2025-09-30',
+            0,
+        );
+        expect(aging.documents.map(document => [document.id, document.openAmount, document.ageDays, document.bucket])).toEqual([
+            ['HD2', 200_000, 46, '31-60'],
+            ['HD3', 200_000, 10, '0-30'],
+        ]);
+        expect(aging.buckets).toEqual({ '0-30': 200_000, '31-60': 200_000, '61-90': 0, '90+': 0 });
+        expect(aging.total).toBe(400_000);
+        expect(aging.unappliedCredit).toBe(0);
+    });
+
+    it('ages purchases including VAT and ignores entries after the report date', () => {
+        const aging = buildSupplierAging(
+            supplier,
+            [purchase('HD1', '2025-05-01', 1_000_000), purchase('HD2', '2025-10-05', 500_000)],
+            [payment('UNC01', '2025-10-02', 1_100_000)],
+            '2025-09-30',
+            10,
+        );
+        expect(aging.documents).toHaveLength(1);
+        expect(aging.documents[0]).toMatchObject({ id: 'HD1', bucket: '90+' });
+        expect(aging.total).toBeCloseTo(1_100_000);
+    });
+
+    it('keeps what payments leave over once every purchase is settled as unapplied credit', () => {
+        const aging = buildSupplierAging(
+            supplier,
+            [purchase('HD1', '2025-09-01', 1_000_000)],
+            [payment('UNC01', '2025-09-10', 1_250_000)],
+            '2025-09-30',
+            0,
+        );
+        expect(aging.documents).toEqual([]);
+        expect(aging.total).toBe(0);
+        expect(aging.unappliedCredit).toBe(250_000);
+        expect(buildAgingRows([aging])[1]).toEqual([supplier.name, '', '', '', '', 0, 0, 0, 0, 0, 250_000]);
+    });
+});
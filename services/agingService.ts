@@ -0,0 +1,119 @@
+import type { ReconciliationRecord, Supplier } from '../types';
+import { buildSystemLedger } from './statementService';
+
+/**
+ * Payable aging: what Wecare still owes each supplier and how long it has been owed.
+ * Payments and returns settle the oldest purchases first, and what is left of each purchase
+ * is bucketed by its age on the report date.
+ */
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+/** Buckets in display order, with the oldest age in days each one holds. */
+export const AGING_BUCKETS: { key: AgingBucket; label: string; maxDays: number }[] = [
+    { key: '0-30', label: '0–30 ngày', maxDays: 30 },
+    { key: '31-60', label: '31–60 ngày', maxDays: 60 },
+    { key: '61-90', label: '61–90 ngày', maxDays: 90 },
+    { key: '90+', label: 'Trên 90 ngày', maxDays: Infinity },
+];
+
+/** A purchase that is not fully paid on the report date. */
+export interface AgingDocument {
+    id: string;
+    date?: string;
+    description: string;
+    /** Purchase amount including VAT. */
+    amount: number;
+    /** Part of the amount still unpaid. */
+    openAmount: number;
+    ageDays: number;
+    bucket: AgingBucket;
+}
+
+export interface SupplierAging {
+    supplierId: string;
+    supplierName: string;
+    buckets: Record<AgingBucket, number>;
+    /** Open amount across all buckets. */
+    total: number;
+    /** Payments and returns left over once every purchase is settled, i.e. paid in advance. */
+    unappliedCredit: number;
+    /** Open purchases, oldest first. */
+    documents: AgingDocument[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const bucketForAge = (ageDays: number): AgingBucket =>
+    AGING_BUCKETS.find(bucket => ageDays <= bucket.maxDays)!.key;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+/**
+ * Ages one supplier's payables on `asOf` (YYYY-MM-DD). Purchases are Wecare's pre-tax
+ * documents, brought to amounts including VAT like the statement ledger; entries dated
+ * after `asOf` are ignored.
+ */
+export const buildSupplierAging = (
+    supplier: Supplier,
+    purchases: ReconciliationRecord[],
+    payments: ReconciliationRecord[],
+    asOf: string,
+    vatPercent: number
+): SupplierAging => {
+    const asOfTime = new Date(asOf).getTime();
+    const ledger = buildSystemLedger(purchases, payments, vatPercent).filter(entry => !entry.date || entry.date <= asOf);
+    const open = ledger
+        .filter(entry => entry.ledgerKind === 'purchase')
+        .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? ''))
+        .map(entry => ({ entry, openAmount: entry.amount }));
+
+    let credit = ledger
+        .filter(entry => entry.ledgerKind !== 'purchase')
+        .reduce((sum, entry) => sum + entry.amount, 0);
+    for (const item of open) {
+        if (credit <= 0) break;
+        const settled = Math.min(credit, item.openAmount);
+        item.openAmount -= settled;
+        credit -= settled;
+    }
+
+    const buckets = emptyBuckets();
+    const documents: AgingDocument[] = open
+        // Amounts left below one đồng are rounding from the VAT, not a debt.
+        .filter(item => item.openAmount >= 1)
+        .map(({ entry, openAmount }) => {
+            const dateTime = entry.date ? new Date(entry.date).getTime() : NaN;
+            const ageDays = isNaN(dateTime) ? 0 : Math.max(0, Math.floor((asOfTime - dateTime) / DAY_MS));
+            const bucket = bucketForAge(ageDays);
+            buckets[bucket] += openAmount;
+            return { id: entry.id, date: entry.date, description: entry.description, amount: entry.amount, openAmount, ageDays, bucket };
+        });
+
+    return {
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        buckets,
+        total: documents.reduce((sum, document) => sum + document.openAmount, 0),
+        unappliedCredit: credit,
+        documents,
+    };
+};
+
+/** Header and rows of the aging report for the CSV export: one summary row per supplier, then its open documents. */
+export const buildAgingRows = (agings: SupplierAging[]): (string | number | undefined)[][] => [
+    ['Nhà cung cấp', 'Chứng từ', 'Ngày', 'Số ngày', 'Giá trị chứng từ', 'Còn nợ', ...AGING_BUCKETS.map(bucket => bucket.label), 'Trả trước'],
+    ...agings.flatMap(aging => [
+        [aging.supplierName, '', '', '', '', aging.total, ...AGING_BUCKETS.map(bucket => aging.buckets[bucket.key]), aging.unappliedCredit || ''],
+        ...aging.documents.map(document => [
+            aging.supplierName,
+            document.id || document.description,
+            document.date,
+            document.ageDays,
+            document.amount,
+            document.openAmount,
+            ...AGING_BUCKETS.map(bucket => (bucket.key === document.bucket ? document.openAmount : '')),
+            '',
+        ]),
+    ]),
+];
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { runWithConcurrency } from './batchService';
+
+describe('runWithConcurrency', () => {
+    it('runs every item despite a failure, then rejects with the first failure', async () => {
+        const done: number[] = [];
+        let running = 0;
+        let mostRunning = 0;
+        const run = runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+            running++;
+            mostRunning = Math.max(mostRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            running--;
+            if (item === 2) throw new Error('Lỗi NCC 2');
+            done.push(item);
+        });
+        await expect(run).rejects.toThrow('Lỗi NCC 2');
+        expect(done.sort()).toEqual([1, 3, 4, 5]);
+        expect(mostRunning).toBe(2);
+    });
+});
@@ -0,0 +1,168 @@
+import type { Supplier, ReconciliationResult } from '../types';
+import { normalizeVietnamese, nameSimilarity } from './matchingService';
+
+/**
+ * Month-end batch reconciliation: a folder of supplier files is assigned to suppliers,
+ * then each supplier is read, fetched and reconciled in a queue that runs a few at a time.
+ */
+
+/** Default number of suppliers processed at the same time; each one calls the AI and Dataverse. */
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+/** Suggestions scoring below this are not pre-selected; the user picks the supplier instead. */
+const SUGGESTION_THRESHOLD = 0.5;
+
+/** Words of company forms and document titles that say nothing about which supplier a file is from. */
+const NOISE_WORDS = new Set([
+    'cong', 'ty', 'cty', 'tnhh', 'mtv', 'co', 'phan', 'cp', 'jsc', 'ltd', 'thuong', 'mai', 'tm', 'dich', 'vu', 'dv',
+    'san', 'xuat', 'sx', 'nhap', 'khau', 'xnk', 'dau', 'tu', 'ky', 'thuat', 'va', 'hang',
+    'bang', 'ke', 'doi', 'chieu', 'no', 'hoa', 'don', 'thang', 'nam', 'ban', 'sao', 'ncc', 'final', 'copy',
+]);
+
+const significantTokens = (text: string): string[] =>
+    normalizeVietnamese(text).split(' ').filter(token => token && !NOISE_WORDS.has(token) && !/^\d+(\.\d+)?$/.test(token));
+
+export interface SupplierSuggestion {
+    supplierId: string;
+    /** From 0 to 1. */
+    confidence: number;
+}
+
+/**
+ * Guesses the supplier of a file from its name and, for files dropped as a folder, the
+ * folders it sits in. A supplier scores by how many of its distinctive words the path
+ * contains; the name similarity of the two breaks ties.
+ */
+export const suggestSupplierForFile = (path: string, suppliers: Supplier[]): SupplierSuggestion | null => {
+    const pathText = path.replace(/\.[a-z0-9]+$/i, '').replace(/[\\/_\-.]+/g, ' ');
+    const pathTokens = new Set(significantTokens(pathText));
+    const compactPath = [...pathTokens].join('');
+    if (pathTokens.size === 0) return null;
+
+    let best: SupplierSuggestion | null = null;
+    let bestSimilarity = -1;
+    for (const supplier of suppliers) {
+        const tokens = significantTokens(supplier.name);
+        if (tokens.length === 0) continue;
+        const contained = tokens.filter(token => pathTokens.has(token)).length / tokens.length;
+        // Names written without spaces in the file name, e.g. "HoaPhat_T09.xlsx".
+        const compact = compactPath.includes(tokens.join('')) ? 1 : 0;
+        const confidence = Math.max(contained, compact);
+        const similarity = nameSimilarity(pathText, supplier.name);
+        if (!best || confidence > best.confidence || (confidence === best.confidence && similarity > bestSimilarity)) {
+            best = { supplierId: supplier.id, confidence };
+            bestSimilarity = similarity;
+        }
+    }
+    return best && best.confidence >= SUGGESTION_THRESHOLD ? best : null;
+};
+
+/** Path of a file relative to the dropped folder, or its name when it was picked on its own. */
+export const getFilePath = (file: File): string => (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+
+/** File types the supplier data panel accepts; anything else in a dropped folder is left out. */
+export const isBatchFileSupported = (file: File): boolean =>
+    /\.(xlsx|csv|pdf)$/i.test(file.name) || file.type.startsWith('image/');
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        // Keep the folder path, so the folder a file sits in can name its supplier.
+        const path = entry.fullPath.replace(/^\//, '');
+        return [path === file.name ? file : Object.defineProperty(file, 'webkitRelativePath', { value: path })];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // A directory reader returns its entries in chunks until it returns an empty one.
+    for (;;) {
+        const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (chunk.length === 0) break;
+        children.push(...chunk);
+    }
+    return (await Promise.all(children.map(readEntryFiles))).flat();
+};
+
+/** Files dropped on the page, walking into dropped folders where the browser allows it. */
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    const files = entries.length > 0
+        ? (await Promise.all(entries.map(readEntryFiles))).flat()
+        : Array.from(dataTransfer.files);
+    return files.filter(isBatchFileSupported);
+};
+
+export type BatchStage = 'queued' | 'extracting' | 'fetching' | 'reconciling' | 'done' | 'error';
+
+export const BATCH_STAGE_LABELS: Record<BatchStage, string> = {
+    queued: 'Đang chờ',
+    extracting: 'Đang đọc tệp',
+    fetching: 'Đang tải dữ liệu Wecare',
+    reconciling: 'Đang đối chiếu',
+    done: 'Hoàn tất',
+    error: 'Lỗi',
+};
+
+/** A file of the batch and the supplier it is assigned to. */
+export interface BatchFile {
+    file: File;
+    path: string;
+    supplierId: string | null;
+    suggestion: SupplierSuggestion | null;
+}
+
+/** All files of one supplier, reconciled together as one run. */
+export interface BatchJob {
+    supplierId: string;
+    supplierName: string;
+    files: File[];
+    stage: BatchStage;
+    result?: ReconciliationResult;
+    /** History session the run was saved as, to open it in the main view. */
+    sessionId?: string;
+    /** Files that could not be read while the others were; the run goes on without them. */
+    warnings?: string[];
+    error?: string;
+}
+
+export const assignBatchFiles = (files: File[], suppliers: Supplier[]): BatchFile[] =>
+    files.map(file => {
+        const path = getFilePath(file);
+        const suggestion = suggestSupplierForFile(path, suppliers);
+        return { file, path, supplierId: suggestion?.supplierId ?? null, suggestion };
+    });
+
+export const buildBatchJobs = (files: BatchFile[], suppliers: Supplier[]): BatchJob[] => {
+    const jobs = new Map<string, BatchJob>();
+    files.forEach(({ file, supplierId }) => {
+        const supplier = supplierId ? suppliers.find(s => s.id === supplierId) : undefined;
+        if (!supplier) return;
+        const job = jobs.get(supplier.id) ?? { supplierId: supplier.id, supplierName: supplier.name, files: [], stage: 'queued' };
+        job.files.push(file);
+        jobs.set(supplier.id, job);
+    });
+    return [...jobs.values()].sort((a, b) => a.supplierName.localeCompare(b.supplierName, 'vi'));
+};
+
+/**
+ * Runs `worker` over the items with at most `concurrency` running at once. A failing worker
+ * does not stop the others; once every item has run, the first failure is rethrown.
+ */
+export const runWithConcurrency = async <T>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<void>): Promise<void> => {
+    let next = 0;
+    const failures: unknown[] = [];
+    const lane = async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                await worker(items[index], index);
+            } catch (e) {
+                failures.push(e);
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+    if (failures.length > 0) throw failures[0];
+};
@@ -0,0 +1,169 @@
+import type { ReconciliationResult } from '../types';
+import { ComparisonStatus } from '../types';
+import { aggregateItems, sumTotals } from './groupService';
+
+const STORAGE_KEY = 'debtConfirmationSettings';
+
+/** Placeholders available in the template, with what they are replaced by. */
+export const CONFIRMATION_PLACEHOLDERS: Record<string, string> = {
+    companyName: 'Tên công ty bên mua (Wecare)',
+    companyRepresentative: 'Đại diện bên mua',
+    supplierName: 'Tên nhà cung cấp',
+    supplierRepresentative: 'Đại diện nhà cung cấp',
+    periodStart: 'Ngày đầu kỳ',
+    periodEnd: 'Ngày cuối kỳ',
+    openingBalance: 'Số dư đầu kỳ',
+    supplierTotal: 'Phát sinh theo NCC',
+    systemTotal: 'Phát sinh theo Wecare',
+    matchedTotal: 'Giá trị đã khớp',
+    difference: 'Chênh lệch',
+    closingBalance: 'Số dư cuối kỳ',
+    discrepancyRows: 'Các dòng <tr> chênh lệch',
+    notes: 'Ghi chú',
+    today: 'Ngày lập biên bản',
+};
+
+export const DEFAULT_CONFIRMATION_TEMPLATE = `<div style="font-family: 'Times New Roman', serif; font-size: 13pt; line-height: 1.5; max-width: 800px; margin: 0 auto;">
+  <p style="text-align: center; font-weight: bold; margin: 0;">CỘNG HÒA XÃ HỘI CHỦ NGHĨA VIỆT NAM</p>
+  <p style="text-align: center; margin: 0;"><u>Độc lập - Tự do - Hạnh phúc</u></p>
+  <h2 style="text-align: center; margin-top: 24px;">BIÊN BẢN ĐỐI CHIẾU CÔNG NỢ</h2>
+  <p style="text-align: center; font-style: italic;">Từ ngày {{periodStart}} đến ngày {{periodEnd}}</p>
+  <p>Hôm nay, ngày {{today}}, chúng tôi gồm:</p>
+  <p><b>Bên A (Bên mua): {{companyName}}</b><br/>Đại diện: {{companyRepresentative}}</p>
+  <p><b>Bên B (Bên bán): {{supplierName}}</b><br/>Đại diện: {{supplierRepresentative}}</p>
+  <p>Cùng nhau đối chiếu công nợ phải trả trong kỳ như sau:</p>
+  <table style="width: 100%; border-collapse: collapse;" border="1" cellpadding="6">
+    <tr><td>1. Số dư đầu kỳ</td><td style="text-align: right;">{{openingBalance}}</td></tr>
+    <tr><td>2. Phát sinh trong kỳ theo Bên B</td><td style="text-align: right;">{{supplierTotal}}</td></tr>
+    <tr><td>3. Phát sinh trong kỳ theo Bên A</td><td style="text-align: right;">{{systemTotal}}</td></tr>
+    <tr><td>4. Giá trị hai bên đã khớp</td><td style="text-align: right;">{{matchedTotal}}</td></tr>
+    <tr><td>5. Chênh lệch (2 - 3)</td><td style="text-align: right;">{{difference}}</td></tr>
+    <tr><td><b>6. Số dư cuối kỳ Bên A còn phải trả Bên B</b></td><td style="text-align: right;"><b>{{closingBalance}}</b></td></tr>
+  </table>
+  <p style="margin-top: 16px;"><b>Chi tiết các khoản chênh lệch:</b></p>
+  <table style="width: 100%; border-collapse: collapse; font-size: 11pt;" border="1" cellpadding="4">
+    <tr style="font-weight: bold; text-align: center;"><td>STT</td><td>Hàng hóa theo Bên B</td><td>Hàng hóa theo Bên A</td><td>Số tiền Bên B</td><td>Số tiền Bên A</td><td>Chênh lệch</td><td>Ghi chú</td></tr>
+    {{discrepancyRows}}
+  </table>
+  <p>{{notes}}</p>
+  <p>Biên bản được lập thành 02 bản, mỗi bên giữ 01 bản có giá trị pháp lý như nhau.</p>
+  <table style="width: 100%; margin-top: 24px; text-align: center;">
+    <tr>
+      <td style="width: 50%;"><b>ĐẠI DIỆN BÊN A</b><br/><i>(Ký, ghi rõ họ tên, đóng dấu)</i><br/><br/><br/><br/>{{companyRepresentative}}</td>
+      <td style="width: 50%;"><b>ĐẠI DIỆN BÊN B</b><br/><i>(Ký, ghi rõ họ tên, đóng dấu)</i><br/><br/><br/><br/>{{supplierRepresentative}}</td>
+    </tr>
+  </table>
+</div>`;
+
+export interface ConfirmationSettings {
+    template: string;
+    companyName: string;
+    companyRepresentative: string;
+}
+
+export const DEFAULT_CONFIRMATION_SETTINGS: ConfirmationSettings = {
+    template: DEFAULT_CONFIRMATION_TEMPLATE,
+    companyName: 'Công ty Wecare',
+    companyRepresentative: '',
+};
+
+export const loadConfirmationSettings = (): ConfirmationSettings => {
+    try {
+        return { ...DEFAULT_CONFIRMATION_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+    } catch (e) {
+        return DEFAULT_CONFIRMATION_SETTINGS;
+    }
+};
+
+export const saveConfirmationSettings = (settings: ConfirmationSettings): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Values typed in for a single document; balances are not known to the tool. */
+export interface ConfirmationInput {
+    supplierName: string;
+    supplierRepresentative: string;
+    periodStart: string | null;
+    periodEnd: string | null;
+    openingBalance: number | null;
+    closingBalance: number | null;
+    notes: string;
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatMoney = (value: number | null) =>
+    value === null ? '....................' : `${value.toLocaleString('vi-VN', { maximumFractionDigits: 0 })} đ`;
+
+const formatDate = (date: string | null) =>
+    date ? new Date(date + 'T00:00:00Z').toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric' }) : '....../....../......';
+
+const buildDiscrepancyRows = (result: ReconciliationResult): string => {
+    const rows = result.comparedItems.filter(item => item.status !== ComparisonStatus.MATCHED);
+    if (rows.length === 0) {
+        return '<tr><td colspan="7" style="text-align: center;">Không có chênh lệch.</td></tr>';
+    }
+    return rows.map((item, index) => {
+        const supplierItem = aggregateItems(item.supplierItems);
+        const systemItem = aggregateItems(item.systemItems);
+        const supplierAmount = supplierItem?.totalPrice ?? 0;
+        const systemAmount = systemItem?.totalPrice ?? 0;
+        const note = [[item.status, item.details].filter(Boolean).join(': '), item.note].filter(Boolean).join('. ');
+        return `<tr><td style="text-align: center;">${index + 1}</td><td>${escapeHtml(supplierItem?.name ?? '-')}</td><td>${escapeHtml(systemItem?.name ?? '-')}</td>`
+            + `<td style="text-align: right;">${formatMoney(supplierAmount)}</td><td style="text-align: right;">${formatMoney(systemAmount)}</td>`
+            + `<td style="text-align: right;">${formatMoney(supplierAmount - systemAmount)}</td><td>${escapeHtml(note)}</td></tr>`;
+    }).join('\n    ');
+};
+
+/**
+ * Fills the template's {{placeholders}}. Typed-in values are HTML-escaped; unknown
+ * placeholders are left as they are so a typo in the template stays visible.
+ */
+export const renderConfirmation = (settings: ConfirmationSettings, input: ConfirmationInput, result: ReconciliationResult): string => {
+    const matchedTotal = result.comparedItems
+        .filter(item => item.status === ComparisonStatus.MATCHED)
+        .reduce((sum, item) => sum + sumTotals(item.supplierItems), 0);
+    const values: Record<string, string> = {
+        companyName: escapeHtml(settings.companyName),
+        companyRepresentative: escapeHtml(settings.companyRepresentative),
+        supplierName: escapeHtml(input.supplierName),
+        supplierRepresentative: escapeHtml(input.supplierRepresentative),
+        periodStart: formatDate(input.periodStart),
+        periodEnd: formatDate(input.periodEnd),
+        openingBalance: formatMoney(input.openingBalance),
+        supplierTotal: formatMoney(result.totalSupplierAmount),
+        systemTotal: formatMoney(result.totalSystemAmount),
+        matchedTotal: formatMoney(matchedTotal),
+        difference: formatMoney(result.difference),
+        closingBalance: formatMoney(input.closingBalance),
+        discrepancyRows: buildDiscrepancyRows(result),
+        notes: escapeHtml(input.notes).replace(/\n/g, '<br/>'),
+        today: new Date().toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric' }),
+    };
+    return settings.template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+};
+
+const wrapDocument = (body: string, title: string) =>
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>`
+    + `<style>@page { size: A4; margin: 20mm; } body { margin: 0; }</style></head><body>${body}</body></html>`;
+
+/** Opens the document in a new window and starts the browser's print dialog, where it can be saved as PDF. */
+export const printConfirmation = (html: string, title: string): boolean => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+    printWindow.document.open();
+    printWindow.document.write(wrapDocument(html, title));
+    printWindow.document.close();
+    printWindow.focus();
+    // Give the new window a moment to lay out before printing.
+    setTimeout(() => printWindow.print(), 300);
+    return true;
+};
+
+/** A Word-readable .doc file: HTML with the Office namespaces, which Word opens and can save as DOCX. */
+export const buildConfirmationDoc = (html: string, title: string): Blob => {
+    const doc = wrapDocument(html, title)
+        .replace('<html>', '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">');
+    return new Blob(['\uFEFF', doc], { type: 'application/msword' });
+};
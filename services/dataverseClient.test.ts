@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server, IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fetchAllPages } from './dataverseClient';
+import type { PageProgress } from './dataverseClient';
+
+/**
+ * A local OData endpoint serving `/rows` in pages of the size the client asks for with
+ * `Prefer: odata.maxpagesize`, linked by `@odata.nextLink` like Dataverse does.
+ */
+const TOTAL_ROWS = 23;
+let server: Server;
+let baseUrl: string;
+let requests: { url: string; headers: IncomingHttpHeaders }[];
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        requests.push({ url: req.url ?? '', headers: req.headers });
+        const url = new URL(req.url ?? '/', baseUrl);
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        switch (url.pathname) {
+            case '/rows': {
+                const pageSize = Number(/odata\.maxpagesize=(\d+)/.exec(String(req.headers.prefer))?.[1] ?? TOTAL_ROWS);
+                const skip = Number(url.searchParams.get('skip') ?? 0);
+                const value = Array.from({ length: Math.min(pageSize, TOTAL_ROWS - skip) }, (_, i) => ({ id: skip + i }));
+                const next = skip + pageSize < TOTAL_ROWS ? `${baseUrl}/rows?skip=${skip + pageSize}` : undefined;
+                send(200, next ? { value, '@odata.nextLink': next } : { value });
+                return;
+            }
+            case '/failing-second-page':
+                if (url.searchParams.has('page')) {
+                    send(500, { error: { message: 'Server busy' } });
+                } else {
+                    send(200, { value: [{ id: 0 }], '@odata.nextLink': `${baseUrl}/failing-second-page?page=2` });
+                }
+                return;
+            case '/unauthorized':
+                send(401, {});
+                return;
+            case '/no-value':
+                send(200, { items: [] });
+                return;
+            case '/value-not-array':
+                send(200, { value: { id: 1 } });
+                return;
+            default:
+                send(404, { error: { message: 'Not found' } });
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+    requests = [];
+});
+
+describe('fetchAllPages', () => {
+    it('follows @odata.nextLink until every record is read', async () => {
+        const records = await fetchAllPages<{ id: number }>(`${baseUrl}/rows`, 'token', { pageSize: 10 });
+        expect(records.map(r => r.id)).toEqual(Array.from({ length: TOTAL_ROWS }, (_, i) => i));
+        expect(requests.map(r => r.url)).toEqual(['/rows', '/rows?skip=10', '/rows?skip=20']);
+    });
+
+    it('sends the page size preference and the token on every page request', async () => {
+        await fetchAllPages(`${baseUrl}/rows`, 'secret', { pageSize: 10 });
+        expect(requests).toHaveLength(3);
+        requests.forEach(({ headers }) => {
+            expect(headers.prefer).toBe('odata.maxpagesize=10');
+            expect(headers.authorization).toBe('Bearer secret');
+        });
+    });
+
+    it('asks for the Dataverse maximum page size by default', async () => {
+        const records = await fetchAllPages(`${baseUrl}/rows`, 'token');
+        expect(records).toHaveLength(TOTAL_ROWS);
+        expect(requests[0].headers.prefer).toBe('odata.maxpagesize=5000');
+    });
+
+    it('reports progress after each page', async () => {
+        const progress: PageProgress[] = [];
+        await fetchAllPages(`${baseUrl}/rows`, 'token', { pageSize: 10, onProgress: p => progress.push(p) });
+        expect(progress).toEqual([
+            { records: 10, pages: 1 },
+            { records: 20, pages: 2 },
+            { records: 23, pages: 3 },
+        ]);
+    });
+
+    it('prefixes the server error message of a failing page', async () => {
+        await expect(fetchAllPages(`${baseUrl}/failing-second-page`, 'token', { errorPrefix: 'Lỗi tải dữ liệu hệ thống' }))
+            .rejects.toThrow('Lỗi tải dữ liệu hệ thống: Server busy');
+    });
+
+    it('throws the bare message when no prefix is given', async () => {
+        await expect(fetchAllPages(`${baseUrl}/failing-second-page`, 'token')).rejects.toThrow(/^Server busy$/);
+    });
+
+    it('explains an expired token', async () => {
+        await expect(fetchAllPages(`${baseUrl}/unauthorized`, 'token', { errorPrefix: 'Lỗi khi tải danh sách NCC' }))
+            .rejects.toThrow(/^Lỗi khi tải danh sách NCC: Lỗi xác thực \(401\)/);
+    });
+
+    it('rejects a response without a value array', async () => {
+        await expect(fetchAllPages(`${baseUrl}/no-value`, 'token', { errorPrefix: 'Lỗi' }))
+            .rejects.toThrow('Lỗi: Dữ liệu trả về không đúng định dạng.');
+        await expect(fetchAllPages(`${baseUrl}/value-not-array`, 'token'))
+            .rejects.toThrow(/^Dữ liệu trả về không đúng định dạng\.$/);
+    });
+});
@@ -0,0 +1,217 @@
+import { DYNAMICS_API_BASE_URL } from '../constants';
+
+/**
+ * Shared access to the Dataverse Web API. Collection reads go through `fetchAllPages`,
+ * which follows `@odata.nextLink` until the server has returned every record, so a long
+ * purchase history or mapping list is never cut off at the first page. Single writes go
+ * through `executeRequest`; writes that must land together go through `executeChangeset`.
+ */
+
+/** Records per page requested with `Prefer: odata.maxpagesize`; 5000 is the Dataverse maximum. */
+export const DATAVERSE_PAGE_SIZE = 5000;
+
+export interface PageProgress {
+    /** Records received so far, across all pages. */
+    records: number;
+    pages: number;
+}
+
+export interface FetchAllPagesOptions {
+    pageSize?: number;
+    /** Prepended to the error thrown when a page fails, e.g. 'Lỗi khi tải danh sách NCC'. */
+    errorPrefix?: string;
+    /** Called after each page, for loading indicators. */
+    onProgress?: (progress: PageProgress) => void;
+}
+
+/** Absolute Web API URL for an entity set path such as `crdfd_suppliers?$select=...`. */
+export const dataverseUrl = (path: string): string => `${DYNAMICS_API_BASE_URL}/api/data/v9.2/${path}`;
+
+export const getApiErrorMessage = async (response: Response): Promise<string> => {
+    if (response.status === 401) {
+        return 'Lỗi xác thực (401). Token của bạn có thể đã hết hạn. Vui lòng làm mới trang và thử lại.';
+    }
+    try {
+        const body = await response.json();
+        const message = body?.error?.message;
+        if (typeof message === 'string') {
+            return message;
+        }
+    } catch (e) {
+        // Response body is not JSON or is malformed, ignore and use statusText.
+    }
+    return response.statusText || `Request failed with status ${response.status}`;
+};
+
+/**
+ * Reads every record of a collection query. The page size preference is sent on every
+ * request because the server does not carry it over into `@odata.nextLink`.
+ */
+export const fetchAllPages = async <T = any>(url: string, token: string, options: FetchAllPagesOptions = {}): Promise<T[]> => {
+    const { pageSize = DATAVERSE_PAGE_SIZE, errorPrefix, onProgress } = options;
+    const records: T[] = [];
+    let pages = 0;
+    let nextUrl: string | undefined = url;
+
+    while (nextUrl) {
+        const response = await fetch(nextUrl, {
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Prefer': `odata.maxpagesize=${pageSize}`,
+            },
+        });
+        if (!response.ok) {
+            const message = await getApiErrorMessage(response);
+            throw new Error(errorPrefix ? `${errorPrefix}: ${message}` : message);
+        }
+        const result = await response.json();
+        if (!Array.isArray(result.value)) {
+            throw new Error(errorPrefix ? `${errorPrefix}: Dữ liệu trả về không đúng định dạng.` : 'Dữ liệu trả về không đúng định dạng.');
+        }
+        records.push(...result.value);
+        pages += 1;
+        onProgress?.({ records: records.length, pages });
+        nextUrl = result['@odata.nextLink'];
+    }
+    return records;
+};
+
+/** Dataverse refuses changesets with more operations than this. */
+export const CHANGESET_LIMIT = 1000;
+
+export interface ChangesetRequest {
+    method: 'POST' | 'PATCH' | 'DELETE';
+    /** Entity path relative to the Web API root, e.g. `crdfd_mapping_sku_2025s(<id>)`. */
+    path: string;
+    body?: unknown;
+}
+
+export interface ChangesetResult {
+    /** True when every operation succeeded and the changeset was committed. */
+    committed: boolean;
+    /** Error of each request, by position; only failed requests have one. */
+    errors: (string | undefined)[];
+    /** Set when the server reported a failure it did not attribute to a request. */
+    error?: string;
+}
+
+const CRLF = '\r\n';
+
+const buildChangesetBody = (requests: ChangesetRequest[], batchBoundary: string, changesetBoundary: string): string => {
+    const parts = requests.map((request, index) => [
+        `--${changesetBoundary}`,
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        `Content-ID: ${index + 1}`,
+        '',
+        `${request.method} ${dataverseUrl(request.path)} HTTP/1.1`,
+        'Content-Type: application/json',
+        '',
+        request.body === undefined ? '' : JSON.stringify(request.body),
+    ].join(CRLF));
+    return [
+        `--${batchBoundary}`,
+        `Content-Type: multipart/mixed; boundary=${changesetBoundary}`,
+        '',
+        ...parts,
+        `--${changesetBoundary}--`,
+        '',
+        `--${batchBoundary}--`,
+        '',
+    ].join(CRLF);
+};
+
+interface BatchPartResponse {
+    contentId: number | null;
+    status: number;
+    error?: string;
+}
+
+/** Status, Content-ID and error message of every HTTP response inside a multipart batch response. */
+const parseBatchResponse = (text: string): BatchPartResponse[] =>
+    text
+        .split(/^--.*$/m)
+        .map((part): BatchPartResponse | null => {
+            const statusMatch = /^HTTP\/1\.1 (\d{3})/m.exec(part);
+            if (!statusMatch) return null;
+            const contentIdMatch = /^Content-ID:\s*(\d+)/mi.exec(part);
+            const status = Number(statusMatch[1]);
+            let error: string | undefined;
+            if (status >= 400) {
+                const json = part.slice(part.indexOf('{'), part.lastIndexOf('}') + 1);
+                try {
+                    error = JSON.parse(json)?.error?.message;
+                } catch (e) {
+                    // No JSON error body, fall back to the status line.
+                }
+                error = error || /^HTTP\/1\.1 \d{3} (.*)$/m.exec(part)?.[1]?.trim() || `Request failed with status ${status}`;
+            }
+            return { contentId: contentIdMatch ? Number(contentIdMatch[1]) : null, status, error };
+        })
+        .filter((response): response is BatchPartResponse => response !== null);
+
+/** Sends a single write request. Throws the server's error message when it is refused. */
+export const executeRequest = async (token: string, request: ChangesetRequest): Promise<void> => {
+    const response = await fetch(dataverseUrl(request.path), {
+        method: request.method,
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            'OData-MaxVersion': '4.0',
+            'OData-Version': '4.0',
+        },
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    });
+    if (!response.ok) throw new Error(await getApiErrorMessage(response));
+};
+
+/**
+ * Sends the requests as one `$batch` changeset, which Dataverse commits or rolls back as a
+ * whole. Throws on transport errors; a rejected changeset is reported in the result.
+ */
+export const executeChangeset = async (token: string, requests: ChangesetRequest[]): Promise<ChangesetResult> => {
+    if (requests.length === 0) return { committed: true, errors: [] };
+    if (requests.length > CHANGESET_LIMIT) {
+        throw new Error(`Chỉ có thể lưu tối đa ${CHANGESET_LIMIT} bản ghi trong một lần (đang có ${requests.length}).`);
+    }
+
+    const id = Date.now().toString(36) + Math.random().toString(36).slice(2);
+    const batchBoundary = `batch_${id}`;
+    const changesetBoundary = `changeset_${id}`;
+    const response = await fetch(dataverseUrl('$batch'), {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': `multipart/mixed; boundary=${batchBoundary}`,
+            'Accept': 'application/json',
+            'OData-MaxVersion': '4.0',
+            'OData-Version': '4.0',
+        },
+        body: buildChangesetBody(requests, batchBoundary, changesetBoundary),
+    });
+
+    if (!(response.headers.get('Content-Type') ?? '').includes('multipart/mixed')) {
+        if (!response.ok) throw new Error(await getApiErrorMessage(response));
+        throw new Error('Phản hồi $batch không đúng định dạng.');
+    }
+
+    const responses = parseBatchResponse(await response.text());
+    const errors: (string | undefined)[] = requests.map(() => undefined);
+    let unattributed: string | undefined;
+    responses.forEach(({ contentId, error }) => {
+        if (!error) return;
+        if (contentId !== null && contentId >= 1 && contentId <= requests.length) {
+            errors[contentId - 1] = error;
+        } else {
+            unattributed = error;
+        }
+    });
+    const committed = !unattributed
+        && errors.every(error => error === undefined)
+        && responses.filter(r => r.status < 400).length === requests.length;
+    if (!committed && !unattributed && errors.every(error => error === undefined)) {
+        unattributed = 'Máy chủ không xác nhận đủ các thao tác trong changeset.';
+    }
+    return { committed, errors, error: unattributed };
+};
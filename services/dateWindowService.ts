@@ -0,0 +1,68 @@
+import type { DateWindowSettings, SystemDateField } from '../types';
+
+const STORAGE_KEY = 'dateWindowSettings';
+
+export const DEFAULT_DATE_WINDOW: DateWindowSettings = {
+    bufferDays: 10,
+    dateField: 'accountingDate',
+};
+
+export const DATE_FIELD_LABELS: Record<SystemDateField, string> = {
+    accountingDate: 'Ngày hạch toán',
+    createdOn: 'Ngày tạo',
+};
+
+export const loadDateWindowSettings = (supplierId: string): DateWindowSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return { ...DEFAULT_DATE_WINDOW, ...(stored[supplierId] ?? {}) };
+    } catch (e) {
+        return DEFAULT_DATE_WINDOW;
+    }
+};
+
+export const saveDateWindowSettings = (supplierId: string, settings: DateWindowSettings): void => {
+    let stored: Record<string, DateWindowSettings> = {};
+    try {
+        stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (e) {
+        // Corrupted storage is overwritten below.
+    }
+    stored[supplierId] = settings;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const shiftDate = (date: string, days: number): string => {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().split('T')[0];
+};
+
+/**
+ * The dates Wecare lines are fetched for: the supplier period widened by the buffer on
+ * both sides. A range without an end (sessions saved before ranges existed) covers its start only.
+ */
+export const getSystemDataWindow = (
+    range: { start: string | null; end: string | null },
+    settings: DateWindowSettings
+): { start: string; end: string } | null => {
+    if (!range.start) return null;
+    const end = range.end && range.end >= range.start ? range.end : range.start;
+    const buffer = Math.max(0, Math.floor(settings.bufferDays) || 0);
+    return { start: shiftDate(range.start, -buffer), end: shiftDate(end, buffer) };
+};
+
+/**
+ * OData filter selecting purchase lines inside the window; without a start, everything up to
+ * its end. On the accounting date, lines that have none fall back to their creation date, as
+ * they do when the lines are read.
+ */
+export const buildSystemDateFilter = (window: { start?: string; end: string }, dateField: SystemDateField): string => {
+    const between = (field: string) => [
+        window.start ? `${field} ge ${window.start}T00:00:00Z` : '',
+        `${field} le ${window.end}T23:59:59Z`,
+    ].filter(Boolean).join(' and ');
+    return dateField === 'accountingDate'
+        ? `((${between('cr44a_ngayhachtoan')}) or (cr44a_ngayhachtoan eq null and ${between('createdon')}))`
+        : `(${between('createdon')})`;
+};
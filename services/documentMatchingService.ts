@@ -0,0 +1,199 @@
+import type { ProductItem, ComparedItem, DocumentComparison, DocumentRef, ToleranceSettings } from '../types';
+import { ComparisonStatus } from '../types';
+import { matchItems } from './matchingService';
+import type { MatchOptions, MatchResult } from './matchingService';
+import { sumTotals } from './groupService';
+import { DEFAULT_TOLERANCES } from './toleranceService';
+
+/** A document's lines, already on the basis and in the units used for comparison. */
+export interface DocumentLines {
+    /** Invoice or receipt number; empty when the lines carry none. */
+    id: string;
+    date?: string;
+    items: ProductItem[];
+}
+
+export interface DocumentPair {
+    key: string;
+    supplier?: DocumentLines;
+    system?: DocumentLines;
+    matchedBy?: 'number' | 'dateAmount';
+}
+
+/** How far apart two documents' dates may be to still be treated as the same delivery. */
+const DATE_WINDOW_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "hd-00123" and "HD 00123" both become "HD00123". */
+export const normalizeDocumentNumber = (id: string): string => id.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/** Last run of digits without leading zeros: "HD-000123" and "0000123" both give "123". */
+const documentSerial = (id: string): string => {
+    const groups = id.match(/\d+/g);
+    return groups ? groups[groups.length - 1].replace(/^0+/, '') : '';
+};
+
+const daysBetween = (a?: string, b?: string): number => {
+    if (!a || !b) return Infinity;
+    const diff = Math.abs(new Date(a).getTime() - new Date(b).getTime());
+    return isNaN(diff) ? Infinity : diff / DAY_MS;
+};
+
+const isWithinDateWindow = (a?: string, b?: string) => daysBetween(a, b) <= DATE_WINDOW_DAYS;
+
+/**
+ * Pairs supplier documents with Wecare documents before any line is compared.
+ *
+ * Documents are paired by number first: an exact match after normalization, then the
+ * same serial ("HD-000123" vs "123") when the dates are close. Documents left over are
+ * paired by date and pre-tax total, which catches suppliers whose numbering differs
+ * from the invoice number booked in Wecare. Unpaired documents on either side are
+ * returned as one-sided pairs.
+ */
+export const matchDocuments = (
+    supplierDocs: DocumentLines[],
+    systemDocs: DocumentLines[],
+    tolerances: ToleranceSettings = DEFAULT_TOLERANCES
+): DocumentPair[] => {
+    const partners = new Map<number, { systemIndex: number; matchedBy: 'number' | 'dateAmount' }>();
+    const usedSystem = new Set<number>();
+
+    const pairWhere = (predicate: (supplier: DocumentLines, system: DocumentLines) => boolean, matchedBy: 'number' | 'dateAmount') => {
+        supplierDocs.forEach((supplier, supplierIndex) => {
+            if (partners.has(supplierIndex)) return;
+            const systemIndex = systemDocs.findIndex((system, index) => !usedSystem.has(index) && predicate(supplier, system));
+            if (systemIndex === -1) return;
+            partners.set(supplierIndex, { systemIndex, matchedBy });
+            usedSystem.add(systemIndex);
+        });
+    };
+
+    pairWhere((supplier, system) => {
+        const number = normalizeDocumentNumber(supplier.id);
+        return number !== '' && number === normalizeDocumentNumber(system.id);
+    }, 'number');
+
+    pairWhere((supplier, system) => {
+        const serial = documentSerial(supplier.id);
+        return serial.length >= 3
+            && serial === documentSerial(system.id)
+            && (!supplier.date || !system.date || isWithinDateWindow(supplier.date, system.date));
+    }, 'number');
+
+    pairWhere((supplier, system) =>
+        isWithinDateWindow(supplier.date, system.date)
+        && Math.abs(sumTotals(supplier.items) - sumTotals(system.items)) <= tolerances.lineTotalAbsolute,
+    'dateAmount');
+
+    const pairs: DocumentPair[] = supplierDocs.map((supplier, supplierIndex) => {
+        const partner = partners.get(supplierIndex);
+        return {
+            key: `ncc-${supplierIndex}`,
+            supplier,
+            system: partner ? systemDocs[partner.systemIndex] : undefined,
+            matchedBy: partner?.matchedBy,
+        };
+    });
+    systemDocs.forEach((system, systemIndex) => {
+        if (!usedSystem.has(systemIndex)) pairs.push({ key: `wecare-${systemIndex}`, system });
+    });
+    return pairs;
+};
+
+/**
+ * Matches lines inside each paired document, then matches whatever is left across all
+ * documents, since a line is sometimes booked under another receipt. Rows settled
+ * inside a document carry its key.
+ */
+export const matchWithinDocuments = (pairs: DocumentPair[], options: MatchOptions = {}): MatchResult => {
+    const settledItems: ComparedItem[] = [];
+    const leftoverSupplier: ProductItem[] = [];
+    const leftoverSystem: ProductItem[] = [];
+
+    pairs.forEach(pair => {
+        if (pair.supplier && pair.system) {
+            const result = matchItems(pair.supplier.items, pair.system.items, { ...options, settleMappedMissing: false });
+            settledItems.push(...result.settledItems.map(item => ({ ...item, documentKey: pair.key })));
+            leftoverSupplier.push(...result.unmatchedSupplierItems);
+            leftoverSystem.push(...result.unmatchedSystemItems);
+        } else {
+            leftoverSupplier.push(...(pair.supplier?.items ?? []));
+            leftoverSystem.push(...(pair.system?.items ?? []));
+        }
+    });
+
+    const crossResult = matchItems(leftoverSupplier, leftoverSystem, options);
+    return {
+        settledItems: [...settledItems, ...crossResult.settledItems],
+        unmatchedSupplierItems: crossResult.unmatchedSupplierItems,
+        unmatchedSystemItems: crossResult.unmatchedSystemItems,
+    };
+};
+
+const itemKey = (item: ProductItem) => `${item.name.trim().toLowerCase()}|${item.quantity}|${item.unitPrice}`;
+
+const toRef = (doc: DocumentLines): DocumentRef => ({
+    id: doc.id,
+    date: doc.date,
+    amount: sumTotals(doc.items),
+    lineCount: doc.items.length,
+});
+
+/**
+ * Tags every row with the document it belongs to and derives a status per document.
+ * Rows are attributed through the supplier line they cover, or the Wecare line for
+ * 'Chỉ có ở Wecare' rows. AI results carry copies of the lines, so those are looked up
+ * by name, quantity and unit price.
+ */
+export const summarizeDocuments = (
+    pairs: DocumentPair[],
+    comparedItems: ComparedItem[],
+    tolerances: ToleranceSettings = DEFAULT_TOLERANCES
+): { comparedItems: ComparedItem[]; documents: DocumentComparison[] } => {
+    const byIdentity = new Map<ProductItem, string>();
+    const byKey = new Map<string, string>();
+    pairs.forEach(pair => {
+        [...(pair.supplier?.items ?? []), ...(pair.system?.items ?? [])].forEach(item => {
+            byIdentity.set(item, pair.key);
+            if (!byKey.has(itemKey(item))) byKey.set(itemKey(item), pair.key);
+        });
+    });
+    const lookup = (item: ProductItem | undefined) => item && (byIdentity.get(item) ?? byKey.get(itemKey(item)));
+
+    const taggedItems = comparedItems.map(item => ({
+        ...item,
+        documentKey: item.documentKey ?? lookup(item.supplierItems[0]) ?? lookup(item.systemItems[0]),
+    }));
+
+    const documents = pairs.map((pair): DocumentComparison => {
+        const rows = taggedItems.filter(item => item.documentKey === pair.key);
+        const openRows = rows.filter(item => item.status !== ComparisonStatus.MATCHED).length;
+        const base = {
+            key: pair.key,
+            supplierDocument: pair.supplier && toRef(pair.supplier),
+            systemDocument: pair.system && toRef(pair.system),
+            matchedBy: pair.matchedBy,
+        };
+
+        if (!pair.system) {
+            return { ...base, status: ComparisonStatus.SUPPLIER_ONLY, details: 'Không tìm thấy chứng từ Wecare tương ứng.' };
+        }
+        if (!pair.supplier) {
+            return { ...base, status: ComparisonStatus.SYSTEM_ONLY, details: 'Chứng từ Wecare không có trong bảng kê NCC.' };
+        }
+
+        const difference = sumTotals(pair.supplier.items) - sumTotals(pair.system.items);
+        const problems: string[] = [];
+        if (Math.abs(difference) > tolerances.lineTotalAbsolute) {
+            problems.push(`Tổng chứng từ lệch ${difference.toLocaleString('vi-VN', { maximumFractionDigits: 0 })} VNĐ.`);
+        }
+        if (openRows > 0) problems.push(`${openRows} dòng hàng chưa khớp.`);
+        return {
+            ...base,
+            status: problems.length === 0 ? ComparisonStatus.MATCHED : ComparisonStatus.DISCREPANCY,
+            details: problems.join(' '),
+        };
+    });
+
+    return { comparedItems: taggedItems, documents };
+};
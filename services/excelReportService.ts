@@ -0,0 +1,224 @@
+import { Workbook } from 'exceljs';
+import type { Worksheet } from 'exceljs';
+import type { ReconciliationResult, ReconciliationRecord, DocumentComparison } from '../types';
+import { ComparisonStatus } from '../types';
+import { aggregateItems, sumTotals, describeGroupShape } from './groupService';
+import { summarizeTax } from './taxService';
+import { describeConversion } from './unitService';
+import type { IndexedItem } from './resultFilterService';
+
+const VND_FORMAT = '#,##0 "₫"';
+const QUANTITY_FORMAT = '#,##0.##';
+const HEADER_FILL = 'FF1E3A8A';
+
+/** Row fills per status, matching the badge colors of the result table. */
+const STATUS_FILLS: Record<string, string> = {
+    [ComparisonStatus.MATCHED]: 'FFDCFCE7',
+    [ComparisonStatus.DISCREPANCY]: 'FFFEF9C3',
+    [ComparisonStatus.SUPPLIER_ONLY]: 'FFDBEAFE',
+    [ComparisonStatus.SYSTEM_ONLY]: 'FFF3E8FF',
+    [ComparisonStatus.PROCESSING]: 'FFE5E7EB',
+};
+
+export interface ReportInput {
+    result: ReconciliationResult;
+    supplierName: string;
+    supplierData: ReconciliationRecord[];
+    systemData: ReconciliationRecord[];
+    executionTime?: number | null;
+    /** Rows of a filtered view; when set, only these go into the detail sheet. */
+    rows?: IndexedItem[];
+    /** Describes that filter on the summary sheet. */
+    filterDescription?: string;
+}
+
+const formatDate = (date: string) => new Date(date + 'T00:00:00Z').toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+/** "01/03/2025 – 31/03/2025" from the records' dates, or '-' when none carry a date. */
+const describeDateWindow = (records: ReconciliationRecord[]): string => {
+    const dates = records.map(r => r.date).filter((d): d is string => Boolean(d)).sort();
+    if (dates.length === 0) return '-';
+    return `${formatDate(dates[0])} – ${formatDate(dates[dates.length - 1])}`;
+};
+
+const styleHeaderRow = (sheet: Worksheet) => {
+    const header = sheet.getRow(1);
+    header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+    header.alignment = { vertical: 'middle', wrapText: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columnCount } };
+};
+
+const addSummarySheet = (workbook: Workbook, input: ReportInput) => {
+    const { result, supplierName, supplierData, systemData, executionTime, rows: filteredRows, filterDescription } = input;
+    const sheet = workbook.addWorksheet('Tổng hợp');
+    sheet.columns = [{ width: 34 }, { width: 60 }];
+    const tax = summarizeTax(result.comparedItems);
+    const countByStatus = (status: ComparisonStatus) => result.comparedItems.filter(item => item.status === status).length;
+
+    sheet.addRow(['BÁO CÁO ĐỐI CHIẾU CÔNG NỢ PHẢI TRẢ']).font = { bold: true, size: 14 };
+    sheet.addRow([]);
+    const rows: [string, string | number, string?][] = [
+        ['Nhà cung cấp', supplierName],
+        ['Kỳ chứng từ NCC', describeDateWindow(supplierData)],
+        ['Kỳ dữ liệu Wecare', describeDateWindow(systemData)],
+        ['Tổng NCC (trước thuế)', result.totalSupplierAmount, VND_FORMAT],
+        ['Tổng Wecare (trước thuế)', result.totalSystemAmount, VND_FORMAT],
+        ['Chênh lệch (trước thuế)', result.difference, VND_FORMAT],
+        ['Thuế GTGT NCC', tax.supplier.tax, VND_FORMAT],
+        ['Tổng thanh toán NCC', tax.supplier.gross, VND_FORMAT],
+        ['Tổng thanh toán Wecare', tax.system.gross, VND_FORMAT],
+        ['Số dòng đối chiếu', result.comparedItems.length],
+        [ComparisonStatus.MATCHED, countByStatus(ComparisonStatus.MATCHED)],
+        [ComparisonStatus.DISCREPANCY, countByStatus(ComparisonStatus.DISCREPANCY)],
+        [ComparisonStatus.SUPPLIER_ONLY, countByStatus(ComparisonStatus.SUPPLIER_ONLY)],
+        [ComparisonStatus.SYSTEM_ONLY, countByStatus(ComparisonStatus.SYSTEM_ONLY)],
+        ['Thời gian xử lý (giây)', executionTime != null ? Number(executionTime.toFixed(2)) : '-'],
+        ['Ngày xuất báo cáo', new Date().toLocaleString('vi-VN')],
+    ];
+    if (filteredRows) {
+        rows.push(['Bộ lọc sheet Chi tiết', `${filteredRows.length}/${result.comparedItems.length} dòng${filterDescription ? ` – ${filterDescription}` : ''}`]);
+    }
+    rows.forEach(([label, value, numFmt]) => {
+        const row = sheet.addRow([label, value]);
+        row.getCell(1).font = { bold: true };
+        if (numFmt) row.getCell(2).numFmt = numFmt;
+        row.getCell(2).alignment = { horizontal: 'left' };
+        if (label === 'Chênh lệch (trước thuế)') {
+            row.getCell(2).font = { bold: true, color: { argb: Math.abs(result.difference) < 1 ? 'FF16A34A' : 'FFDC2626' } };
+        }
+    });
+
+    sheet.addRow([]);
+    sheet.addRow(['Tóm tắt']).font = { bold: true };
+    const summaryRow = sheet.addRow([result.summary || 'Không có tóm tắt.']);
+    sheet.mergeCells(summaryRow.number, 1, summaryRow.number, 2);
+    summaryRow.alignment = { wrapText: true, vertical: 'top' };
+    summaryRow.height = Math.min(300, 15 * Math.ceil((result.summary?.length ?? 0) / 90 + 1));
+};
+
+const addDetailSheet = (workbook: Workbook, result: ReconciliationResult, rows?: IndexedItem[]) => {
+    const sheet = workbook.addWorksheet('Chi tiết');
+    const documents = new Map<string, DocumentComparison>((result.documents ?? []).map(doc => [doc.key, doc]));
+    sheet.columns = [
+        { header: 'STT', key: 'index', width: 6 },
+        { header: 'Chứng từ NCC', key: 'supplierDocument', width: 16 },
+        { header: 'Sản phẩm (NCC)', key: 'supplierName', width: 36 },
+        { header: 'SL (NCC)', key: 'supplierQuantity', width: 11, style: { numFmt: QUANTITY_FORMAT } },
+        { header: 'Đơn giá (NCC)', key: 'supplierPrice', width: 15, style: { numFmt: VND_FORMAT } },
+        { header: 'Thành tiền (NCC)', key: 'supplierTotal', width: 17, style: { numFmt: VND_FORMAT } },
+        { header: 'Chứng từ Wecare', key: 'systemDocument', width: 16 },
+        { header: 'Sản phẩm (Wecare)', key: 'systemName', width: 36 },
+        { header: 'SL (Wecare)', key: 'systemQuantity', width: 11, style: { numFmt: QUANTITY_FORMAT } },
+        { header: 'Đơn giá (Wecare)', key: 'systemPrice', width: 15, style: { numFmt: VND_FORMAT } },
+        { header: 'Thành tiền (Wecare)', key: 'systemTotal', width: 17, style: { numFmt: VND_FORMAT } },
+        { header: 'Chênh lệch', key: 'difference', width: 15, style: { numFmt: VND_FORMAT } },
+        { header: 'Trạng thái', key: 'status', width: 16 },
+        { header: 'Ghi chú', key: 'details', width: 48 },
+        { header: 'Cơ sở so khớp', key: 'matchReason', width: 36 },
+        { header: 'Quy đổi ĐVT', key: 'conversion', width: 24 },
+        { header: 'Nhóm', key: 'group', width: 16 },
+        { header: 'Ghép thủ công', key: 'manuallyPaired', width: 12 },
+        { header: 'Trạng thái gốc', key: 'originalStatus', width: 16 },
+        { header: 'Lý do điều chỉnh', key: 'overrideReason', width: 36 },
+        { header: 'Ghi chú người duyệt', key: 'note', width: 36 },
+    ];
+    styleHeaderRow(sheet);
+
+    const detailRows = rows ?? result.comparedItems.map((item, index) => ({ item, index }));
+    detailRows.forEach(({ item, index }) => {
+        const supplierItem = aggregateItems(item.supplierItems);
+        const systemItem = aggregateItems(item.systemItems);
+        const document = item.documentKey ? documents.get(item.documentKey) : undefined;
+        const row = sheet.addRow({
+            index: index + 1,
+            supplierDocument: document?.supplierDocument?.id ?? '',
+            supplierName: supplierItem?.name ?? '',
+            supplierQuantity: supplierItem?.quantity ?? null,
+            supplierPrice: supplierItem?.unitPrice ?? null,
+            supplierTotal: supplierItem?.totalPrice ?? null,
+            systemDocument: document?.systemDocument?.id ?? '',
+            systemName: systemItem?.name ?? '',
+            systemQuantity: systemItem?.quantity ?? null,
+            systemPrice: systemItem?.unitPrice ?? null,
+            systemTotal: systemItem?.totalPrice ?? null,
+            difference: (supplierItem?.totalPrice ?? 0) - (systemItem?.totalPrice ?? 0),
+            status: item.status,
+            details: item.details,
+            matchReason: item.matchReason ?? '',
+            conversion: item.supplierItems.map(describeConversion).filter(Boolean).join('; '),
+            group: describeGroupShape(item),
+            manuallyPaired: item.manuallyPaired ? 'Có' : '',
+            originalStatus: item.statusOverride?.originalStatus ?? '',
+            overrideReason: item.statusOverride?.reason ?? '',
+            note: item.note ?? '',
+        });
+        const fill = STATUS_FILLS[item.status];
+        if (fill) {
+            row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } };
+        }
+        row.alignment = { vertical: 'top', wrapText: true };
+        if (item.statusOverride || item.manuallyPaired) {
+            row.getCell('status').font = { bold: true, color: { argb: 'FFC2410C' } };
+        }
+    });
+
+    // A filtered sheet totals its own rows; the full sheet shows the result's totals.
+    const supplierTotal = rows ? rows.reduce((sum, { item }) => sum + sumTotals(item.supplierItems), 0) : result.totalSupplierAmount;
+    const systemTotal = rows ? rows.reduce((sum, { item }) => sum + sumTotals(item.systemItems), 0) : result.totalSystemAmount;
+    const totalRow = sheet.addRow({
+        supplierName: rows ? 'Tổng các dòng đã lọc' : 'Tổng cộng',
+        supplierTotal,
+        systemTotal,
+        difference: rows ? supplierTotal - systemTotal : result.difference,
+    });
+    totalRow.font = { bold: true };
+    totalRow.border = { top: { style: 'thin' } };
+};
+
+/** One row per line of the raw data as it was extracted or fetched. */
+const addRawDataSheet = (workbook: Workbook, name: string, records: ReconciliationRecord[]) => {
+    const sheet = workbook.addWorksheet(name);
+    sheet.columns = [
+        { header: 'Số chứng từ', key: 'id', width: 16 },
+        { header: 'Ngày', key: 'date', width: 12 },
+        { header: 'Sản phẩm', key: 'name', width: 40 },
+        { header: 'ĐVT', key: 'unit', width: 10 },
+        { header: 'Số lượng', key: 'quantity', width: 11, style: { numFmt: QUANTITY_FORMAT } },
+        { header: 'Đơn giá', key: 'unitPrice', width: 15, style: { numFmt: VND_FORMAT } },
+        { header: 'Thành tiền', key: 'totalPrice', width: 17, style: { numFmt: VND_FORMAT } },
+        { header: 'VAT (%)', key: 'vatRate', width: 9 },
+    ];
+    styleHeaderRow(sheet);
+
+    records.forEach(record => {
+        if (record.items && record.items.length > 0) {
+            record.items.forEach(item => sheet.addRow({
+                id: record.id,
+                date: record.date ?? '',
+                name: item.name,
+                unit: item.unit ?? '',
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                totalPrice: item.totalPrice,
+                vatRate: item.vatRate ?? null,
+            }));
+        } else {
+            sheet.addRow({ id: record.id, date: record.date ?? '', name: record.description, totalPrice: record.amount });
+        }
+    });
+};
+
+/** Builds the reconciliation report as an XLSX file, entirely in the browser. */
+export const buildReconciliationWorkbook = async (input: ReportInput): Promise<Blob> => {
+    const workbook = new Workbook();
+    workbook.created = new Date();
+    addSummarySheet(workbook, input);
+    addDetailSheet(workbook, input.result, input.rows);
+    addRawDataSheet(workbook, 'Dữ liệu NCC', input.supplierData);
+    addRawDataSheet(workbook, 'Dữ liệu Wecare', input.systemData);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import type { ReconciliationRecord, ReconciliationResult, ProductItem, ComparedItem } from '../types';
+import type { ReconciliationRecord, ReconciliationResult, ProductItem, ComparedItem, ToleranceSettings } from '../types';
+import { toNetBasis } from './taxService';
 
 if (!process.env.API_KEY) {
     throw new Error("API_KEY environment variable not set. This application cannot function without an API key.");
@@ -49,7 +50,12 @@ const productItemSchema = {
         name: { type: Type.STRING, description: 'Tên sản phẩm/dịch vụ' },
         quantity: { type: Type.NUMBER, description: 'Số lượng' },
         unitPrice: { type: Type.NUMBER, description: 'Đơn giá' },
+        unit: { type: Type.STRING, description: 'Đơn vị tính (ví dụ: cái, thùng, hộp, cuộn, mét), nếu có' },
         totalPrice: { type: Type.NUMBER, description: 'Thành tiền (số lượng * đơn giá)' },
+        vatRate: { type: Type.NUMBER, description: 'Thuế suất GTGT tính theo phần trăm (ví dụ 8 hoặc 10), nếu có' },
+        priceIncludesVat: { type: Type.BOOLEAN, description: 'true nếu đơn giá và thành tiền đã bao gồm thuế GTGT' },
+        netAmount: { type: Type.NUMBER, description: 'Thành tiền trước thuế GTGT, nếu có' },
+        grossAmount: { type: Type.NUMBER, description: 'Thành tiền sau thuế GTGT, nếu có' },
     },
     required: ['name', 'quantity', 'unitPrice', 'totalPrice'],
 };
@@ -175,6 +181,7 @@ export const extractDataFromFile = async (file: File): Promise<ReconciliationRec
 HƯỚNG DẪN QUAN TRỌNG:
 1.  **Gộp Tên Sản Phẩm**: Nếu tên sản phẩm và quy cách (hoặc mô tả chi tiết) nằm ở hai cột riêng biệt (ví dụ: cột 'Mặt hàng' và cột 'Quy cách'), bạn PHẢI gộp chúng lại thành một tên sản phẩm duy nhất trong trường 'name'. Ví dụ: nếu 'Mặt hàng' là 'Cổ dê bulong inox 304' và 'Quy cách' là 'D55', thì tên sản phẩm trích xuất phải là 'Cổ dê bulong inox 304 D55'.
 2.  **Bỏ qua dòng bị gạch**: Bỏ qua và không trích xuất bất kỳ dòng nào có dấu hiệu bị gạch bỏ hoặc gạch ngang. Chỉ trích xuất những mục hợp lệ.
+3.  **Thuế GTGT**: Nếu chứng từ ghi thuế suất GTGT (ví dụ 8%, 10%) cho dòng hoặc cho cả chứng từ, ghi vào 'vatRate' của từng sản phẩm. Nếu đơn giá đã bao gồm thuế, đặt 'priceIncludesVat' là true. Ghi 'netAmount' (trước thuế) và 'grossAmount' (sau thuế) khi chứng từ thể hiện các số này.
 
 Đối với mỗi mục, cung cấp mã, ngày, mô tả, tổng số tiền, và danh sách sản phẩm chi tiết nếu có. Toàn bộ phản hồi của bạn BẮT BUỘC phải là một mảng JSON hợp lệ, không chứa bất kỳ văn bản giải thích nào khác.`;
 
@@ -216,25 +223,104 @@ HƯỚNG DẪN QUAN TRỌNG:
   }
 };
 
-export const reconcileData = async (supplierData: ReconciliationRecord[], systemData: ReconciliationRecord[]): Promise<ReconciliationResult> => {
+const ledgerEntrySchema = {
+    type: Type.OBJECT,
+    properties: {
+        ledgerKind: {
+            type: Type.STRING,
+            enum: ['opening', 'purchase', 'payment', 'return', 'adjustment', 'closing'],
+            description: 'Loại bút toán: opening (số dư đầu kỳ), purchase (mua hàng/phát sinh nợ), payment (thanh toán), return (trả hàng/giảm trừ), adjustment (điều chỉnh khác), closing (số dư cuối kỳ)',
+        },
+        id: { type: Type.STRING, description: 'Số chứng từ (hóa đơn, phiếu chi, ủy nhiệm chi...), để trống nếu không có' },
+        date: { type: Type.STRING, description: 'Ngày bút toán, định dạng "YYYY-MM-DD"' },
+        description: { type: Type.STRING, description: 'Diễn giải' },
+        amount: { type: Type.NUMBER, description: 'Số tiền, luôn là số dương. Với số dư đầu kỳ/cuối kỳ là số dư Wecare đang nợ NCC. Riêng "adjustment": dương nếu làm tăng nợ, âm nếu làm giảm nợ' },
+        balance: { type: Type.NUMBER, description: 'Số dư lũy kế in trên bảng kê sau bút toán này, nếu có' },
+    },
+    required: ['ledgerKind', 'id', 'description', 'amount'],
+};
+
+/** Reads a supplier's statement of account as ledger entries, in statement order. */
+export const extractStatementFromFile = async (file: File): Promise<ReconciliationRecord[]> => {
+  let imagePart;
+  try {
+      imagePart = await fileToGenerativePart(file);
+  } catch (fileError: any) {
+      console.error(`Error processing file ${file.name}:`, fileError);
+      throw new Error(`Không thể xử lý tệp "${file.name}". Lỗi: ${fileError.message || 'Lỗi không xác định'}`);
+  }
+
+  const extractPrompt = `Tệp đính kèm là bảng kê/biên bản đối chiếu công nợ của nhà cung cấp gửi cho Wecare. Trích xuất TẤT CẢ các bút toán theo đúng thứ tự trên bảng kê.
+HƯỚNG DẪN QUAN TRỌNG:
+1.  **Số dư đầu kỳ và cuối kỳ**: Ghi thành bút toán riêng với loại 'opening' và 'closing'. Nếu số dư thể hiện NCC đang nợ Wecare, ghi số tiền âm.
+2.  **Phát sinh**: Hóa đơn bán hàng cho Wecare là 'purchase'; tiền Wecare đã trả là 'payment'; hàng trả lại hoặc chiết khấu giảm nợ là 'return'; các bút toán khác là 'adjustment'.
+3.  **Không trích xuất dòng tổng cộng** (tổng phát sinh nợ/có); chỉ trích xuất từng bút toán và hai dòng số dư.
+4.  **Số dư lũy kế**: Nếu bảng kê có cột số dư sau mỗi dòng, ghi vào 'balance'.
+
+Toàn bộ phản hồi của bạn BẮT BUỘC phải là một mảng JSON hợp lệ, không chứa bất kỳ văn bản giải thích nào khác.`;
+
+  const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+          parts: [
+              { text: extractPrompt },
+              imagePart,
+          ]
+      },
+      config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+              type: Type.ARRAY,
+              items: ledgerEntrySchema
+          },
+      },
+  });
+
+  const rawResponseText = response.text;
+  let repairedJson = "";
+  try {
+      repairedJson = repairJson(rawResponseText);
+      return JSON.parse(repairedJson) as ReconciliationRecord[];
+  } catch (e) {
+      console.error({
+        message: "Failed to parse Gemini response for statement extraction.",
+        rawResponse: rawResponseText,
+        repairedAttempt: repairedJson,
+        error: e,
+      });
+      throw new GeminiParseError(
+        "AI đã trả về một định dạng không hợp lệ và không thể tự động sửa chữa. Vui lòng thử lại, AI có thể cho kết quả tốt hơn ở lần sau.",
+        rawResponseText,
+        repairedJson
+      );
+  }
+};
+
+export const reconcileData = async (supplierData: ReconciliationRecord[], systemData: ReconciliationRecord[], tolerances?: ToleranceSettings): Promise<ReconciliationResult> => {
+  // Wecare prices are net of VAT, so supplier prices are compared on the same basis.
   const allSupplierItems = supplierData.flatMap(record =>
     (record.items && record.items.length > 0)
       ? record.items
       : [{ name: record.description, quantity: 1, unitPrice: record.amount, totalPrice: record.amount }]
-  );
-  const allSystemItems = systemData.flatMap(record => record.items || []);
+  ).map(toNetBasis);
+  const allSystemItems = systemData.flatMap(record => record.items || []).map(toNetBasis);
+
+  const toleranceRule = tolerances
+    ? `\n**Dung sai cho phép:** Coi là khớp nếu số lượng bằng nhau sau khi làm tròn ${tolerances.quantityDecimals} chữ số thập phân, đơn giá lệch không quá ${tolerances.priceAbsolute} VNĐ hoặc ${tolerances.pricePercent}%, và thành tiền lệch không quá ${tolerances.lineTotalAbsolute} VNĐ.\n`
+    : '';
 
   const prompt = `Bạn là một AI kiểm toán viên tài chính chuyên nghiệp. Nhiệm vụ của bạn là đối chiếu dữ liệu từ Nhà Cung Cấp (NCC) với dữ liệu trên hệ thống Wecare.
 
 **Quy trình:**
 Với MỖI MỘT sản phẩm từ "Dữ liệu NCC", bạn phải:
 1.  **Tìm kiếm** trong "Dữ liệu Wecare" để tìm sản phẩm tương ứng. Việc so khớp nên dựa trên tên (cho phép sai khác nhỏ về chính tả/mô tả).
-2.  **So sánh** số lượng và đơn giá nếu tìm thấy.
+2.  **So sánh** số lượng và đơn giá nếu tìm thấy. Mọi đơn giá dưới đây đều là giá trước thuế GTGT.
 3.  **Phân loại** kết quả cho sản phẩm NCC đó vào một trong các trạng thái sau:
     *   'Khớp': Nếu tìm thấy sản phẩm tương ứng trong Wecare và cả số lượng và đơn giá đều khớp.
     *   'Chênh lệch': Nếu tìm thấy sản phẩm tương ứng nhưng số lượng hoặc đơn giá không khớp.
     *   'Chỉ có ở NCC': Nếu không tìm thấy bất kỳ sản phẩm nào tương ứng trong dữ liệu Wecare.
-
+4.  **Ghép theo nhóm** khi cần: một dòng NCC (ví dụ 100 cái) có thể được Wecare ghi nhận thành nhiều dòng cùng sản phẩm (60 và 40), hoặc nhiều dòng NCC gộp thành một dòng Wecare. Khi tổng số lượng và tổng thành tiền của nhóm khớp nhau, hãy trả về MỘT mục kết quả chứa tất cả các dòng đó trong \`supplierItems\` và \`systemItems\`.
+${toleranceRule}
 **Dữ liệu đầu vào:**
 
 Dữ liệu NCC:
@@ -248,27 +334,22 @@ ${JSON.stringify(allSystemItems, null, 2)}
 \`\`\`
 
 **YÊU CẦU ĐẦU RA:**
-1.  **Tạo danh sách kết quả**: Danh sách này phải có cùng số lượng mục với "Dữ liệu NCC". Mỗi mục trong danh sách kết quả tương ứng với một mục trong "Dữ liệu NCC".
+1.  **Tạo danh sách kết quả**: Mỗi sản phẩm trong "Dữ liệu NCC" phải xuất hiện trong đúng một mục kết quả. Thông thường mỗi mục chứa một dòng NCC và tối đa một dòng Wecare; chỉ gộp nhiều dòng vào một mục khi ghép theo nhóm như trên. Mỗi sản phẩm Wecare chỉ được ghép vào tối đa một mục; các sản phẩm Wecare không được ghép sẽ được hệ thống tự báo cáo là 'Chỉ có ở Wecare', không cần liệt kê.
 2.  **Tạo tóm tắt**: Cung cấp một bản tóm tắt ngắn gọn bằng tiếng Việt về kết quả đối chiếu.
 3.  **Tính toán tổng hợp**: Tính tổng số tiền từ dữ liệu NCC, tổng số tiền từ các mục Wecare đã được so khớp, và chênh lệch.
 4.  **Ghi chú chi tiết**: Chỉ điền thông tin vào trường \`details\` khi có 'Chênh lệch' hoặc 'Chỉ có ở NCC'. Để trống cho các mục 'Khớp'.
 
 QUAN TRỌNG: Toàn bộ phản hồi của bạn BẮT BUỘC phải là một đối tượng JSON hợp lệ duy nhất, tuân thủ nghiêm ngặt schema đã cho. Không thêm bất kỳ văn bản giải thích nào ngoài JSON.`;
 
-  const nullableProductItemSchema = {
-    ...productItemSchema,
-    nullable: true,
-  };
-
   const comparedItemSchema = {
     type: Type.OBJECT,
     properties: {
         status: { type: Type.STRING, enum: ['Khớp', 'Chênh lệch', 'Chỉ có ở NCC'] },
-        supplierItem: productItemSchema,
-        systemItem: nullableProductItemSchema,
+        supplierItems: { type: Type.ARRAY, items: productItemSchema, description: 'Các dòng NCC thuộc mục này, thường chỉ một dòng.' },
+        systemItems: { type: Type.ARRAY, items: productItemSchema, description: 'Các dòng Wecare được ghép, để trống nếu trạng thái là "Chỉ có ở NCC".' },
         details: { type: Type.STRING, description: 'Chỉ cung cấp giải thích khi có chênh lệch hoặc thiếu sót. Để trống nếu trạng thái là "Khớp".' }
     },
-    required: ['status', 'details', 'supplierItem']
+    required: ['status', 'details', 'supplierItems', 'systemItems']
   };
 
   const response = await ai.models.generateContent({
@@ -301,6 +382,12 @@ QUAN TRỌNG: Toàn bộ phản hồi của bạn BẮT BUỘC phải là một
   try {
       repairedJson = repairJson(rawResponseText);
       const aiResult = JSON.parse(repairedJson) as ReconciliationResult;
+      // Guard against the model omitting an empty side of a row.
+      aiResult.comparedItems = aiResult.comparedItems.map(item => ({
+        ...item,
+        supplierItems: item.supplierItems ?? [],
+        systemItems: item.systemItems ?? [],
+      }));
       return aiResult;
   } catch (e) {
       console.error({
@@ -0,0 +1,34 @@
+import type { ProductItem, ComparedItem } from '../types';
+
+/**
+ * Collapses a group of lines for the same product into one item so it can be compared
+ * like a single line: quantities and totals are summed, and the unit price is the
+ * quantity-weighted average. Returns null for an empty group.
+ */
+export const aggregateItems = (items: ProductItem[]): ProductItem | null => {
+    if (items.length === 0) return null;
+    if (items.length === 1) return items[0];
+
+    const quantity = items.reduce((sum, item) => sum + item.quantity, 0);
+    const totalPrice = items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const units = new Set(items.map(item => item.unit).filter(Boolean));
+    const vatRates = new Set(items.map(item => item.vatRate));
+    return {
+        name: [...new Set(items.map(item => item.name))].join(' + '),
+        quantity,
+        unitPrice: quantity !== 0 ? totalPrice / quantity : 0,
+        totalPrice,
+        unit: units.size === 1 ? [...units][0] : undefined,
+        vatRate: vatRates.size === 1 ? [...vatRates][0] : undefined,
+    };
+};
+
+export const sumTotals = (items: ProductItem[]): number => items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+/** True when either side of the row holds more than one line. */
+export const isGroupedRow = (item: ComparedItem): boolean =>
+    item.supplierItems.length > 1 || item.systemItems.length > 1;
+
+/** "2 NCC : 1 Wecare" for grouped rows, empty for one-to-one rows. */
+export const describeGroupShape = (item: ComparedItem): string =>
+    isGroupedRow(item) ? `${item.supplierItems.length} NCC : ${item.systemItems.length} Wecare` : '';
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { ExistingMapping, Supplier } from '../types';
+import type { LegacyMapping } from './mappingService';
+import { buildMappingFile, buildMappingLinkRequests, findLinkConflicts, groupLegacyMappings, parseMappingFile } from './mappingService';
+
+const supplier: Supplier = { id: '00000000-0000-0000-0000-0000000000aa', name: 'Công ty TNHH Hòa Phát' };
+
+const legacy = (id: string, supplierName: string, supplierProductName: string): LegacyMapping =>
+    ({ id, supplierName, supplierProductName });
+
+const linked = (supplierProductName: string): ExistingMapping => ({
+    crdfd_mapping_sku_2025id: `linked-${supplierProductName}`,
+    _crdfd_supplierlookup_value: supplier.id,
+    crdfd_product_name: 'Vít thép đen 30mm',
+    crdfd_supplier_product_name: supplierProductName,
+    crdfd_supplier: supplier.name,
+});
+
+describe('groupLegacyMappings', () => {
+    it('groups by the stored supplier name and pre-selects a supplier of the same name', () => {
+        const groups = groupLegacyMappings(
+            [legacy('1', 'Công ty TNHH Hòa Phát', 'Vít đen'), legacy('2', 'cong ty tnhh hoa phat', 'Keo dán sắt')],
+            [supplier],
+        );
+        expect(groups).toHaveLength(1);
+        expect(groups[0].mappings.map(m => m.id)).toEqual(['1', '2']);
+        expect(groups[0].supplierId).toBe(supplier.id);
+    });
+});
+
+describe('findLinkConflicts', () => {
+    it('reports names the supplier already maps in a linked record, whatever their spelling', () => {
+        const conflicts = findLinkConflicts(
+            [legacy('1', supplier.name, 'VIT DEN - 3 PHAN'), legacy('2', supplier.name, 'Keo dán sắt')],
+            [linked('Vít đen 3 phân')],
+        );
+        expect(conflicts).toEqual(['VIT DEN - 3 PHAN']);
+    });
+});
+
+describe('buildMappingLinkRequests', () => {
+    it('patches each mapping with the supplier lookup and current name', () => {
+        expect(buildMappingLinkRequests([legacy('1', 'Hoa Phat', 'Vít đen')], supplier)).toEqual([{
+            method: 'PATCH',
+            path: 'crdfd_mapping_sku_2025s(1)',
+            body: {
+                crdfd_supplier: supplier.name,
+                'crdfd_SupplierLookup@odata.bind': `/crdfd_suppliers(${supplier.id})`,
+            },
+        }]);
+    });
+});
+
+describe('buildMappingFile', () => {
+    const mapping: ExistingMapping = {
+        ...linked('Vít đen, 3 phân'),
+        crdfd_supplier_unit: 'Hộp',
+        crdfd_unit: 'Cái',
+        crdfd_conversion_factor: 12,
+    };
+
+    it.each(['csv', 'xlsx'] as const)('writes a %s file that parseMappingFile reads back', async (format) => {
+        const blob = await buildMappingFile([mapping], format);
+        const { drafts, invalid } = await parseMappingFile(new File([blob], `mapping.${format}`));
+        expect(invalid).toEqual([]);
+        expect(drafts).toEqual([{
+            supplierProductName: 'Vít đen, 3 phân',
+            productName: 'Vít thép đen 30mm',
+            supplierUnit: 'Hộp',
+            unit: 'Cái',
+            conversionFactor: 12,
+        }]);
+    });
+});
@@ -0,0 +1,406 @@
+import { Workbook } from 'exceljs';
+import type { ExistingMapping, ProductItem, ToleranceSettings, Supplier } from '../types';
+import { normalizeVietnamese, nameSimilarity, closeness } from './matchingService';
+import { readWorkbook, rowsToCsv } from './spreadsheetService';
+import { compareWithinTolerance } from './toleranceService';
+import { toNetBasis } from './taxService';
+import { dataverseUrl, fetchAllPages } from './dataverseClient';
+import type { ChangesetRequest, PageProgress } from './dataverseClient';
+
+/** Dataverse entity set holding the supplier-to-Wecare product mappings. */
+export const MAPPING_ENTITY_SET = 'crdfd_mapping_sku_2025s';
+
+/**
+ * Lookup from a mapping to its `crdfd_supplier` record. Mappings are keyed by it so
+ * renaming a supplier in CRM keeps its mappings; the `crdfd_supplier` text column
+ * only records the name at the time of saving.
+ */
+export const MAPPING_SUPPLIER_LOOKUP = 'crdfd_SupplierLookup';
+export const MAPPING_SUPPLIER_LOOKUP_VALUE = '_crdfd_supplierlookup_value';
+
+const escapeODataString = (value: string) => value.replace(/'/g, "''");
+
+/**
+ * OData filter for a supplier's mappings. Mappings saved before the lookup existed
+ * still match by name until the migration links them, so nothing disappears meanwhile.
+ */
+export const buildMappingSupplierFilter = (supplier: Supplier): string =>
+    `(${MAPPING_SUPPLIER_LOOKUP_VALUE} eq ${supplier.id} or (${MAPPING_SUPPLIER_LOOKUP_VALUE} eq null and crdfd_supplier eq '${escapeODataString(supplier.name)}'))`;
+
+const MAPPING_SELECT = `crdfd_mapping_sku_2025id,${MAPPING_SUPPLIER_LOOKUP_VALUE},crdfd_product_name,crdfd_supplier_product_name,crdfd_supplier,crdfd_supplier_unit,crdfd_unit,crdfd_conversion_factor`;
+
+/** Every saved mapping of a supplier, including those still keyed by name only. */
+export const fetchSupplierMappings = (token: string, supplier: Supplier, onProgress?: (progress: PageProgress) => void): Promise<ExistingMapping[]> =>
+    fetchAllPages<ExistingMapping>(
+        dataverseUrl(`${MAPPING_ENTITY_SET}?$select=${MAPPING_SELECT}&$filter=${buildMappingSupplierFilter(supplier)}`),
+        token,
+        { errorPrefix: 'Không thể tải mapping đã có', onProgress }
+    );
+
+/** A mapping as typed, edited or imported, before it is written to Dataverse. */
+export interface MappingDraft {
+    supplierProductName: string;
+    productName: string;
+    supplierUnit: string | null;
+    unit: string | null;
+    /** Number of Wecare units in one supplier unit. */
+    conversionFactor: number;
+}
+
+type MappingField = keyof MappingDraft;
+
+/** Export headers, in order, with the normalized spellings accepted on import. */
+const MAPPING_COLUMNS: { field: MappingField; header: string; aliases: string[] }[] = [
+    { field: 'supplierProductName', header: 'Sản phẩm NCC', aliases: ['san pham ncc', 'ten hang ncc', 'ten san pham ncc', 'supplier product name'] },
+    { field: 'productName', header: 'Sản phẩm Wecare', aliases: ['san pham wecare', 'ten hang wecare', 'ten san pham wecare', 'product name'] },
+    { field: 'supplierUnit', header: 'ĐVT NCC', aliases: ['dvt ncc', 'don vi tinh ncc', 'supplier unit'] },
+    { field: 'unit', header: 'ĐVT Wecare', aliases: ['dvt wecare', 'don vi tinh wecare', 'unit'] },
+    { field: 'conversionFactor', header: 'Hệ số quy đổi', aliases: ['he so quy doi', 'quy doi', 'he so', 'conversion factor'] },
+];
+
+export const toMappingDraft = (mapping: ExistingMapping): MappingDraft => ({
+    supplierProductName: mapping.crdfd_supplier_product_name,
+    productName: mapping.crdfd_product_name,
+    supplierUnit: mapping.crdfd_supplier_unit ?? null,
+    unit: mapping.crdfd_unit ?? null,
+    conversionFactor: mapping.crdfd_conversion_factor ?? 1,
+});
+
+/** Body for creating or updating a `crdfd_mapping_sku_2025` record. */
+export const buildMappingPayload = (draft: MappingDraft, supplier: Supplier) => ({
+    crdfd_product_name: draft.productName.trim(),
+    crdfd_supplier_product_name: draft.supplierProductName.trim(),
+    crdfd_supplier: supplier.name,
+    [`${MAPPING_SUPPLIER_LOOKUP}@odata.bind`]: `/crdfd_suppliers(${supplier.id})`,
+    crdfd_supplier_unit: draft.supplierUnit?.trim() || null,
+    crdfd_unit: draft.unit?.trim() || null,
+    crdfd_conversion_factor: draft.conversionFactor,
+});
+
+/** Returns an error message for a draft that cannot be saved, or null. */
+export const validateMappingDraft = (draft: MappingDraft): string | null => {
+    if (!draft.supplierProductName.trim()) return 'Thiếu tên sản phẩm NCC.';
+    if (!draft.productName.trim()) return 'Thiếu tên sản phẩm Wecare.';
+    if (!(draft.conversionFactor > 0)) return 'Hệ số quy đổi phải lớn hơn 0.';
+    return null;
+};
+
+export interface MappingConflict {
+    supplierProductName: string;
+    /** 'multipleProducts': one supplier name points at several Wecare products; 'duplicate': the same pair saved twice. */
+    kind: 'multipleProducts' | 'duplicate';
+    mappings: ExistingMapping[];
+}
+
+/** Supplier names that resolve ambiguously. Names are compared without diacritics, case or punctuation. */
+export const findMappingConflicts = (mappings: ExistingMapping[]): MappingConflict[] => {
+    const bySupplierName = new Map<string, ExistingMapping[]>();
+    mappings.forEach(mapping => {
+        const key = normalizeVietnamese(mapping.crdfd_supplier_product_name);
+        bySupplierName.set(key, [...(bySupplierName.get(key) ?? []), mapping]);
+    });
+
+    const conflicts: MappingConflict[] = [];
+    bySupplierName.forEach(group => {
+        if (group.length < 2) return;
+        const products = new Set(group.map(m => normalizeVietnamese(m.crdfd_product_name)));
+        conflicts.push({
+            supplierProductName: group[0].crdfd_supplier_product_name,
+            kind: products.size > 1 ? 'multipleProducts' : 'duplicate',
+            mappings: group,
+        });
+    });
+    return conflicts;
+};
+
+export interface MappingImportPlan {
+    toCreate: MappingDraft[];
+    toUpdate: { id: string; draft: MappingDraft }[];
+    unchanged: number;
+}
+
+const parseFactor = (value: unknown): number => {
+    if (value === null || value === undefined || value === '') return 1;
+    if (typeof value === 'number') return value;
+    return parseFloat(String(value).replace(',', '.'));
+};
+
+const cellText = (value: unknown): string => (value === null || value === undefined ? '' : String(value).trim());
+
+/**
+ * Reads mappings from a CSV or Excel file laid out like the export: the first row
+ * holding a "Sản phẩm NCC" and a "Sản phẩm Wecare" column is taken as the header.
+ */
+export const parseMappingFile = async (file: File): Promise<{ drafts: MappingDraft[]; invalid: { row: number; reason: string }[] }> => {
+    const [sheet] = await readWorkbook(file);
+    const rows = sheet?.rows ?? [];
+
+    const headerIndex = rows.findIndex(row => {
+        const labels = row.map(cell => normalizeVietnamese(cellText(cell)));
+        return MAPPING_COLUMNS.slice(0, 2).every(column => labels.some(label => column.aliases.includes(label)));
+    });
+    if (headerIndex === -1) {
+        throw new Error('Không tìm thấy dòng tiêu đề có cột "Sản phẩm NCC" và "Sản phẩm Wecare".');
+    }
+
+    const labels = rows[headerIndex].map(cell => normalizeVietnamese(cellText(cell)));
+    const columnOf = (field: MappingField) => labels.findIndex(label => MAPPING_COLUMNS.find(c => c.field === field)!.aliases.includes(label));
+    const columns = Object.fromEntries(MAPPING_COLUMNS.map(c => [c.field, columnOf(c.field)])) as Record<MappingField, number>;
+
+    const drafts: MappingDraft[] = [];
+    const invalid: { row: number; reason: string }[] = [];
+    rows.slice(headerIndex + 1).forEach((row, offset) => {
+        const rowNumber = headerIndex + offset + 2;
+        if (row.every(cell => cellText(cell) === '')) return;
+        const valueOf = (field: MappingField) => (columns[field] >= 0 ? row[columns[field]] : null);
+        const draft: MappingDraft = {
+            supplierProductName: cellText(valueOf('supplierProductName')),
+            productName: cellText(valueOf('productName')),
+            supplierUnit: cellText(valueOf('supplierUnit')) || null,
+            unit: cellText(valueOf('unit')) || null,
+            conversionFactor: parseFactor(valueOf('conversionFactor')),
+        };
+        const error = validateMappingDraft(draft);
+        if (error) {
+            invalid.push({ row: rowNumber, reason: error });
+        } else {
+            drafts.push(draft);
+        }
+    });
+    return { drafts, invalid };
+};
+
+const sameDraft = (a: MappingDraft, b: MappingDraft) =>
+    normalizeVietnamese(a.productName) === normalizeVietnamese(b.productName)
+    && (a.supplierUnit ?? '') === (b.supplierUnit ?? '')
+    && (a.unit ?? '') === (b.unit ?? '')
+    && a.conversionFactor === b.conversionFactor;
+
+export type MappingWriteKind = 'create' | 'update' | 'unchanged' | 'duplicate';
+
+/** What saving one draft does: `id` is the record an update goes to. */
+export interface MappingWriteStep {
+    kind: MappingWriteKind;
+    draft: MappingDraft;
+    id?: string;
+}
+
+/**
+ * Upserts drafts on (supplier, supplier product name) against the supplier's saved
+ * mappings, one step per draft in order. A supplier name that is already mapped once is
+ * updated in place; a name that is already in conflict only updates the record for the
+ * same Wecare product. A later draft for a name seen earlier in the same list is a duplicate.
+ */
+export const planMappingWrites = (drafts: MappingDraft[], existing: ExistingMapping[]): MappingWriteStep[] => {
+    const bySupplierName = new Map<string, ExistingMapping[]>();
+    existing.forEach(mapping => {
+        const key = normalizeVietnamese(mapping.crdfd_supplier_product_name);
+        bySupplierName.set(key, [...(bySupplierName.get(key) ?? []), mapping]);
+    });
+    const seen = new Set<string>();
+
+    return drafts.map((draft): MappingWriteStep => {
+        const key = normalizeVietnamese(draft.supplierProductName);
+        if (seen.has(key)) return { kind: 'duplicate', draft };
+        seen.add(key);
+
+        const matches = bySupplierName.get(key) ?? [];
+        const target = matches.length === 1
+            ? matches[0]
+            : matches.find(m => normalizeVietnamese(m.crdfd_product_name) === normalizeVietnamese(draft.productName));
+        if (!target || !target.crdfd_mapping_sku_2025id) return { kind: 'create', draft };
+        if (sameDraft(toMappingDraft(target), draft)) return { kind: 'unchanged', draft, id: target.crdfd_mapping_sku_2025id };
+        return { kind: 'update', draft, id: target.crdfd_mapping_sku_2025id };
+    });
+};
+
+/** Decides what an import does to the saved mappings; later rows for a name already in the file are dropped. */
+export const planMappingImport = (drafts: MappingDraft[], existing: ExistingMapping[]): MappingImportPlan => {
+    const plan: MappingImportPlan = { toCreate: [], toUpdate: [], unchanged: 0 };
+    planMappingWrites(drafts, existing).forEach(step => {
+        if (step.kind === 'create') plan.toCreate.push(step.draft);
+        else if (step.kind === 'update') plan.toUpdate.push({ id: step.id!, draft: step.draft });
+        else if (step.kind === 'unchanged') plan.unchanged += 1;
+    });
+    return plan;
+};
+
+/** Result of saving one draft, shown next to it. `rolledBack` rows were fine but undone with the rest of the changeset. */
+export interface MappingRowOutcome {
+    status: 'created' | 'updated' | 'unchanged' | 'duplicate' | 'failed' | 'rolledBack';
+    error?: string;
+}
+
+export interface MappingSaveResult {
+    success: boolean;
+    error?: string;
+    /** One per saved row, in the order the rows were passed; missing when nothing was attempted. */
+    outcomes?: MappingRowOutcome[];
+}
+
+export const MAPPING_OUTCOME_LABELS: Record<MappingRowOutcome['status'], string> = {
+    created: 'Đã tạo mới',
+    updated: 'Đã cập nhật',
+    unchanged: 'Không thay đổi',
+    duplicate: 'Trùng dòng khác',
+    failed: 'Lỗi',
+    rolledBack: 'Chưa lưu',
+};
+
+/** Whether the row is saved, or needs no save: it should not be sent again. */
+export const isMappingOutcomeDone = (outcome?: MappingRowOutcome): boolean =>
+    !!outcome && outcome.status !== 'failed' && outcome.status !== 'rolledBack';
+
+/** The mappings as a CSV or XLSX file, with the headers `parseMappingFile` reads back. */
+export const buildMappingFile = async (mappings: ExistingMapping[], format: 'csv' | 'xlsx'): Promise<Blob> => {
+    const rows = [
+        MAPPING_COLUMNS.map(c => c.header),
+        ...mappings.map(mapping => {
+            const draft = toMappingDraft(mapping);
+            return MAPPING_COLUMNS.map(c => draft[c.field] ?? '');
+        }),
+    ];
+    if (format === 'csv') {
+        // Add BOM for Excel to recognize UTF-8 characters correctly
+        return new Blob([`\uFEFF${rowsToCsv(rows)}`], { type: 'text/csv;charset=utf-8;' });
+    }
+    const workbook = new Workbook();
+    const sheet = workbook.addWorksheet('Mapping');
+    sheet.columns = [{ width: 40 }, { width: 40 }, { width: 10 }, { width: 10 }, { width: 14 }];
+    sheet.addRows(rows);
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+/** Minimum name similarity for a suggestion on the name alone. */
+const SUGGEST_NAME_THRESHOLD = 0.5;
+/** Lower bar when quantity and unit price also agree within tolerance. */
+const SUGGEST_NAME_THRESHOLD_WITH_VALUES = 0.3;
+
+export interface MappingSuggestion {
+    supplierItem: ProductItem;
+    /** Proposed Wecare counterpart; null when nothing is close enough and the user must pick one. */
+    systemItem: ProductItem | null;
+    /** Same scale as the matching engine: 0.6 name, 0.2 quantity, 0.2 unit price. */
+    confidence: number | null;
+    reason: string;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const uniqueByName = (items: ProductItem[]): ProductItem[] => {
+    const seen = new Map<string, ProductItem>();
+    items.forEach(item => {
+        const key = normalizeVietnamese(item.name);
+        if (key && !seen.has(key)) seen.set(key, item);
+    });
+    return [...seen.values()];
+};
+
+/**
+ * Proposes a Wecare product for every supplier product that has no saved mapping.
+ * Pairs are scored like the matching engine, so a price change no longer hides a
+ * product, and a shared price alone never pairs two unrelated names. Each Wecare
+ * product is proposed once, to its best-scoring supplier product.
+ */
+export const suggestMappings = (
+    supplierItems: ProductItem[],
+    systemItems: ProductItem[],
+    existing: ExistingMapping[],
+    tolerances: ToleranceSettings
+): MappingSuggestion[] => {
+    const mapped = new Set(existing.map(m => normalizeVietnamese(m.crdfd_supplier_product_name)));
+    const unmapped = uniqueByName(supplierItems).filter(item => !mapped.has(normalizeVietnamese(item.name)));
+    const candidatesPool = uniqueByName(systemItems);
+
+    const candidates: { supplierIndex: number; systemIndex: number; confidence: number; reason: string }[] = [];
+    unmapped.forEach((supplierItem, supplierIndex) => {
+        const netItem = toNetBasis(supplierItem);
+        candidatesPool.forEach((systemItem, systemIndex) => {
+            const nameScore = nameSimilarity(supplierItem.name, systemItem.name);
+            const { isMatch } = compareWithinTolerance(netItem, systemItem, tolerances);
+            if (nameScore < (isMatch ? SUGGEST_NAME_THRESHOLD_WITH_VALUES : SUGGEST_NAME_THRESHOLD)) return;
+            const quantityScore = closeness(netItem.quantity, systemItem.quantity);
+            const priceScore = closeness(netItem.unitPrice, systemItem.unitPrice);
+            candidates.push({
+                supplierIndex,
+                systemIndex,
+                confidence: 0.6 * nameScore + 0.2 * quantityScore + 0.2 * priceScore,
+                reason: [
+                    `Tên giống ${formatPercent(nameScore)}`,
+                    isMatch ? 'SL/ĐG khớp' : `SL ${formatPercent(quantityScore)}, ĐG ${formatPercent(priceScore)}`,
+                ].join(', '),
+            });
+        });
+    });
+    candidates.sort((a, b) => b.confidence - a.confidence || a.supplierIndex - b.supplierIndex || a.systemIndex - b.systemIndex);
+
+    const chosen = new Map<number, (typeof candidates)[number]>();
+    const usedSystem = new Set<number>();
+    candidates.forEach(candidate => {
+        if (chosen.has(candidate.supplierIndex) || usedSystem.has(candidate.systemIndex)) return;
+        chosen.set(candidate.supplierIndex, candidate);
+        usedSystem.add(candidate.systemIndex);
+    });
+
+    return unmapped
+        .map((supplierItem, supplierIndex): MappingSuggestion => {
+            const candidate = chosen.get(supplierIndex);
+            return candidate
+                ? { supplierItem, systemItem: candidatesPool[candidate.systemIndex], confidence: candidate.confidence, reason: candidate.reason }
+                : { supplierItem, systemItem: null, confidence: null, reason: 'Không tìm thấy sản phẩm Wecare đủ giống, hãy chọn thủ công.' };
+        })
+        .sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1));
+};
+
+/** A mapping saved before the supplier lookup existed, known only by the supplier name it was saved with. */
+export interface LegacyMapping {
+    id: string;
+    supplierName: string;
+    supplierProductName: string;
+}
+
+export interface MappingMigrationGroup {
+    supplierName: string;
+    mappings: LegacyMapping[];
+    /** Supplier the mappings will be linked to; pre-filled when exactly one supplier has the same name. */
+    supplierId: string | null;
+}
+
+/** Groups unlinked mappings by the supplier name they carry and guesses the supplier by name. */
+export const groupLegacyMappings = (legacy: LegacyMapping[], suppliers: Supplier[]): MappingMigrationGroup[] => {
+    const groups = new Map<string, MappingMigrationGroup>();
+    legacy.forEach(mapping => {
+        const key = normalizeVietnamese(mapping.supplierName);
+        const group = groups.get(key);
+        if (group) {
+            group.mappings.push(mapping);
+            return;
+        }
+        const candidates = suppliers.filter(s => normalizeVietnamese(s.name) === key);
+        groups.set(key, { supplierName: mapping.supplierName, mappings: [mapping], supplierId: candidates.length === 1 ? candidates[0].id : null });
+    });
+    return [...groups.values()].sort((a, b) => a.supplierName.localeCompare(b.supplierName, 'vi'));
+};
+
+/**
+ * Supplier product names of `legacy` that already have a mapping linked to the supplier.
+ * Linking them would map the name twice, and saves upsert on the supplier product name.
+ */
+export const findLinkConflicts = (legacy: LegacyMapping[], linked: ExistingMapping[]): string[] => {
+    const linkedNames = new Set(linked.map(mapping => normalizeVietnamese(mapping.crdfd_supplier_product_name)));
+    return legacy
+        .filter(mapping => linkedNames.has(normalizeVietnamese(mapping.supplierProductName)))
+        .map(mapping => mapping.supplierProductName);
+};
+
+/** Links each mapping to the supplier record and refreshes the supplier name stored with it. */
+export const buildMappingLinkRequests = (legacy: LegacyMapping[], supplier: Supplier): ChangesetRequest[] =>
+    legacy.map(mapping => ({
+        method: 'PATCH',
+        path: `${MAPPING_ENTITY_SET}(${mapping.id})`,
+        body: {
+            crdfd_supplier: supplier.name,
+            [`${MAPPING_SUPPLIER_LOOKUP}@odata.bind`]: `/crdfd_suppliers(${supplier.id})`,
+        },
+    }));
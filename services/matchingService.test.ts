@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import type { ProductItem } from '../types';
+import { ComparisonStatus } from '../types';
+import { normalizeVietnamese, nameSimilarity, closeness, matchItems } from './matchingService';
+
+const item = (name: string, quantity: number, unitPrice: number, totalPrice = quantity * unitPrice): ProductItem =>
+    ({ name, quantity, unitPrice, totalPrice });
+
+describe('normalizeVietnamese', () => {
+    it('strips diacritics, đ and punctuation and separates letters from digits', () => {
+        expect(normalizeVietnamese('Cổ dê bulong Inox304 - D55')).toBe('co de bulong inox 304 d 55');
+        expect(normalizeVietnamese('Đinh vít ĐEN')).toBe('dinh vit den');
+    });
+
+    it('keeps decimals, reading a comma between digits as a decimal point', () => {
+        expect(normalizeVietnamese('Ống 1,5 mm')).toBe('ong 1.5 mm');
+        expect(normalizeVietnamese('Ống 1.5mm.')).toBe('ong 1.5 mm');
+    });
+
+    it('collapses whitespace', () => {
+        expect(normalizeVietnamese('  Keo   dán \t sắt ')).toBe('keo dan sat');
+    });
+});
+
+describe('nameSimilarity', () => {
+    it('scores names equal after normalization as 1', () => {
+        expect(nameSimilarity('Cổ dê Inox304', 'co de inox 304')).toBe(1);
+    });
+
+    it('scores empty names as 0', () => {
+        expect(nameSimilarity('', 'Bulong')).toBe(0);
+    });
+
+    it('ranks a reworded name above an unrelated one', () => {
+        const close = nameSimilarity('Bulong inox M8x20', 'Bu long inox M8 x 20');
+        const unrelated = nameSimilarity('Bulong inox M8x20', 'Sơn chống gỉ');
+        expect(close).toBeGreaterThan(0.6);
+        expect(unrelated).toBeLessThan(0.3);
+    });
+
+    it('penalizes names whose numbers differ', () => {
+        const sameSize = nameSimilarity('Cổ dê D55', 'Cổ dê loại D55');
+        const otherSize = nameSimilarity('Cổ dê D55', 'Cổ dê loại D60');
+        expect(otherSize).toBeLessThan(sameSize);
+        expect(otherSize).toBeLessThan(0.75);
+    });
+});
+
+describe('closeness', () => {
+    it('is 1 for equal values and falls with the relative gap', () => {
+        expect(closeness(10, 10)).toBe(1);
+        expect(closeness(0, 0)).toBe(1);
+        expect(closeness(50, 100)).toBe(0.5);
+        expect(closeness(0, 100)).toBe(0);
+    });
+});
+
+describe('matchItems', () => {
+    it('settles one-to-one pairs that agree as matched, with the reason', () => {
+        const { settledItems, unmatchedSupplierItems, unmatchedSystemItems } = matchItems(
+            [item('Bulong inox M8', 10, 1000)],
+            [item('Bulong inox M8', 10, 1000)],
+        );
+        expect(settledItems).toHaveLength(1);
+        expect(settledItems[0].status).toBe(ComparisonStatus.MATCHED);
+        expect(settledItems[0].matchReason).toBe('Tên giống 100%, SL khớp, ĐG khớp');
+        expect(unmatchedSupplierItems).toEqual([]);
+        expect(unmatchedSystemItems).toEqual([]);
+    });
+
+    it('accepts a pair within tolerance and records the deviation', () => {
+        const { settledItems } = matchItems(
+            [item('Bulong inox M8', 10, 1000.5)],
+            [item('Bulong inox M8', 10, 1000)],
+        );
+        expect(settledItems[0].status).toBe(ComparisonStatus.MATCHED);
+        expect(settledItems[0].toleranceDeviation).toEqual({ quantity: 0, unitPrice: 0.5, totalPrice: 5 });
+        expect(settledItems[0].matchReason).toContain('trong dung sai');
+    });
+
+    it('groups one supplier line split into several Wecare lines when the totals agree', () => {
+        const { settledItems, unmatchedSystemItems } = matchItems(
+            [item('Ống nhựa PVC 21', 100, 500)],
+            [item('Ống nhựa PVC 21', 60, 500), item('Ống nhựa PVC 21', 40, 500)],
+        );
+        expect(settledItems).toHaveLength(1);
+        expect(settledItems[0].status).toBe(ComparisonStatus.MATCHED);
+        expect(settledItems[0].systemItems).toHaveLength(2);
+        expect(settledItems[0].matchReason).toContain('gộp 1 dòng NCC với 2 dòng Wecare');
+        expect(unmatchedSystemItems).toEqual([]);
+    });
+
+    it('groups N supplier lines against M Wecare lines of the same product', () => {
+        const { settledItems } = matchItems(
+            [item('Keo dán sắt', 30, 200), item('Keo dán sắt', 20, 200)],
+            [item('Keo dán sắt', 25, 200), item('Keo dán sắt', 15, 200), item('Keo dán sắt', 10, 200)],
+        );
+        expect(settledItems).toHaveLength(1);
+        expect(settledItems[0].supplierItems).toHaveLength(2);
+        expect(settledItems[0].systemItems).toHaveLength(3);
+    });
+
+    it('settles near-identical names that disagree as a discrepancy', () => {
+        const { settledItems } = matchItems(
+            [item('Bulong inox M8', 10, 1200)],
+            [item('Bulong inox M8', 10, 1000)],
+        );
+        expect(settledItems[0].status).toBe(ComparisonStatus.DISCREPANCY);
+        expect(settledItems[0].matchReason).toContain('ĐG lệch');
+        expect(settledItems[0].details).not.toBe('');
+    });
+
+    it('leaves loosely similar names that disagree for the AI', () => {
+        const { settledItems, unmatchedSupplierItems, unmatchedSystemItems } = matchItems(
+            [item('Bulong inox M8 dài', 10, 1200)],
+            [item('Bulong inox M8 ngắn', 10, 1000)],
+        );
+        expect(settledItems).toEqual([]);
+        expect(unmatchedSupplierItems).toHaveLength(1);
+        expect(unmatchedSystemItems).toHaveLength(1);
+    });
+
+    it('lets a saved mapping take precedence over a better name match', () => {
+        const mappings = new Map([['vit den 3 phan', 'Vít thép đen 30mm']]);
+        const { settledItems } = matchItems(
+            [item('Vít đen 3 phân', 100, 50)],
+            [item('Vít đen 3 phân', 100, 50), item('Vít thép đen 30mm', 100, 50)],
+            { mappings },
+        );
+        expect(settledItems[0].systemItems[0].name).toBe('Vít thép đen 30mm');
+        expect(settledItems[0].matchReason).toContain('Theo SKU mapping đã lưu');
+    });
+
+    it('finds a saved mapping for names differing only in case, diacritics or punctuation', () => {
+        const mappings = new Map([[normalizeVietnamese('Vít đen 3 phân'), 'Vít thép đen 30mm']]);
+        const { settledItems } = matchItems(
+            [item('VIT DEN - 3 PHAN', 100, 50)],
+            [item('Vít thép đen 30mm', 100, 50)],
+            { mappings },
+        );
+        expect(settledItems[0].status).toBe(ComparisonStatus.MATCHED);
+        expect(settledItems[0].matchReason).toContain('Theo SKU mapping đã lưu');
+    });
+
+    it('reports a mapped product missing from Wecare as supplier-only', () => {
+        const mappings = new Map([['vit den 3 phan', 'Vít thép đen 30mm']]);
+        const { settledItems } = matchItems([item('Vít đen 3 phân', 100, 50)], [], { mappings });
+        expect(settledItems[0].status).toBe(ComparisonStatus.SUPPLIER_ONLY);
+
+        const partial = matchItems([item('Vít đen 3 phân', 100, 50)], [], { mappings, settleMappedMissing: false });
+        expect(partial.settledItems).toEqual([]);
+        expect(partial.unmatchedSupplierItems).toHaveLength(1);
+    });
+
+    it('breaks ties by document order so runs are reproducible', () => {
+        const supplierItems = [item('Băng keo trong', 5, 100), item('Băng keo trong', 5, 100)];
+        const systemItems = [item('Băng keo trong', 5, 100), item('Băng keo trong', 5, 100), item('Băng keo trong', 5, 100)];
+        const { settledItems, unmatchedSystemItems } = matchItems(supplierItems, systemItems);
+        expect(settledItems.map(row => row.supplierItems[0])).toEqual(supplierItems);
+        expect(settledItems[0].systemItems[0]).toBe(systemItems[0]);
+        expect(settledItems[1].systemItems[0]).toBe(systemItems[1]);
+        expect(unmatchedSystemItems).toEqual([systemItems[2]]);
+    });
+
+    it('lists settled rows in supplier document order', () => {
+        const { settledItems } = matchItems(
+            [item('Sơn chống gỉ', 2, 90000), item('Bulong inox M8', 10, 1000)],
+            [item('Bulong inox M8', 10, 1000), item('Sơn chống gỉ', 2, 90000)],
+        );
+        expect(settledItems.map(row => row.supplierItems[0].name)).toEqual(['Sơn chống gỉ', 'Bulong inox M8']);
+    });
+});
@@ -0,0 +1,413 @@
+import type { ProductItem, ComparedItem, ToleranceSettings } from '../types';
+import { ComparisonStatus } from '../types';
+import { compareWithinTolerance, describeDeviation, describeDiscrepancy, DEFAULT_TOLERANCES } from './toleranceService';
+import type { ToleranceComparison } from './toleranceService';
+import { aggregateItems } from './groupService';
+
+/**
+ * Normalizes a product name for comparison: lowercases, strips Vietnamese
+ * diacritics (including đ), separates letters from digits and drops punctuation.
+ * "Cổ dê bulong Inox304 - D55" becomes "co de bulong inox 304 d 55".
+ */
+export const normalizeVietnamese = (text: string): string => {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/g, 'd')
+        .replace(/Đ/g, 'D')
+        .toLowerCase()
+        .replace(/(\d),(\d)/g, '$1.$2')
+        .replace(/([a-z])(\d)/g, '$1 $2')
+        .replace(/(\d)([a-z])/g, '$1 $2')
+        .replace(/[^a-z0-9.]+/g, ' ')
+        .replace(/(^|\s)\.+|\.+(\s|$)/g, ' ')
+        .trim()
+        .replace(/\s+/g, ' ');
+};
+
+const tokenize = (normalized: string): string[] => normalized.split(' ').filter(Boolean);
+
+const isNumericToken = (token: string) => /^\d+(\.\d+)?$/.test(token);
+
+const bigrams = (text: string): string[] => {
+    const compact = text.replace(/\s/g, '');
+    const result: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) {
+        result.push(compact.substring(i, i + 2));
+    }
+    return result;
+};
+
+const diceCoefficient = (a: string, b: string): number => {
+    const aBigrams = bigrams(a);
+    const bBigrams = bigrams(b);
+    if (aBigrams.length === 0 || bBigrams.length === 0) {
+        return a === b ? 1 : 0;
+    }
+    const counts = new Map<string, number>();
+    aBigrams.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+    let overlap = 0;
+    bBigrams.forEach(g => {
+        const count = counts.get(g) || 0;
+        if (count > 0) {
+            overlap++;
+            counts.set(g, count - 1);
+        }
+    });
+    return (2 * overlap) / (aBigrams.length + bBigrams.length);
+};
+
+/**
+ * Scores how similar two product names are, from 0 (unrelated) to 1 (identical
+ * after normalization). Combines character-bigram overlap with word overlap, and
+ * penalizes names whose numbers differ (sizes, models such as D55 vs D60), since
+ * those are almost always different products.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+    const normA = normalizeVietnamese(a);
+    const normB = normalizeVietnamese(b);
+    if (!normA || !normB) return 0;
+    if (normA === normB) return 1;
+
+    const tokensA = tokenize(normA);
+    const tokensB = tokenize(normB);
+    const setA = new Set(tokensA);
+    const setB = new Set(tokensB);
+    const sharedTokens = [...setA].filter(t => setB.has(t)).length;
+    const tokenScore = sharedTokens / Math.max(setA.size, setB.size);
+
+    let score = 0.5 * diceCoefficient(normA, normB) + 0.5 * tokenScore;
+
+    const numbersA = tokensA.filter(isNumericToken).sort().join(' ');
+    const numbersB = tokensB.filter(isNumericToken).sort().join(' ');
+    if (numbersA && numbersB && numbersA !== numbersB) {
+        score *= 0.6;
+    }
+    return Math.min(score, 1);
+};
+
+/** 1 when both values are equal, falling linearly to 0 as their relative gap reaches 100%. */
+export const closeness = (a: number, b: number): number => {
+    if (a === b) return 1;
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    if (scale === 0) return 1;
+    return Math.max(0, 1 - Math.abs(a - b) / scale);
+};
+
+export interface MatchOptions {
+    /** Saved SKU mappings, keyed by the normalized supplier product name (see `normalizeVietnamese`), valued with the Wecare product name. */
+    mappings?: Map<string, string>;
+    /** Minimum name similarity to settle a pair whose quantity and unit price agree. */
+    matchedNameThreshold?: number;
+    /** Minimum name similarity to settle a pair as a discrepancy when quantity or unit price differ. */
+    discrepancyNameThreshold?: number;
+    /** The supplier's tolerances for quantity, unit price and line total. */
+    tolerances?: ToleranceSettings;
+    /**
+     * Report mapped supplier items with no Wecare counterpart as 'Chỉ có ở NCC' (default).
+     * Turned off when only part of the Wecare data is searched, such as a single document.
+     */
+    settleMappedMissing?: boolean;
+}
+
+export interface MatchResult {
+    /** Pairs (and mapped-but-missing supplier items) the engine settled on its own. */
+    settledItems: ComparedItem[];
+    /** Supplier items left for the AI to reconcile. */
+    unmatchedSupplierItems: ProductItem[];
+    /** Wecare items not consumed by any settled pair. */
+    unmatchedSystemItems: ProductItem[];
+}
+
+interface Candidate {
+    supplierIndex: number;
+    systemIndex: number;
+    nameScore: number;
+    quantityScore: number;
+    priceScore: number;
+    confidence: number;
+    viaMapping: boolean;
+    comparison: ToleranceComparison;
+}
+
+const DEFAULT_MATCHED_NAME_THRESHOLD = 0.75;
+const DEFAULT_DISCREPANCY_NAME_THRESHOLD = 0.9;
+/** Upper bound on counterpart lines searched for a split group, keeping the subset search small. */
+const MAX_GROUP_CANDIDATES = 8;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const unitsDiffer = (a: ProductItem, b: ProductItem) =>
+    Boolean(a.unit && b.unit && normalizeVietnamese(a.unit) !== normalizeVietnamese(b.unit));
+
+const describeCandidate = (candidate: Candidate, supplierItem: ProductItem): string => {
+    const reasons = [candidate.viaMapping ? 'Theo SKU mapping đã lưu' : `Tên giống ${formatPercent(candidate.nameScore)}`];
+    if (supplierItem.conversion) {
+        reasons.push(`quy đổi ĐVT ×${supplierItem.conversion.factor.toLocaleString('vi-VN')}`);
+    }
+    if (candidate.comparison.isExact) {
+        reasons.push('SL khớp', 'ĐG khớp');
+    } else if (candidate.comparison.isMatch) {
+        reasons.push('SL/ĐG khớp trong dung sai');
+    } else {
+        reasons.push(
+            candidate.quantityScore === 1 ? 'SL khớp' : `SL lệch (${formatPercent(candidate.quantityScore)})`,
+            candidate.priceScore === 1 ? 'ĐG khớp' : `ĐG lệch (${formatPercent(candidate.priceScore)})`,
+        );
+    }
+    return reasons.join(', ');
+};
+
+/** All subsets of `items` with at least two elements, smallest first. */
+const subsetsBySize = <T>(items: T[]): T[][] => {
+    const result: T[][] = [];
+    const build = (start: number, size: number, current: T[]) => {
+        if (current.length === size) {
+            result.push([...current]);
+            return;
+        }
+        for (let i = start; i < items.length; i++) {
+            current.push(items[i]);
+            build(i + 1, size, current);
+            current.pop();
+        }
+    };
+    for (let size = 2; size <= items.length; size++) build(0, size, []);
+    return result;
+};
+
+/**
+ * Deterministically pairs supplier items with Wecare items.
+ *
+ * Every supplier/Wecare pair is scored on name similarity, quantity and unit price.
+ * Matching runs in three passes, each only over the items the previous passes left:
+ * one-to-one pairs that agree within tolerance, then grouped matches where one line on
+ * one side was split into several lines of the same product on the other side (or N
+ * lines collapse into M) and the totals agree, and finally one-to-one discrepancies
+ * between near-identical names. Pairs are accepted greedily from the highest
+ * confidence down so each item is used at most once. Anything the engine is not sure
+ * about is returned for the AI to handle.
+ */
+export const matchItems = (
+    supplierItems: ProductItem[],
+    systemItems: ProductItem[],
+    options: MatchOptions = {}
+): MatchResult => {
+    const mappings = options.mappings ?? new Map<string, string>();
+    const matchedNameThreshold = options.matchedNameThreshold ?? DEFAULT_MATCHED_NAME_THRESHOLD;
+    const discrepancyNameThreshold = options.discrepancyNameThreshold ?? DEFAULT_DISCREPANCY_NAME_THRESHOLD;
+    const tolerances = options.tolerances ?? DEFAULT_TOLERANCES;
+    const settleMappedMissing = options.settleMappedMissing ?? true;
+
+    // Candidates are pairs that plausibly name the same product.
+    const candidates: Candidate[] = [];
+    supplierItems.forEach((supplierItem, supplierIndex) => {
+        const mappedName = mappings.get(normalizeVietnamese(supplierItem.name));
+        systemItems.forEach((systemItem, systemIndex) => {
+            const viaMapping = mappedName !== undefined && mappedName === systemItem.name;
+            // A mapped supplier item may only pair with its mapped Wecare product.
+            if (mappedName !== undefined && !viaMapping) return;
+
+            const nameScore = viaMapping ? 1 : nameSimilarity(supplierItem.name, systemItem.name);
+            if (!viaMapping && nameScore < matchedNameThreshold) return;
+
+            const quantityScore = closeness(supplierItem.quantity, systemItem.quantity);
+            const priceScore = closeness(supplierItem.unitPrice, systemItem.unitPrice);
+            candidates.push({
+                supplierIndex,
+                systemIndex,
+                nameScore,
+                quantityScore,
+                priceScore,
+                confidence: 0.6 * nameScore + 0.2 * quantityScore + 0.2 * priceScore,
+                viaMapping,
+                comparison: compareWithinTolerance(supplierItem, systemItem, tolerances),
+            });
+        });
+    });
+
+    // Saved mappings first, then highest confidence; ties keep document order so runs are reproducible.
+    candidates.sort((a, b) =>
+        Number(b.viaMapping) - Number(a.viaMapping)
+        || b.confidence - a.confidence
+        || a.supplierIndex - b.supplierIndex
+        || a.systemIndex - b.systemIndex
+    );
+
+    const usedSupplier = new Set<number>();
+    const usedSystem = new Set<number>();
+    // Settled rows keyed by the first supplier index they cover, so output follows document order.
+    const rowsBySupplier = new Map<number, ComparedItem>();
+
+    const settlePair = (candidate: Candidate) => {
+        const supplierItem = supplierItems[candidate.supplierIndex];
+        const systemItem = systemItems[candidate.systemIndex];
+        const { isMatch, isExact, deviation } = candidate.comparison;
+        let details = '';
+        if (!isMatch) details = describeDiscrepancy(supplierItem, systemItem);
+        else if (!isExact) details = describeDeviation(deviation);
+        if (!isMatch && unitsDiffer(supplierItem, systemItem)) {
+            details += ` Khác đơn vị tính (${supplierItem.unit} / ${systemItem.unit}), cần khai báo hệ số quy đổi trong SKU mapping.`;
+        }
+        usedSupplier.add(candidate.supplierIndex);
+        usedSystem.add(candidate.systemIndex);
+        rowsBySupplier.set(candidate.supplierIndex, {
+            status: isMatch ? ComparisonStatus.MATCHED : ComparisonStatus.DISCREPANCY,
+            supplierItems: [supplierItem],
+            systemItems: [systemItem],
+            details,
+            confidence: candidate.confidence,
+            matchReason: describeCandidate(candidate, supplierItem),
+            toleranceDeviation: isMatch && !isExact ? deviation : undefined,
+        });
+    };
+
+    /** Settles the group as matched when its totals agree within tolerance. */
+    const trySettleGroup = (supplierIndexes: number[], systemIndexes: number[]): boolean => {
+        const supplierGroup = supplierIndexes.map(index => supplierItems[index]);
+        const systemGroup = systemIndexes.map(index => systemItems[index]);
+        const supplierTotal = aggregateItems(supplierGroup)!;
+        const systemTotal = aggregateItems(systemGroup)!;
+        const { isMatch, isExact, deviation } = compareWithinTolerance(supplierTotal, systemTotal, tolerances);
+        if (!isMatch) return false;
+
+        const pairs = candidates.filter(c => supplierIndexes.includes(c.supplierIndex) && systemIndexes.includes(c.systemIndex));
+        const nameScore = Math.min(...pairs.map(c => c.nameScore));
+        supplierIndexes.forEach(index => usedSupplier.add(index));
+        systemIndexes.forEach(index => usedSystem.add(index));
+        rowsBySupplier.set(Math.min(...supplierIndexes), {
+            status: ComparisonStatus.MATCHED,
+            supplierItems: supplierGroup,
+            systemItems: systemGroup,
+            details: isExact ? '' : describeDeviation(deviation),
+            confidence: 0.6 * nameScore + 0.4,
+            matchReason: [
+                pairs.every(c => c.viaMapping) ? 'Theo SKU mapping đã lưu' : `Tên giống ${formatPercent(nameScore)}`,
+                `gộp ${supplierGroup.length} dòng NCC với ${systemGroup.length} dòng Wecare`,
+                isExact ? 'tổng SL và thành tiền khớp' : 'tổng khớp trong dung sai',
+            ].join(', '),
+            toleranceDeviation: isExact ? undefined : deviation,
+        });
+        return true;
+    };
+
+    const relatedSystem = (supplierIndex: number) => candidates
+        .filter(c => c.supplierIndex === supplierIndex && !usedSystem.has(c.systemIndex))
+        .slice(0, MAX_GROUP_CANDIDATES)
+        .map(c => c.systemIndex);
+    const relatedSupplier = (systemIndex: number) => candidates
+        .filter(c => c.systemIndex === systemIndex && !usedSupplier.has(c.supplierIndex))
+        .slice(0, MAX_GROUP_CANDIDATES)
+        .map(c => c.supplierIndex);
+
+    // Pass 1: one-to-one pairs that agree within tolerance.
+    for (const candidate of candidates) {
+        if (!candidate.comparison.isMatch) continue;
+        if (usedSupplier.has(candidate.supplierIndex) || usedSystem.has(candidate.systemIndex)) continue;
+        settlePair(candidate);
+    }
+
+    // Pass 2a: one supplier line split into several Wecare lines, and the reverse.
+    supplierItems.forEach((_, supplierIndex) => {
+        if (usedSupplier.has(supplierIndex)) return;
+        const related = relatedSystem(supplierIndex);
+        subsetsBySize(related).some(subset => trySettleGroup([supplierIndex], subset));
+    });
+    systemItems.forEach((_, systemIndex) => {
+        if (usedSystem.has(systemIndex)) return;
+        const related = relatedSupplier(systemIndex);
+        subsetsBySize(related).some(subset => trySettleGroup(subset, [systemIndex]));
+    });
+
+    // Pass 2b: N supplier lines against M Wecare lines of the same product, compared as a whole.
+    const visitedSupplier = new Set<number>();
+    supplierItems.forEach((_, start) => {
+        if (usedSupplier.has(start) || visitedSupplier.has(start)) return;
+        const groupSupplier = new Set<number>([start]);
+        const groupSystem = new Set<number>();
+        const queue = [start];
+        while (queue.length > 0) {
+            const supplierIndex = queue.shift()!;
+            relatedSystem(supplierIndex).forEach(systemIndex => {
+                if (groupSystem.has(systemIndex)) return;
+                groupSystem.add(systemIndex);
+                relatedSupplier(systemIndex).forEach(next => {
+                    if (groupSupplier.has(next)) return;
+                    groupSupplier.add(next);
+                    queue.push(next);
+                });
+            });
+        }
+        groupSupplier.forEach(index => visitedSupplier.add(index));
+        if (groupSupplier.size > 1 && groupSystem.size > 1) {
+            trySettleGroup([...groupSupplier].sort((a, b) => a - b), [...groupSystem].sort((a, b) => a - b));
+        }
+    });
+
+    // Pass 3: remaining one-to-one pairs, settled as discrepancies when the names leave no doubt.
+    for (const candidate of candidates) {
+        if (usedSupplier.has(candidate.supplierIndex) || usedSystem.has(candidate.systemIndex)) continue;
+        if (!candidate.viaMapping && candidate.nameScore < discrepancyNameThreshold) continue;
+        settlePair(candidate);
+    }
+
+    const settledItems: ComparedItem[] = [];
+    const unmatchedSupplierItems: ProductItem[] = [];
+
+    supplierItems.forEach((supplierItem, supplierIndex) => {
+        const row = rowsBySupplier.get(supplierIndex);
+        if (row) {
+            settledItems.push(row);
+        } else if (usedSupplier.has(supplierIndex)) {
+            // Covered by a group row listed under an earlier supplier line.
+        } else if (settleMappedMissing && mappings.has(normalizeVietnamese(supplierItem.name))) {
+            settledItems.push({
+                status: ComparisonStatus.SUPPLIER_ONLY,
+                supplierItems: [supplierItem],
+                systemItems: [],
+                details: 'Sản phẩm đã được mapping nhưng không có trong dữ liệu Wecare kỳ này.',
+                matchReason: 'Theo SKU mapping đã lưu',
+            });
+        } else {
+            unmatchedSupplierItems.push(supplierItem);
+        }
+    });
+
+    const unmatchedSystemItems = systemItems.filter((_, index) => !usedSystem.has(index));
+
+    return { settledItems, unmatchedSupplierItems, unmatchedSystemItems };
+};
+
+const itemKey = (item: ProductItem) => `${item.name.trim().toLowerCase()}|${item.quantity}|${item.unitPrice}`;
+
+/**
+ * Builds "Chỉ có ở Wecare" rows for the Wecare items that no compared row has claimed.
+ * AI results carry copies of the Wecare items rather than references, so claims are
+ * counted by name, quantity and unit price.
+ */
+export const buildSystemOnlyItems = (systemItems: ProductItem[], comparedItems: ComparedItem[]): ComparedItem[] => {
+    const claimed = new Map<string, number>();
+    comparedItems.forEach(item => {
+        item.systemItems.forEach(systemItem => {
+            const key = itemKey(systemItem);
+            claimed.set(key, (claimed.get(key) || 0) + 1);
+        });
+    });
+
+    return systemItems
+        .filter(systemItem => {
+            const key = itemKey(systemItem);
+            const count = claimed.get(key) || 0;
+            if (count > 0) {
+                claimed.set(key, count - 1);
+                return false;
+            }
+            return true;
+        })
+        .map(systemItem => ({
+            status: ComparisonStatus.SYSTEM_ONLY,
+            supplierItems: [],
+            systemItems: [systemItem],
+            details: 'Hàng đã ghi nhận trên Wecare nhưng không có trong chứng từ NCC.',
+        }));
+};
@@ -0,0 +1,67 @@
+import type { ReconciliationRecord, DateWindowSettings } from '../types';
+import { dataverseUrl, fetchAllPages } from './dataverseClient';
+import type { PageProgress } from './dataverseClient';
+import { buildSystemDateFilter } from './dateWindowService';
+
+/** Purchase lines recorded in Dynamics, one row per product received. */
+const PURCHASE_LINE_ENTITY_SET = 'cr44a_muahangchitiets';
+const PURCHASE_LINE_SELECT = 'cr44a_ongia,cr44a_vtay,cr44a_tenhangcal,createdon,cr44a_soluongmua,cr44a_ngayhachtoan,cr44a_onvitinh,cr44a_sohoadon,cr44a_sophieunhap';
+
+/** A purchase line as Dataverse returns it for `PURCHASE_LINE_SELECT`. */
+export interface PurchaseLineRow {
+    cr44a_ongia: number | null;
+    cr44a_vtay: string | null;
+    cr44a_tenhangcal: string | null;
+    createdon: string;
+    cr44a_soluongmua: number | null;
+    cr44a_ngayhachtoan: string | null;
+    cr44a_onvitinh: string | null;
+    cr44a_sohoadon: string | null;
+    cr44a_sophieunhap: string | null;
+}
+
+/**
+ * Groups purchase lines into documents by invoice number, falling back to the receipt number.
+ * Lines with neither are grouped per accounting date under an empty document number.
+ */
+export const groupPurchaseLines = (rows: PurchaseLineRow[]): ReconciliationRecord[] => {
+    const documents = new Map<string, ReconciliationRecord>();
+    rows.forEach(item => {
+        const date = (item.cr44a_ngayhachtoan || item.createdon).split('T')[0];
+        const quantity = Number(item.cr44a_soluongmua) || 0;
+        const unitPrice = Number(item.cr44a_ongia) || 0;
+        const totalPrice = quantity * unitPrice;
+        const name = item.cr44a_tenhangcal || 'N/A';
+        const unit = item.cr44a_onvitinh || undefined;
+        const reference = (item.cr44a_sohoadon || item.cr44a_sophieunhap || '').trim();
+        const documentKey = reference ? `ref:${reference}` : `date:${date}`;
+
+        const document = documents.get(documentKey) ?? { id: reference, date, amount: 0, description: reference ? `Chứng từ ${reference}` : 'Chứng từ không số', items: [] };
+        document.items!.push({ name, quantity, unitPrice, totalPrice, unit });
+        document.amount += totalPrice;
+        if (date < (document.date ?? date)) document.date = date;
+        documents.set(documentKey, document);
+    });
+    return [...documents.values()];
+};
+
+/**
+ * A supplier's purchase documents inside the fetch window, on the date field chosen for it.
+ * A window without a start reaches back to the supplier's first purchase.
+ */
+export const fetchPurchaseDocuments = async (
+    token: string,
+    supplierId: string,
+    window: { start?: string; end: string },
+    dateField: DateWindowSettings['dateField'],
+    onProgress?: (progress: PageProgress) => void
+): Promise<ReconciliationRecord[]> => {
+    const filters = [
+        // By supplier id, so purchase history survives a rename of the supplier in CRM.
+        `_cr44a_nhacungcap_value eq ${supplierId}`,
+        buildSystemDateFilter(window, dateField),
+    ];
+    const apiUrl = dataverseUrl(`${PURCHASE_LINE_ENTITY_SET}?$select=${PURCHASE_LINE_SELECT}&$filter=${filters.join(' and ')}`);
+    const rows = await fetchAllPages<PurchaseLineRow>(apiUrl, token, { errorPrefix: 'Lỗi tải dữ liệu hệ thống', onProgress });
+    return groupPurchaseLines(rows);
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import type { ReconciliationResult } from '../types';
+import { ComparisonStatus } from '../types';
+import { buildReconciliationChangeset, RECONCILIATION_ENTITY_SET, RECONCILIATION_LINE_ENTITY_SET } from './reconciliationExportService';
+
+const result: ReconciliationResult = {
+    summary: 'Đã ghép 1/1 chứng từ NCC với chứng từ Wecare.',
+    totalSupplierAmount: 15000,
+    totalSystemAmount: 10000,
+    difference: 5000,
+    comparedItems: [
+        {
+            status: ComparisonStatus.MATCHED,
+            supplierItems: [{ name: 'Bulong inox M8', quantity: 10, unitPrice: 1000, totalPrice: 10000 }],
+            systemItems: [{ name: 'Bulong inox M8', quantity: 10, unitPrice: 1000, totalPrice: 10000 }],
+            details: '',
+        },
+        {
+            status: ComparisonStatus.SUPPLIER_ONLY,
+            supplierItems: [{ name: 'Sơn chống gỉ', quantity: 1, unitPrice: 5000, totalPrice: 5000 }],
+            systemItems: [],
+            details: '',
+        },
+    ],
+};
+
+describe('buildReconciliationChangeset', () => {
+    const requests = buildReconciliationChangeset(result, 'Hòa Phát', { start: '2026-09-01', end: '2026-09-30' }, 'header-id');
+
+    it('creates the header first, with the id chosen by the caller', () => {
+        expect(requests[0]).toMatchObject({
+            method: 'POST',
+            path: RECONCILIATION_ENTITY_SET,
+            body: { crdfd_reconciliation_2025id: 'header-id', crdfd_supplier: 'Hòa Phát', crdfd_line_count: 2 },
+        });
+    });
+
+    it('creates one line per compared row, bound to the header by its Content-ID', () => {
+        expect(requests).toHaveLength(3);
+        requests.slice(1).forEach((request, index) => {
+            expect(request.method).toBe('POST');
+            expect(request.path).toBe(RECONCILIATION_LINE_ENTITY_SET);
+            expect(request.body).toMatchObject({ 'crdfd_Reconciliation@odata.bind': '$1', crdfd_line_number: index + 1 });
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import type { ReconciliationResult, ComparedItem, DocumentComparison } from '../types';
+import { ComparisonStatus } from '../types';
+import { aggregateItems, describeGroupShape } from './groupService';
+import type { ChangesetRequest } from './dataverseClient';
+
+/** Dataverse entity sets holding saved reconciliations and their lines. */
+export const RECONCILIATION_ENTITY_SET = 'crdfd_reconciliation_2025s';
+export const RECONCILIATION_LINE_ENTITY_SET = 'crdfd_reconciliation_line_2025s';
+
+export interface ReconciliationPeriod {
+    start: string | null;
+    end: string | null;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/** Header record: who was reconciled, for which period, and how it came out. */
+export const buildReconciliationHeader = (
+    result: ReconciliationResult,
+    supplierName: string,
+    period: ReconciliationPeriod
+) => {
+    const countByStatus = (status: ComparisonStatus) => result.comparedItems.filter(item => item.status === status).length;
+    const periodLabel = [period.start, period.end].filter(Boolean).join(' – ');
+    return {
+        crdfd_name: `Đối chiếu ${supplierName}${periodLabel ? ` (${periodLabel})` : ''}`,
+        crdfd_supplier: supplierName,
+        crdfd_period_start: period.start,
+        crdfd_period_end: period.end,
+        crdfd_total_supplier_amount: roundMoney(result.totalSupplierAmount),
+        crdfd_total_system_amount: roundMoney(result.totalSystemAmount),
+        crdfd_difference: roundMoney(result.difference),
+        crdfd_summary: result.summary,
+        crdfd_line_count: result.comparedItems.length,
+        crdfd_matched_count: countByStatus(ComparisonStatus.MATCHED),
+        crdfd_discrepancy_count: countByStatus(ComparisonStatus.DISCREPANCY),
+        crdfd_supplier_only_count: countByStatus(ComparisonStatus.SUPPLIER_ONLY),
+        crdfd_system_only_count: countByStatus(ComparisonStatus.SYSTEM_ONLY),
+    };
+};
+
+/**
+ * One line record per compared row; grouped rows are saved with their combined figures.
+ * `headerReference` binds the line to its header: an entity path, or `$1` inside a changeset.
+ */
+export const buildReconciliationLine = (item: ComparedItem, index: number, headerReference: string, documents: DocumentComparison[] = []) => {
+    const supplierItem = aggregateItems(item.supplierItems);
+    const systemItem = aggregateItems(item.systemItems);
+    const document = documents.find(doc => doc.key === item.documentKey);
+    return {
+        'crdfd_Reconciliation@odata.bind': headerReference,
+        crdfd_line_number: index + 1,
+        crdfd_status: item.status,
+        crdfd_details: [item.details, item.matchReason].filter(Boolean).join(' | '),
+        crdfd_supplier_product_name: supplierItem?.name ?? null,
+        crdfd_supplier_quantity: supplierItem?.quantity ?? null,
+        crdfd_supplier_unit_price: supplierItem ? roundMoney(supplierItem.unitPrice) : null,
+        crdfd_supplier_amount: supplierItem ? roundMoney(supplierItem.totalPrice) : null,
+        crdfd_product_name: systemItem?.name ?? null,
+        crdfd_quantity: systemItem?.quantity ?? null,
+        crdfd_unit_price: systemItem ? roundMoney(systemItem.unitPrice) : null,
+        crdfd_amount: systemItem ? roundMoney(systemItem.totalPrice) : null,
+        crdfd_amount_difference: roundMoney((supplierItem?.totalPrice ?? 0) - (systemItem?.totalPrice ?? 0)),
+        crdfd_group: describeGroupShape(item) || null,
+        crdfd_supplier_document: document?.supplierDocument?.id || null,
+        crdfd_document: document?.systemDocument?.id || null,
+        crdfd_manually_paired: Boolean(item.manuallyPaired),
+        crdfd_original_status: item.statusOverride?.originalStatus ?? null,
+        crdfd_override_reason: item.statusOverride?.reason ?? null,
+        crdfd_review_note: item.note ?? null,
+    };
+};
+
+/**
+ * The header and its lines as one changeset, so a failed line leaves no partial record behind.
+ * The header id is chosen by the caller because a changeset response does not return it.
+ */
+export const buildReconciliationChangeset = (
+    result: ReconciliationResult,
+    supplierName: string,
+    period: ReconciliationPeriod,
+    headerId: string
+): ChangesetRequest[] => [
+    {
+        method: 'POST',
+        path: RECONCILIATION_ENTITY_SET,
+        body: { crdfd_reconciliation_2025id: headerId, ...buildReconciliationHeader(result, supplierName, period) },
+    },
+    // Content-ID 1 is the header request above.
+    ...result.comparedItems.map((item, index): ChangesetRequest => ({
+        method: 'POST',
+        path: RECONCILIATION_LINE_ENTITY_SET,
+        body: buildReconciliationLine(item, index, '$1', result.documents),
+    })),
+];
@@ -0,0 +1,119 @@
+import type { ReconciliationRecord, ReconciliationResult, ProductItem, ExistingMapping, ComparedItem, ToleranceSettings } from '../types';
+import { ComparisonStatus } from '../types';
+import { reconcileData } from './geminiService';
+import { buildSystemOnlyItems, normalizeVietnamese } from './matchingService';
+import { toNetBasis } from './taxService';
+import { applyUnitConversion } from './unitService';
+import { sumTotals, isGroupedRow } from './groupService';
+import { matchDocuments, matchWithinDocuments, summarizeDocuments } from './documentMatchingService';
+import type { DocumentLines } from './documentMatchingService';
+import { applyTolerance } from './toleranceService';
+
+/**
+ * Goods reconciliation of one supplier: documents are paired first, the local matching engine
+ * settles the line pairs it is sure about, and only the rest is sent to the AI.
+ * `onPreliminary` receives the engine's result, with placeholders for the lines still with the AI.
+ */
+export const runGoodsReconciliation = async (
+    supplierRecords: ReconciliationRecord[],
+    systemRecords: ReconciliationRecord[],
+    mappings: ExistingMapping[],
+    tolerances: ToleranceSettings,
+    onPreliminary?: (result: ReconciliationResult) => void
+): Promise<ReconciliationResult> => {
+    // 1. Bring each document onto the pre-tax basis Wecare uses and look up existing mappings by normalized name, as they are saved.
+    const mappingMap = new Map<string, string>(mappings.map(m => [normalizeVietnamese(m.crdfd_supplier_product_name), m.crdfd_product_name]));
+    const mappingByName = new Map<string, ExistingMapping>(mappings.map(m => [normalizeVietnamese(m.crdfd_supplier_product_name), m]));
+    // Mapped products invoiced in another unit (thùng vs cái) are converted into the Wecare unit first.
+    const toSystemUnit = (item: ProductItem) => {
+        const mapping = mappingByName.get(normalizeVietnamese(item.name));
+        return mapping?.crdfd_conversion_factor
+            ? applyUnitConversion(item, mapping.crdfd_conversion_factor, mapping.crdfd_unit ?? undefined)
+            : item;
+    };
+    const supplierDocuments: DocumentLines[] = supplierRecords.map(record => ({
+        id: record.id,
+        date: record.date,
+        items: ((record.items && record.items.length > 0)
+            ? record.items
+            : [{ name: record.description, quantity: 1, unitPrice: record.amount, totalPrice: record.amount }]
+        ).map(toNetBasis).map(toSystemUnit),
+    }));
+    const systemDocuments: DocumentLines[] = systemRecords.map(record => ({
+        id: record.id,
+        date: record.date,
+        items: (record.items || []).map(toNetBasis),
+    }));
+    const allSupplierItems = supplierDocuments.flatMap(doc => doc.items);
+
+    // 2. Pre-processing: pair documents by number, date and total, then let the local matching
+    // engine settle every line pair it is sure about, inside each document first.
+    const documentPairs = matchDocuments(supplierDocuments, systemDocuments, tolerances);
+    const {
+        settledItems: preProcessedItems,
+        unmatchedSupplierItems: itemsForAI_Supplier,
+        unmatchedSystemItems: itemsForAI_System,
+    } = matchWithinDocuments(documentPairs, { mappings: mappingMap, tolerances });
+
+    // 3. Report the pre-processed results with placeholders for the AI.
+    const totalSupplierAmount = allSupplierItems.reduce((sum, item) => sum + item.totalPrice, 0);
+    const preProcessedSystemAmount = preProcessedItems.reduce((sum, item) => sum + sumTotals(item.systemItems), 0);
+
+    const aiProcessingPlaceholders: ComparedItem[] = itemsForAI_Supplier.map(item => ({
+        status: ComparisonStatus.PROCESSING,
+        supplierItems: [item],
+        systemItems: [],
+        details: 'Đang chờ AI phân tích...'
+    }));
+
+    onPreliminary?.({
+        summary: 'Đang xử lý... Kết quả sơ bộ từ so khớp tự động. Chờ AI hoàn tất...',
+        totalSupplierAmount,
+        totalSystemAmount: preProcessedSystemAmount,
+        difference: totalSupplierAmount - preProcessedSystemAmount,
+        comparedItems: [...preProcessedItems, ...aiProcessingPlaceholders]
+    });
+
+    // 4. Call AI with only the remaining, unmapped items.
+    let aiResult: ReconciliationResult = {
+        summary: 'Không có dữ liệu cần AI xử lý.',
+        totalSupplierAmount: 0,
+        totalSystemAmount: 0,
+        difference: 0,
+        comparedItems: []
+    };
+
+    if (itemsForAI_Supplier.length > 0) {
+        const supplierRecordsForAI: ReconciliationRecord[] = [{ id: 'unmatched-sup', amount: 0, description: '', items: itemsForAI_Supplier }];
+        const systemRecordsForAI: ReconciliationRecord[] = [{ id: 'unmatched-sys', amount: 0, description: '', items: itemsForAI_System }];
+        aiResult = await reconcileData(supplierRecordsForAI, systemRecordsForAI, tolerances);
+    }
+
+    // 5. Combine final results.
+    // The AI is told the tolerances, but its verdicts are re-checked with the same rules as the engine.
+    const aiComparedItems = aiResult.comparedItems.map(item => applyTolerance(item, tolerances));
+    const matchedItems = [...preProcessedItems, ...aiComparedItems];
+    // Wecare lines nobody claimed are goods booked but never invoiced by the supplier.
+    const systemOnlyItems = buildSystemOnlyItems(itemsForAI_System, aiComparedItems);
+    const finalComparedItems = [...matchedItems, ...systemOnlyItems];
+    const groupedCount = matchedItems.filter(isGroupedRow).length;
+    const { comparedItems: itemsByDocument, documents } = summarizeDocuments(documentPairs, finalComparedItems, tolerances);
+    const pairedDocumentCount = documentPairs.filter(pair => pair.supplier && pair.system).length;
+    const finalSummary = [
+        `Đã ghép ${pairedDocumentCount}/${supplierDocuments.length} chứng từ NCC với chứng từ Wecare.`,
+        preProcessedItems.length > 0 ? `Đã tự động xử lý ${preProcessedItems.length} sản phẩm dựa trên mapping đã lưu và so khớp tên, số lượng, đơn giá.` : '',
+        groupedCount > 0 ? `Trong đó ${groupedCount} dòng được so khớp theo nhóm (tách/gộp dòng hàng).` : '',
+        aiResult.summary,
+        systemOnlyItems.length > 0 ? `Có ${systemOnlyItems.length} dòng hàng trên Wecare không có trong chứng từ NCC.` : '',
+    ].filter(Boolean).join(' ');
+    const finalSystemAmount = finalComparedItems.reduce((sum, item) => sum + sumTotals(item.systemItems), 0);
+
+    return {
+        summary: finalSummary.trim(),
+        totalSupplierAmount,
+        totalSystemAmount: finalSystemAmount,
+        difference: totalSupplierAmount - finalSystemAmount,
+        comparedItems: itemsByDocument,
+        documents
+    };
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { ProductItem, ReconciliationRecord } from '../types';
+import { updateItemField, splitItem, mergeItemWithNext, getMergeBlocker } from './recordEditService';
+import { toNetBasis } from './taxService';
+
+/** A line read from an invoice with its VAT amounts: 10 × 1 100 including 10% VAT. */
+const grossLine: ProductItem = {
+    name: 'Bulong inox M8',
+    quantity: 10,
+    unitPrice: 1100,
+    totalPrice: 11000,
+    vatRate: 10,
+    priceIncludesVat: true,
+    netAmount: 10000,
+    taxAmount: 1000,
+    grossAmount: 11000,
+};
+
+const records = (item: ProductItem): ReconciliationRecord[] =>
+    [{ id: 'HD001', date: '2025-09-05', description: 'Chứng từ HD001', amount: item.totalPrice, items: [item] }];
+
+describe('updateItemField', () => {
+    it('compares an edited quantity on the new total, not the net amount read with the line', () => {
+        const [record] = updateItemField(records(grossLine), 0, 0, 'quantity', 20);
+        const net = toNetBasis(record.items![0]);
+        expect(net.totalPrice).toBeCloseTo(20000);
+        expect(net.taxAmount).toBeCloseTo(2000);
+        expect(record.amount).toBe(22000);
+    });
+
+    it('works VAT out again from an edited total', () => {
+        const [record] = updateItemField(records(grossLine), 0, 0, 'totalPrice', 5500);
+        expect(toNetBasis(record.items![0]).totalPrice).toBeCloseTo(5000);
+    });
+
+    it('keeps the amounts read with the line when only the name changes', () => {
+        const [record] = updateItemField(records(grossLine), 0, 0, 'name', 'Bu lông inox M8');
+        expect(record.items![0]).toMatchObject({ name: 'Bu lông inox M8', netAmount: 10000, grossAmount: 11000 });
+    });
+});
+
+describe('splitItem', () => {
+    it('divides the net amount between the halves instead of copying it', () => {
+        const [record] = splitItem(records(grossLine), 0, 0);
+        const halves = record.items!.map(toNetBasis);
+        expect(halves.map(item => item.quantity)).toEqual([5, 5]);
+        expect(halves.reduce((sum, item) => sum + item.totalPrice, 0)).toBeCloseTo(10000);
+    });
+});
+
+describe('mergeItemWithNext', () => {
+    const line = (quantity: number, overrides: Partial<ProductItem> = {}): ProductItem =>
+        ({ name: 'Bulong inox M8', quantity, unitPrice: 1100, totalPrice: quantity * 1100, unit: 'Cái', vatRate: 10, priceIncludesVat: true, ...overrides });
+    const twoLines = (second: ProductItem): ReconciliationRecord[] =>
+        [{ id: 'HD001', date: '2025-09-05', description: 'Chứng từ HD001', amount: 0, items: [line(4), second] }];
+
+    it('keeps the unit and VAT basis both lines share, so the merged line stays gross', () => {
+        const [record] = mergeItemWithNext(twoLines(line(6)), 0, 0);
+        expect(record.items).toHaveLength(1);
+        expect(record.items![0]).toMatchObject({ quantity: 10, totalPrice: 11000, unit: 'Cái', vatRate: 10, priceIncludesVat: true });
+        expect(toNetBasis(record.items![0]).totalPrice).toBeCloseTo(10000);
+    });
+
+    it('refuses lines with a different unit or VAT basis', () => {
+        const otherUnit = twoLines(line(6, { unit: 'Hộp' }));
+        expect(getMergeBlocker(line(4), line(6, { unit: 'Hộp' }))).not.toBeNull();
+        expect(mergeItemWithNext(otherUnit, 0, 0)).toBe(otherUnit);
+
+        expect(getMergeBlocker(line(4), line(6, { vatRate: 8 }))).not.toBeNull();
+        expect(getMergeBlocker(line(4), line(6, { priceIncludesVat: false }))).not.toBeNull();
+        expect(getMergeBlocker(line(4), line(6, { unit: ' cái ' }))).toBeNull();
+    });
+});
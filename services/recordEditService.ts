@@ -0,0 +1,146 @@
+import type { ReconciliationRecord, ProductItem } from '../types';
+
+/**
+ * Immutable edit operations behind the editable extracted-data table. Each returns a
+ * new record list; touched lines and records are flagged `manuallyEdited` and record
+ * amounts are kept equal to the sum of their lines.
+ */
+
+export type EditableItemField = 'name' | 'quantity' | 'unitPrice' | 'totalPrice';
+export type EditableRecordField = 'id' | 'date' | 'description' | 'amount';
+
+const withItems = (record: ReconciliationRecord, items: ProductItem[]): ReconciliationRecord => ({
+    ...record,
+    items,
+    amount: items.length > 0 ? items.reduce((sum, item) => sum + item.totalPrice, 0) : record.amount,
+});
+
+/**
+ * Forgets the net, tax and gross amounts read with a line. They win over the line total
+ * when the line is brought to a net basis, so once quantity, price or total change they
+ * must be worked out again from the new total and the VAT rate.
+ */
+const withoutTaxAmounts = (item: ProductItem): ProductItem =>
+    ({ ...item, netAmount: undefined, taxAmount: undefined, grossAmount: undefined });
+
+const replaceRecord = (records: ReconciliationRecord[], recordIndex: number, record: ReconciliationRecord) =>
+    records.map((r, i) => (i === recordIndex ? record : r));
+
+export const updateItemField = (
+    records: ReconciliationRecord[],
+    recordIndex: number,
+    itemIndex: number,
+    field: EditableItemField,
+    value: string | number
+): ReconciliationRecord[] => {
+    const record = records[recordIndex];
+    const items = (record.items ?? []).map((item, i) => {
+        if (i !== itemIndex) return item;
+        if (field === 'name') return { ...item, name: String(value), manuallyEdited: true };
+        const updated: ProductItem = withoutTaxAmounts({ ...item, [field]: value, manuallyEdited: true });
+        // Quantity and price drive the line total; an edited total is kept as typed.
+        if (field === 'quantity' || field === 'unitPrice') {
+            updated.totalPrice = updated.quantity * updated.unitPrice;
+        }
+        return updated;
+    });
+    return replaceRecord(records, recordIndex, withItems(record, items));
+};
+
+export const updateRecordField = (
+    records: ReconciliationRecord[],
+    recordIndex: number,
+    field: EditableRecordField,
+    value: string | number
+): ReconciliationRecord[] => {
+    const record = records[recordIndex];
+    return replaceRecord(records, recordIndex, { ...record, [field]: value, manuallyEdited: true });
+};
+
+/** Splits a line into two lines of the same product, dividing the quantity between them. */
+export const splitItem = (records: ReconciliationRecord[], recordIndex: number, itemIndex: number): ReconciliationRecord[] => {
+    const record = records[recordIndex];
+    const items = [...(record.items ?? [])];
+    const item = items[itemIndex];
+    const firstQuantity = Math.ceil(item.quantity / 2);
+    const secondQuantity = item.quantity - firstQuantity;
+    const first: ProductItem = withoutTaxAmounts({ ...item, quantity: firstQuantity, totalPrice: firstQuantity * item.unitPrice, manuallyEdited: true });
+    const second: ProductItem = withoutTaxAmounts({ ...item, quantity: secondQuantity, totalPrice: secondQuantity * item.unitPrice, manuallyEdited: true });
+    items.splice(itemIndex, 1, first, second);
+    return replaceRecord(records, recordIndex, withItems(record, items));
+};
+
+/**
+ * Why two lines cannot be merged, or null when they can. A merged line has one unit and
+ * one VAT basis, so both lines must agree on them.
+ */
+export const getMergeBlocker = (item: ProductItem, next: ProductItem): string | null => {
+    if ((item.unit ?? '').trim().toLowerCase() !== (next.unit ?? '').trim().toLowerCase()) {
+        return 'Hai dòng khác đơn vị tính.';
+    }
+    if ((item.vatRate ?? null) !== (next.vatRate ?? null) || Boolean(item.priceIncludesVat) !== Boolean(next.priceIncludesVat)) {
+        return 'Hai dòng khác thuế suất hoặc cách tính VAT.';
+    }
+    return null;
+};
+
+/** Merges a line with the line below it in the same record, adding up quantities and totals. */
+export const mergeItemWithNext = (records: ReconciliationRecord[], recordIndex: number, itemIndex: number): ReconciliationRecord[] => {
+    const record = records[recordIndex];
+    const items = [...(record.items ?? [])];
+    const item = items[itemIndex];
+    const next = items[itemIndex + 1];
+    if (!item || !next || getMergeBlocker(item, next)) return records;
+    const quantity = item.quantity + next.quantity;
+    const totalPrice = item.totalPrice + next.totalPrice;
+    const merged: ProductItem = {
+        name: item.name === next.name ? item.name : `${item.name} ${next.name}`,
+        quantity,
+        unitPrice: quantity !== 0 ? totalPrice / quantity : item.unitPrice,
+        totalPrice,
+        unit: item.unit,
+        vatRate: item.vatRate,
+        priceIncludesVat: item.priceIncludesVat,
+        manuallyEdited: true,
+    };
+    items.splice(itemIndex, 2, merged);
+    return replaceRecord(records, recordIndex, withItems(record, items));
+};
+
+/** Adds an empty line after `afterItemIndex`, or at the end of the record. */
+export const addItem = (records: ReconciliationRecord[], recordIndex: number, afterItemIndex?: number): ReconciliationRecord[] => {
+    const record = records[recordIndex];
+    const items = [...(record.items ?? [])];
+    // A record without lines is a single line described by its own fields; keep it as the first line.
+    if (items.length === 0) {
+        items.push({ name: record.description, quantity: 1, unitPrice: record.amount, totalPrice: record.amount });
+    }
+    const newItem: ProductItem = { name: 'Sản phẩm mới', quantity: 1, unitPrice: 0, totalPrice: 0, manuallyEdited: true };
+    items.splice(afterItemIndex === undefined ? items.length : afterItemIndex + 1, 0, newItem);
+    return replaceRecord(records, recordIndex, withItems(record, items));
+};
+
+export const deleteItem = (records: ReconciliationRecord[], recordIndex: number, itemIndex: number): ReconciliationRecord[] => {
+    const record = records[recordIndex];
+    const items = (record.items ?? []).filter((_, i) => i !== itemIndex);
+    if (items.length === 0) {
+        return deleteRecord(records, recordIndex);
+    }
+    return replaceRecord(records, recordIndex, { ...withItems(record, items), manuallyEdited: true });
+};
+
+export const addRecord = (records: ReconciliationRecord[]): ReconciliationRecord[] => {
+    const lastDate = records.length > 0 ? records[records.length - 1].date : undefined;
+    const newRecord: ReconciliationRecord = {
+        id: `CT-${records.length + 1}`,
+        date: lastDate,
+        description: 'Chứng từ nhập tay',
+        amount: 0,
+        items: [{ name: 'Sản phẩm mới', quantity: 1, unitPrice: 0, totalPrice: 0, manuallyEdited: true }],
+        manuallyEdited: true,
+    };
+    return [...records, newRecord];
+};
+
+export const deleteRecord = (records: ReconciliationRecord[], recordIndex: number): ReconciliationRecord[] =>
+    records.filter((_, i) => i !== recordIndex);
@@ -0,0 +1,144 @@
+import type { ComparedItem, LedgerComparison } from '../types';
+import { ComparisonStatus } from '../types';
+import { aggregateItems, sumTotals } from './groupService';
+import { normalizeVietnamese } from './matchingService';
+import { signedAmount } from './statementService';
+
+/**
+ * Filtering and sorting for the result table and the statement ledger. Rows
+ * keep their position in `comparedItems` (or `statement.rows`) as `index`, so
+ * STT and exports refer to the same line whatever the current view.
+ */
+
+export type ResultSortKey = 'difference' | 'supplierQuantity' | 'supplierPrice' | 'systemQuantity' | 'systemPrice';
+
+export interface ResultFilter {
+    /** Statuses to show; empty shows every status. */
+    statuses: ComparisonStatus[];
+    search: string;
+    onlyDiscrepancies: boolean;
+}
+
+export interface ResultSort {
+    key: ResultSortKey | null;
+    direction: 'asc' | 'desc';
+}
+
+export interface IndexedItem {
+    item: ComparedItem;
+    index: number;
+}
+
+export interface IndexedLedgerRow {
+    row: LedgerComparison;
+    index: number;
+}
+
+export const EMPTY_RESULT_FILTER: ResultFilter = { statuses: [], search: '', onlyDiscrepancies: false };
+
+export const SORT_LABELS: Record<ResultSortKey, string> = {
+    difference: 'Chênh lệch tiền',
+    supplierQuantity: 'SL (NCC)',
+    supplierPrice: 'Đơn giá (NCC)',
+    systemQuantity: 'SL (Wecare)',
+    systemPrice: 'Đơn giá (Wecare)',
+};
+
+/** Supplier minus Wecare amount for a row; a one-sided row counts its whole amount. */
+export const lineDifference = (item: ComparedItem): number => sumTotals(item.supplierItems) - sumTotals(item.systemItems);
+
+export const isFilterActive = (filter: ResultFilter): boolean =>
+    filter.statuses.length > 0 || filter.search.trim() !== '' || filter.onlyDiscrepancies;
+
+export const countByStatus = (items: { status: ComparisonStatus }[]): Record<string, number> =>
+    items.reduce<Record<string, number>>((counts, item) => {
+        counts[item.status] = (counts[item.status] ?? 0) + 1;
+        return counts;
+    }, {});
+
+const matchesSearch = (texts: string[], terms: string[]): boolean => {
+    if (terms.length === 0) return true;
+    const haystack = normalizeVietnamese(texts.join(' '));
+    return terms.every(term => haystack.includes(term));
+};
+
+// Diacritics are ignored so "cổ dê" and "co de" find the same lines.
+const searchTerms = (filter: ResultFilter): string[] => normalizeVietnamese(filter.search).split(' ').filter(Boolean);
+
+const matchesStatus = (status: ComparisonStatus, filter: ResultFilter): boolean =>
+    (filter.statuses.length === 0 || filter.statuses.includes(status))
+    && (!filter.onlyDiscrepancies || status !== ComparisonStatus.MATCHED);
+
+export const filterItems = (items: ComparedItem[], filter: ResultFilter): IndexedItem[] => {
+    const terms = searchTerms(filter);
+    return items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) =>
+            matchesStatus(item.status, filter)
+            && matchesSearch([...item.supplierItems, ...item.systemItems].map(line => line.name), terms)
+        );
+};
+
+/** Supplier minus Wecare amount of a ledger row; a one-sided row counts its whole amount. */
+export const ledgerRowDifference = (row: LedgerComparison): number =>
+    (row.supplierEntry ? signedAmount(row.supplierEntry) : 0) - (row.systemEntry ? signedAmount(row.systemEntry) : 0);
+
+/** Same filter for statement rows, searching the document numbers and descriptions of both sides. */
+export const filterLedgerRows = (rows: LedgerComparison[], filter: ResultFilter): IndexedLedgerRow[] => {
+    const terms = searchTerms(filter);
+    return rows
+        .map((row, index) => ({ row, index }))
+        .filter(({ row }) =>
+            matchesStatus(row.status, filter)
+            && matchesSearch(
+                [row.supplierEntry, row.systemEntry].flatMap(entry => entry ? [entry.id, entry.description] : []),
+                terms,
+            )
+        );
+};
+
+const sortValue = (item: ComparedItem, key: ResultSortKey): number | null => {
+    switch (key) {
+        // The size of a difference matters more than its sign when hunting for problems.
+        case 'difference': return Math.abs(lineDifference(item));
+        case 'supplierQuantity': return aggregateItems(item.supplierItems)?.quantity ?? null;
+        case 'supplierPrice': return aggregateItems(item.supplierItems)?.unitPrice ?? null;
+        case 'systemQuantity': return aggregateItems(item.systemItems)?.quantity ?? null;
+        case 'systemPrice': return aggregateItems(item.systemItems)?.unitPrice ?? null;
+    }
+};
+
+/** Stable sort; rows without a value for the key (an empty side) always go last. */
+export const sortItems = (rows: IndexedItem[], sort: ResultSort): IndexedItem[] => {
+    const { key, direction } = sort;
+    if (!key) return rows;
+    const factor = direction === 'asc' ? 1 : -1;
+    return rows
+        .map(row => ({ row, value: sortValue(row.item, key) }))
+        .sort((a, b) => {
+            if (a.value === null || b.value === null) {
+                return a.value === b.value ? a.row.index - b.row.index : a.value === null ? 1 : -1;
+            }
+            return (a.value - b.value) * factor || a.row.index - b.row.index;
+        })
+        .map(({ row }) => row);
+};
+
+/** Statement rows only sort by their difference; other keys keep the ledger order. */
+export const sortLedgerRows = (rows: IndexedLedgerRow[], sort: ResultSort): IndexedLedgerRow[] => {
+    if (sort.key !== 'difference') return rows;
+    const factor = sort.direction === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) =>
+        (Math.abs(ledgerRowDifference(a.row)) - Math.abs(ledgerRowDifference(b.row))) * factor || a.index - b.index
+    );
+};
+
+/** Short description of an active filter, written into exports made from a filtered view. */
+export const describeFilter = (filter: ResultFilter, sort: ResultSort): string => {
+    const parts: string[] = [];
+    if (filter.statuses.length > 0) parts.push(`Trạng thái: ${filter.statuses.join(', ')}`);
+    if (filter.onlyDiscrepancies) parts.push('Chỉ dòng chênh lệch');
+    if (filter.search.trim()) parts.push(`Tìm: "${filter.search.trim()}"`);
+    if (sort.key) parts.push(`Sắp xếp: ${SORT_LABELS[sort.key]} ${sort.direction === 'asc' ? 'tăng dần' : 'giảm dần'}`);
+    return parts.join('; ');
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { ComparedItem, ProductItem, ReconciliationResult } from '../types';
+import { ComparisonStatus } from '../types';
+import { reviewLine, withReviewedItems } from './reviewService';
+import { DEFAULT_TOLERANCES } from './toleranceService';
+
+const item = (name: string, quantity: number, unitPrice: number): ProductItem =>
+    ({ name, quantity, unitPrice, totalPrice: quantity * unitPrice });
+
+const keo = item('Keo dán sắt', 10, 200);
+const bulong = item('Bulong inox M8', 10, 1000);
+const vit = item('Vít đen 3 phân', 100, 50);
+
+/** A Wecare-only row before a matched pair and a supplier-only row, so pairing reaches back. */
+const rows = (): ComparedItem[] => [
+    { status: ComparisonStatus.SYSTEM_ONLY, supplierItems: [], systemItems: [keo], details: '' },
+    { status: ComparisonStatus.MATCHED, supplierItems: [bulong], systemItems: [bulong], details: '' },
+    { status: ComparisonStatus.SUPPLIER_ONLY, supplierItems: [keo], systemItems: [], details: '', note: 'Hàng về trễ' },
+];
+
+describe('reviewLine', () => {
+    it('unpairs a row into a supplier-only row in place and a Wecare-only row at the end', () => {
+        const result = reviewLine(rows(), 1, { unpair: true }, DEFAULT_TOLERANCES);
+        expect(result.map(row => row.status)).toEqual([
+            ComparisonStatus.SYSTEM_ONLY,
+            ComparisonStatus.SUPPLIER_ONLY,
+            ComparisonStatus.SUPPLIER_ONLY,
+            ComparisonStatus.SYSTEM_ONLY,
+        ]);
+        expect(result[1]).toMatchObject({ supplierItems: [bulong], systemItems: [], manuallyPaired: true });
+        expect(result[3]).toMatchObject({ supplierItems: [], systemItems: [bulong], manuallyPaired: true });
+    });
+
+    it('pairs with a Wecare-only row above and applies the rest of the changes to the moved row', () => {
+        const result = reviewLine(rows(), 2, { systemIndex: 0, note: 'Đã kiểm tra' }, DEFAULT_TOLERANCES);
+        expect(result).toHaveLength(2);
+        expect(result[0].supplierItems).toEqual([bulong]);
+        expect(result[1]).toMatchObject({
+            status: ComparisonStatus.MATCHED,
+            supplierItems: [keo],
+            systemItems: [keo],
+            matchReason: 'Ghép thủ công',
+            manuallyPaired: true,
+            note: 'Đã kiểm tra',
+        });
+        expect(result[0].note).toBeUndefined();
+    });
+
+    it('judges a manual pair with the tolerances', () => {
+        const items: ComparedItem[] = [
+            { status: ComparisonStatus.SUPPLIER_ONLY, supplierItems: [vit], systemItems: [], details: '' },
+            { status: ComparisonStatus.SYSTEM_ONLY, supplierItems: [], systemItems: [item('Vít đen 3 phân', 90, 50)], details: '' },
+        ];
+        const [paired] = reviewLine(items, 0, { systemIndex: 1 }, DEFAULT_TOLERANCES);
+        expect(paired.status).toBe(ComparisonStatus.DISCREPANCY);
+        expect(paired.details).not.toBe('');
+    });
+
+    it('needs a reason to override a status, and clears the override when the original status is put back', () => {
+        expect(() => reviewLine(rows(), 1, { status: ComparisonStatus.DISCREPANCY, reason: '  ' }, DEFAULT_TOLERANCES))
+            .toThrow('Vui lòng nhập lý do khi thay đổi trạng thái.');
+
+        const overridden = reviewLine(rows(), 1, { status: ComparisonStatus.DISCREPANCY, reason: ' Giá chưa duyệt ' }, DEFAULT_TOLERANCES);
+        expect(overridden[1].status).toBe(ComparisonStatus.DISCREPANCY);
+        expect(overridden[1].statusOverride).toEqual({ originalStatus: ComparisonStatus.MATCHED, reason: 'Giá chưa duyệt' });
+
+        const restored = reviewLine(overridden, 1, { status: ComparisonStatus.MATCHED }, DEFAULT_TOLERANCES);
+        expect(restored[1].status).toBe(ComparisonStatus.MATCHED);
+        expect(restored[1].statusOverride).toBeUndefined();
+    });
+});
+
+describe('withReviewedItems', () => {
+    it('recomputes the totals and forgets the copy saved to Dynamics', () => {
+        const saved: ReconciliationResult = {
+            summary: '',
+            totalSupplierAmount: 0,
+            totalSystemAmount: 0,
+            difference: 0,
+            comparedItems: rows(),
+            dynamicsRecordId: '00000000-0000-0000-0000-000000000001',
+        };
+        const reviewed = withReviewedItems(saved, reviewLine(saved.comparedItems, 1, { unpair: true }, DEFAULT_TOLERANCES));
+        expect(reviewed.dynamicsRecordId).toBeUndefined();
+        expect(reviewed.totalSupplierAmount).toBe(bulong.totalPrice + keo.totalPrice);
+        expect(reviewed.totalSystemAmount).toBe(keo.totalPrice + bulong.totalPrice);
+        expect(reviewed.difference).toBe(0);
+    });
+});
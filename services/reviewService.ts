@@ -0,0 +1,144 @@
+import type { ComparedItem, ReconciliationResult, ToleranceSettings } from '../types';
+import { ComparisonStatus } from '../types';
+import { aggregateItems, sumTotals } from './groupService';
+import { compareWithinTolerance, describeDeviation, describeDiscrepancy } from './toleranceService';
+
+/**
+ * Immutable review operations on the result lines. Each returns a new list; rows a
+ * reviewer touched carry `manuallyPaired`, `statusOverride` or `note` so the change
+ * stays visible in the table and in every export.
+ */
+
+export interface LineReviewChanges {
+    /** Releases the row's Wecare lines back to the unmatched pool. */
+    unpair?: boolean;
+    /** Index of a 'Chỉ có ở Wecare' row whose lines should be paired with this row. */
+    systemIndex?: number;
+    /** New status; needs `reason` unless it puts back the original status. */
+    status?: ComparisonStatus;
+    reason?: string;
+    note?: string;
+}
+
+const UNPAIRED_DETAILS = 'Đã bỏ ghép thủ công.';
+const SYSTEM_ONLY_DETAILS = 'Hàng đã ghi nhận trên Wecare nhưng không có trong chứng từ NCC.';
+
+/** Rows whose Wecare lines are free to be paired: 'Chỉ có ở Wecare' rows. */
+export const findUnmatchedSystemRows = (items: ComparedItem[]): { item: ComparedItem; index: number }[] =>
+    items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.status === ComparisonStatus.SYSTEM_ONLY && item.supplierItems.length === 0);
+
+const unpair = (items: ComparedItem[], index: number): ComparedItem[] => {
+    const item = items[index];
+    if (item.supplierItems.length === 0 || item.systemItems.length === 0) return items;
+    const supplierRow: ComparedItem = {
+        status: ComparisonStatus.SUPPLIER_ONLY,
+        supplierItems: item.supplierItems,
+        systemItems: [],
+        details: UNPAIRED_DETAILS,
+        documentKey: item.documentKey,
+        manuallyPaired: true,
+        note: item.note,
+    };
+    const systemRow: ComparedItem = {
+        status: ComparisonStatus.SYSTEM_ONLY,
+        supplierItems: [],
+        systemItems: item.systemItems,
+        details: SYSTEM_ONLY_DETAILS,
+        documentKey: item.documentKey,
+        manuallyPaired: true,
+    };
+    return [...items.slice(0, index), supplierRow, ...items.slice(index + 1), systemRow];
+};
+
+/** Pairs the row with the lines of a 'Chỉ có ở Wecare' row and judges the pair with the supplier's tolerances. */
+const pair = (items: ComparedItem[], index: number, systemIndex: number, tolerances: ToleranceSettings): ComparedItem[] => {
+    const target = items[index];
+    const source = items[systemIndex];
+    const supplierItem = aggregateItems(target.supplierItems);
+    const systemItem = aggregateItems(source.systemItems);
+    if (!supplierItem || !systemItem) return items;
+
+    const { isMatch, isExact, deviation } = compareWithinTolerance(supplierItem, systemItem, tolerances);
+    const paired: ComparedItem = {
+        status: isMatch ? ComparisonStatus.MATCHED : ComparisonStatus.DISCREPANCY,
+        supplierItems: target.supplierItems,
+        systemItems: source.systemItems,
+        details: isMatch ? (isExact ? '' : describeDeviation(deviation)) : describeDiscrepancy(supplierItem, systemItem),
+        matchReason: 'Ghép thủ công',
+        toleranceDeviation: isMatch && !isExact ? deviation : undefined,
+        documentKey: target.documentKey ?? source.documentKey,
+        manuallyPaired: true,
+        note: target.note,
+    };
+    return items
+        .map((item, i) => (i === index ? paired : item))
+        .filter((_, i) => i !== systemIndex);
+};
+
+const overrideStatus = (item: ComparedItem, status: ComparisonStatus, reason: string): ComparedItem => {
+    const originalStatus = item.statusOverride?.originalStatus ?? item.status;
+    if (status === originalStatus) {
+        return { ...item, status, statusOverride: undefined };
+    }
+    if (!reason.trim()) {
+        throw new Error('Vui lòng nhập lý do khi thay đổi trạng thái.');
+    }
+    return { ...item, status, statusOverride: { originalStatus, reason: reason.trim() } };
+};
+
+/**
+ * Applies a reviewer's changes to one row, in order: unpair, pair, status, note.
+ * Pairing replaces any earlier status override, which referred to the old pair.
+ */
+export const reviewLine = (
+    items: ComparedItem[],
+    index: number,
+    changes: LineReviewChanges,
+    tolerances: ToleranceSettings
+): ComparedItem[] => {
+    let result = items;
+    let rowIndex = index;
+
+    if (changes.unpair || changes.systemIndex !== undefined) {
+        result = unpair(result, rowIndex);
+    }
+    if (changes.systemIndex !== undefined) {
+        // Unpairing appended the released lines at the end, after every index the caller knows.
+        result = pair(result, rowIndex, changes.systemIndex, tolerances);
+        if (changes.systemIndex < rowIndex) rowIndex -= 1;
+    }
+    const current = result[rowIndex];
+    if (changes.status !== undefined && (changes.status !== current.status || current.statusOverride)) {
+        result = result.map((item, i) => (i === rowIndex ? overrideStatus(item, changes.status!, changes.reason ?? '') : item));
+    }
+    if (changes.note !== undefined) {
+        const note = changes.note.trim() || undefined;
+        result = result.map((item, i) => (i === rowIndex ? { ...item, note } : item));
+    }
+    return result;
+};
+
+/**
+ * The result with new lines and totals recomputed from them. A copy saved to Dynamics no
+ * longer matches the reviewed lines, so the result can be saved again.
+ */
+export const withReviewedItems = (result: ReconciliationResult, comparedItems: ComparedItem[]): ReconciliationResult => {
+    const totalSupplierAmount = comparedItems.reduce((sum, item) => sum + sumTotals(item.supplierItems), 0);
+    const totalSystemAmount = comparedItems.reduce((sum, item) => sum + sumTotals(item.systemItems), 0);
+    return {
+        ...result,
+        dynamicsRecordId: undefined,
+        comparedItems,
+        totalSupplierAmount,
+        totalSystemAmount,
+        difference: totalSupplierAmount - totalSystemAmount,
+    };
+};
+
+/** Difference still to be explained: the amounts of every row that is not matched. */
+export const openDifference = (items: ComparedItem[]): number =>
+    items
+        .filter(item => item.status !== ComparisonStatus.MATCHED)
+        .reduce((sum, item) => sum + sumTotals(item.supplierItems) - sumTotals(item.systemItems), 0);
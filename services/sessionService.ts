@@ -0,0 +1,87 @@
+import type { ReconciliationSession, SessionFileInfo } from '../types';
+
+const DB_NAME = 'debtReconciliation';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('Trình duyệt không hỗ trợ IndexedDB.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+                store.createIndex('supplierId', 'supplierId', { unique: false });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(new Error(`Không mở được cơ sở dữ liệu lịch sử: ${request.error?.message ?? 'lỗi không xác định'}`));
+        });
+        // A failed open is retried on the next call instead of being cached.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/** Runs one request against the sessions store and resolves with its result. */
+const runRequest = async <T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE, mode);
+        const request = createRequest(transaction.objectStore(STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(new Error(`Lỗi khi truy cập lịch sử đối chiếu: ${transaction.error?.message ?? 'lỗi không xác định'}`));
+    });
+};
+
+export const toFileInfo = (file: File): SessionFileInfo => ({
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+});
+
+export const saveSession = async (session: ReconciliationSession): Promise<void> => {
+    await runRequest('readwrite', store => store.put(session));
+};
+
+export const getSession = (id: string): Promise<ReconciliationSession | undefined> =>
+    runRequest('readonly', store => store.get(id) as IDBRequest<ReconciliationSession | undefined>);
+
+/** Lists sessions, newest first; all suppliers when no supplier ID is given. */
+export const listSessions = async (supplierId?: string): Promise<ReconciliationSession[]> => {
+    const sessions = await runRequest('readonly', store =>
+        (supplierId ? store.index('supplierId').getAll(supplierId) : store.getAll()) as IDBRequest<ReconciliationSession[]>
+    );
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Copies a session under a new ID, keeping its data but not its result, so the copy
+ * can be edited and reconciled again without touching the original.
+ */
+export const duplicateSession = async (id: string): Promise<ReconciliationSession> => {
+    const original = await getSession(id);
+    if (!original) {
+        throw new Error('Không tìm thấy phiên đối chiếu cần nhân bản.');
+    }
+    const now = new Date().toISOString();
+    const copy: ReconciliationSession = {
+        ...original,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        result: null,
+        timings: { ...original.timings, reconciliationSeconds: null },
+    };
+    await saveSession(copy);
+    return copy;
+};
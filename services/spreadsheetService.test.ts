@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, rowsToCsv, parseSheetDate } from './spreadsheetService';
+
+describe('parseCsv', () => {
+    it('reads quoted fields, doubled quotes and line breaks inside quotes', () => {
+        expect(parseCsv('\uFEFFTên hàng,Số lượng\r\n"Vít ""đen"", 3 phân",10\n"Keo\ndán",2\n')).toEqual([
+            ['Tên hàng', 'Số lượng'],
+            ['Vít "đen", 3 phân', '10'],
+            ['Keo\ndán', '2'],
+        ]);
+    });
+
+    it('guesses a semicolon delimiter from the header line', () => {
+        expect(parseCsv('Tên hàng;Đơn giá\nBulong;1.234,5')).toEqual([['Tên hàng', 'Đơn giá'], ['Bulong', '1.234,5']]);
+    });
+});
+
+describe('rowsToCsv', () => {
+    it('quotes only values that need it and leaves out blank rows', () => {
+        expect(rowsToCsv([['Vít, đen', 10, null], [null, ''], ['Keo "502"', 2.5, '2025-09-05']]))
+            .toBe('"Vít, đen",10,\n"Keo ""502""",2.5,2025-09-05');
+    });
+});
+
+describe('parseSheetDate', () => {
+    it('reads Excel serial day numbers and day-first text dates', () => {
+        expect(parseSheetDate(45905)).toBe('2025-09-05');
+        expect(parseSheetDate('05/09/2025')).toBe('2025-09-05');
+        expect(parseSheetDate('2025-09-05')).toBe('2025-09-05');
+    });
+});
@@ -0,0 +1,391 @@
+import { Workbook } from 'exceljs';
+import type { CellValue } from 'exceljs';
+import type { ReconciliationRecord, ProductItem, ColumnMappingTemplate, SpreadsheetField } from '../types';
+import { normalizeVietnamese } from './matchingService';
+
+const TEMPLATE_STORAGE_KEY = 'columnTemplates';
+
+/** How many rows from the top of a sheet are searched for the header row. */
+const HEADER_SEARCH_ROWS = 30;
+
+export const SPREADSHEET_FIELD_LABELS: Record<SpreadsheetField, string> = {
+    product: 'Sản phẩm',
+    spec: 'Quy cách',
+    unit: 'Đơn vị tính',
+    quantity: 'Số lượng',
+    unitPrice: 'Đơn giá',
+    amount: 'Thành tiền',
+    vatRate: 'Thuế suất GTGT',
+    date: 'Ngày',
+    documentNumber: 'Số chứng từ',
+};
+
+/** Normalized header spellings recognized when a supplier has no saved template yet. */
+const FIELD_ALIASES: Record<SpreadsheetField, string[]> = {
+    product: ['ten hang', 'ten hang hoa', 'ten san pham', 'ten vat tu', 'mat hang', 'san pham', 'hang hoa', 'vat tu', 'dien giai'],
+    spec: ['quy cach', 'mo ta', 'kich thuoc', 'thong so'],
+    unit: ['dvt', 'don vi tinh', 'don vi'],
+    quantity: ['so luong', 'sl'],
+    unitPrice: ['don gia', 'dg', 'gia ban', 'gia'],
+    amount: ['thanh tien', 'so tien', 'tong tien', 'gia tri', 'tien hang'],
+    vatRate: ['thue suat', 'ts gtgt', 'vat'],
+    date: ['ngay chung tu', 'ngay hoa don', 'ngay hd', 'ngay ct', 'ngay'],
+    documentNumber: ['so chung tu', 'so hoa don', 'so hd', 'so ct', 'ma chung tu', 'chung tu', 'so phieu'],
+};
+
+const TOTAL_ROW_PATTERN = /^(tong cong|tong|cong|cong tien hang|tong tien)( |$)/;
+
+export const isSpreadsheetFile = (file: File): boolean => /\.(xlsx|csv)$/i.test(file.name);
+
+export const loadColumnTemplate = (supplierId: string): ColumnMappingTemplate | null => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) || '{}');
+        return stored[supplierId] ?? null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const saveColumnTemplate = (supplierId: string, template: ColumnMappingTemplate): void => {
+    let stored: Record<string, ColumnMappingTemplate> = {};
+    try {
+        stored = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) || '{}');
+    } catch (e) {
+        // Corrupted storage is overwritten below.
+    }
+    stored[supplierId] = template;
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(stored));
+};
+
+/**
+ * Parses a number as written in Vietnamese or English statements:
+ * "1.234.567", "1,234,567", "1.234,5" and "12,5" are all understood.
+ */
+export const parseLocaleNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    let text = value.replace(/[\s₫đ%]|VNĐ|VND/gi, '');
+    if (!text) return null;
+    const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+    text = text.replace(/[()\-+]/g, '');
+    if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(text)) {
+        text = text.replace(/\./g, '').replace(',', '.');
+    } else if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+        text = text.replace(/,/g, '');
+    } else {
+        text = text.replace(',', '.');
+    }
+    const parsed = Number(text);
+    if (isNaN(parsed)) return null;
+    return negative ? -parsed : parsed;
+};
+
+/** Days from Excel's day zero (1899-12-30) to 1970-01-01. */
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toIsoDate = (date: Date): string => {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
+
+/** Reads a date cell as "YYYY-MM-DD"; text dates are read day-first (dd/mm/yyyy). */
+export const parseSheetDate = (value: unknown): string | undefined => {
+    if (value instanceof Date) return isNaN(value.getTime()) ? undefined : toIsoDate(value);
+    if (typeof value === 'number') {
+        // A date column without date formatting holds Excel's serial day number.
+        if (value < 1) return undefined;
+        const date = new Date(Math.round((value - EXCEL_EPOCH_OFFSET_DAYS) * DAY_MS));
+        return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+    }
+    if (typeof value !== 'string') return undefined;
+    const text = value.trim();
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+    const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+    if (dayFirst) {
+        const year = dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3];
+        return `${year}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+    }
+    return undefined;
+};
+
+const cellText = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return toIsoDate(value);
+    return String(value).trim();
+};
+
+type ColumnIndexes = Partial<Record<SpreadsheetField, number>>;
+
+/**
+ * Finds the field a header cell stands for. The longest matching alias wins, so
+ * "Giá trị" is read as an amount rather than a price. Also returns the alias's
+ * position in its list, so "Tên hàng" outranks "Diễn giải" when a sheet has both.
+ */
+const matchHeaderByAliases = (header: string): { field: SpreadsheetField; rank: number } | null => {
+    const normalized = normalizeVietnamese(header);
+    if (!normalized) return null;
+    let best: { field: SpreadsheetField; rank: number; length: number } | null = null;
+    for (const field of Object.keys(FIELD_ALIASES) as SpreadsheetField[]) {
+        FIELD_ALIASES[field].forEach((alias, rank) => {
+            const isMatch = normalized === alias || normalized.startsWith(`${alias} `);
+            if (isMatch && (!best || alias.length > best.length)) {
+                best = { field, rank, length: alias.length };
+            }
+        });
+    }
+    return best;
+};
+
+const detectColumns = (row: unknown[], template: ColumnMappingTemplate | null): ColumnIndexes => {
+    const columns: ColumnIndexes = {};
+    if (template) {
+        const wanted = Object.entries(template.columns)
+            .filter(([, label]) => label)
+            .map(([field, label]) => [field as SpreadsheetField, normalizeVietnamese(label!)] as const);
+        row.forEach((cell, index) => {
+            const normalized = normalizeVietnamese(cellText(cell));
+            wanted.forEach(([field, label]) => {
+                if (normalized === label && columns[field] === undefined) columns[field] = index;
+            });
+        });
+        return columns;
+    }
+    const ranks: Partial<Record<SpreadsheetField, number>> = {};
+    row.forEach((cell, index) => {
+        const match = matchHeaderByAliases(cellText(cell));
+        if (!match) return;
+        const currentRank = ranks[match.field];
+        if (currentRank === undefined || match.rank < currentRank) {
+            columns[match.field] = index;
+            ranks[match.field] = match.rank;
+        }
+    });
+    return columns;
+};
+
+const isUsableLayout = (columns: ColumnIndexes) =>
+    columns.product !== undefined && (columns.quantity !== undefined || columns.amount !== undefined);
+
+interface SheetLayout {
+    headerRowIndex: number;
+    columns: ColumnIndexes;
+}
+
+const findLayout = (rows: unknown[][], template: ColumnMappingTemplate | null): SheetLayout | null => {
+    const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+    for (let i = 0; i < limit; i++) {
+        const columns = detectColumns(rows[i] || [], template);
+        if (isUsableLayout(columns)) {
+            return { headerRowIndex: i, columns };
+        }
+    }
+    return null;
+};
+
+const recordsFromSheet = (rows: unknown[][], layout: SheetLayout, fallbackId: string): ReconciliationRecord[] => {
+    const { columns } = layout;
+    const cell = (row: unknown[], field: SpreadsheetField) =>
+        columns[field] !== undefined ? row[columns[field]!] : undefined;
+
+    const records = new Map<string, ReconciliationRecord>();
+    // Statements usually print the document number and date only on a document's first line.
+    let currentDocument = '';
+    let currentDate: string | undefined;
+
+    for (const row of rows.slice(layout.headerRowIndex + 1)) {
+        if (!row || row.every(value => cellText(value) === '')) continue;
+
+        const documentNumber = cellText(cell(row, 'documentNumber'));
+        const date = parseSheetDate(cell(row, 'date'));
+        if (documentNumber) currentDocument = documentNumber;
+        if (date) currentDate = date;
+
+        const product = cellText(cell(row, 'product'));
+        const spec = cellText(cell(row, 'spec'));
+        if (!product || TOTAL_ROW_PATTERN.test(normalizeVietnamese(product))) continue;
+
+        let quantity = parseLocaleNumber(cell(row, 'quantity'));
+        let unitPrice = parseLocaleNumber(cell(row, 'unitPrice'));
+        let totalPrice = parseLocaleNumber(cell(row, 'amount'));
+        if (quantity === null && unitPrice === null && totalPrice === null) continue;
+
+        if (totalPrice === null) totalPrice = (quantity ?? 1) * (unitPrice ?? 0);
+        if (quantity === null) quantity = unitPrice ? totalPrice / unitPrice : 1;
+        if (unitPrice === null) unitPrice = quantity ? totalPrice / quantity : totalPrice;
+
+        // Same rule as the extraction prompt: the spec column is part of the product name.
+        const name = spec && !product.includes(spec) ? `${product} ${spec}` : product;
+        const item: ProductItem = { name, quantity, unitPrice, totalPrice };
+        const unit = cellText(cell(row, 'unit'));
+        if (unit) item.unit = unit;
+        const vatRate = parseLocaleNumber(cell(row, 'vatRate'));
+        if (vatRate) item.vatRate = vatRate;
+
+        const id = currentDocument || (currentDate ? `${fallbackId}-${currentDate}` : fallbackId);
+        const key = `${id}|${currentDate ?? ''}`;
+        let record = records.get(key);
+        if (!record) {
+            record = { id, date: currentDate, description: currentDocument || fallbackId, amount: 0, items: [] };
+            records.set(key, record);
+        }
+        record.items!.push(item);
+        record.amount += totalPrice;
+    }
+
+    return [...records.values()];
+};
+
+/** One sheet of a workbook: cells are text, numbers, booleans, "YYYY-MM-DD" dates or null. */
+export interface SheetData {
+    name: string;
+    rows: unknown[][];
+}
+
+/** Splits CSV text into rows, guessing the delimiter (comma, semicolon or tab) from the first line. */
+export const parseCsv = (text: string): string[][] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.slice(0, content.search(/\r?\n|$/));
+    const delimiter = [',', ';', '\t']
+        .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+        .reduce((best, next) => (next.count > best.count ? next : best)).candidate;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+/** Writes rows as CSV, quoting only the values that need it; blank rows are left out. */
+export const rowsToCsv = (rows: unknown[][]): string =>
+    rows
+        .map(row => row.map(cellText))
+        .filter(row => row.some(value => value !== ''))
+        .map(row => row.map(value => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(','))
+        .join('\n');
+
+/** Plain value of an exceljs cell: formulas give their cached result, rich text and links their text. */
+const plainCellValue = (value: CellValue): unknown => {
+    if (value === null || value === undefined) return null;
+    // exceljs reads dates as UTC midnight.
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+    if (typeof value !== 'object') return value;
+    if ('result' in value) return plainCellValue((value.result ?? null) as CellValue);
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return plainCellValue(value.text as CellValue);
+    return null;
+};
+
+/**
+ * Reads the sheets of an .xlsx or .csv file. Excel 97–2003 (.xls) workbooks cannot be
+ * read and have to be saved again as .xlsx first.
+ */
+export const readWorkbook = async (file: File): Promise<SheetData[]> => {
+    if (/\.csv$/i.test(file.name)) {
+        return [{ name: file.name.replace(/\.[^.]+$/, ''), rows: parseCsv(await file.text()) }];
+    }
+    if (/\.xls$/i.test(file.name)) {
+        throw new Error(`Không đọc được tệp Excel 97–2003 "${file.name}". Vui lòng lưu lại dưới dạng .xlsx hoặc .csv.`);
+    }
+    const workbook = new Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    return workbook.worksheets.map(worksheet => {
+        const rows: unknown[][] = [];
+        for (let r = 1; r <= worksheet.rowCount; r++) {
+            const row = worksheet.getRow(r);
+            const values: unknown[] = [];
+            for (let c = 1; c <= worksheet.columnCount; c++) values.push(plainCellValue(row.getCell(c).value));
+            rows.push(values);
+        }
+        return { name: worksheet.name, rows };
+    });
+};
+
+const labelsFromLayout = (rows: unknown[][], layout: SheetLayout): ColumnMappingTemplate['columns'] => {
+    const header = rows[layout.headerRowIndex] || [];
+    const labels: ColumnMappingTemplate['columns'] = {};
+    (Object.keys(layout.columns) as SpreadsheetField[]).forEach(field => {
+        labels[field] = cellText(header[layout.columns[field]!]);
+    });
+    return labels;
+};
+
+export interface SpreadsheetParseResult {
+    records: ReconciliationRecord[];
+    /** The column layout that was used, to be saved as the supplier's template. */
+    template: ColumnMappingTemplate;
+}
+
+/**
+ * Reads an Excel or CSV statement without calling the AI.
+ *
+ * The supplier's saved template is tried first, then the built-in header aliases.
+ * Returns null when no sheet has a recognizable layout, so the caller can fall back
+ * to AI extraction.
+ */
+export const parseSpreadsheet = async (file: File, template: ColumnMappingTemplate | null): Promise<SpreadsheetParseResult | null> => {
+    const sheets = await readWorkbook(file);
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+
+    for (const attempt of template ? [template, null] : [null]) {
+        const records: ReconciliationRecord[] = [];
+        let usedLabels: ColumnMappingTemplate['columns'] | null = null;
+
+        sheets.forEach(({ name: sheetName, rows }) => {
+            const layout = findLayout(rows, attempt);
+            if (!layout) return;
+            const fallbackId = sheets.length > 1 ? `${baseName}-${sheetName}` : baseName;
+            records.push(...recordsFromSheet(rows, layout, fallbackId));
+            if (!usedLabels) usedLabels = labelsFromLayout(rows, layout);
+        });
+
+        if (records.length > 0 && usedLabels) {
+            return { records, template: { columns: usedLabels, updatedAt: new Date().toISOString() } };
+        }
+    }
+    return null;
+};
+
+/**
+ * Converts every sheet of a workbook to a single CSV file. The AI cannot read raw
+ * .xlsx uploads, so unknown layouts are sent to it as text instead.
+ */
+export const spreadsheetToCsvFile = async (file: File): Promise<File> => {
+    const sheets = await readWorkbook(file);
+    const csv = sheets.map(sheet => rowsToCsv(sheet.rows)).join('\n\n');
+    return new File([csv], `${file.name.replace(/\.[^.]+$/, '')}.csv`, { type: 'text/csv' });
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { ReconciliationRecord, LedgerEntryKind } from '../types';
+import { ComparisonStatus } from '../types';
+import { buildSystemLedger, ledgerBalance, reconcileStatement, statementToResult, buildStatementRows } from './statementService';
+import { DEFAULT_TOLERANCES } from './toleranceService';
+import { filterLedgerRows, sortLedgerRows, EMPTY_RESULT_FILTER } from './resultFilterService';
+
+const entry = (ledgerKind: LedgerEntryKind, id: string, date: string, amount: number): ReconciliationRecord =>
+    ({ id, date, description: id, amount, ledgerKind });
+
+const statement = [
+    entry('opening', '', '2025-09-01', 5_000_000),
+    entry('purchase', 'HD001', '2025-09-05', 1_100_000),
+    entry('payment', 'UNC01', '2025-09-20', 2_000_000),
+    entry('closing', '', '2025-09-30', 4_100_000),
+];
+
+const wecare = [
+    entry('purchase', 'HD001', '2025-09-05', 1_100_000),
+    entry('payment', 'UNC01', '2025-09-20', 2_000_000),
+];
+
+describe('ledgerBalance', () => {
+    it('adds purchases including VAT and takes off payments', () => {
+        const purchases: ReconciliationRecord[] = [{
+            id: 'HD000', date: '2025-08-10', description: 'Chứng từ HD000', amount: 1_000_000,
+            items: [{ name: 'Bulong inox M8', quantity: 1000, unitPrice: 1000, totalPrice: 1_000_000 }],
+        }];
+        const payments = [entry('payment', 'UNC00', '2025-08-20', 600_000)];
+        expect(ledgerBalance(buildSystemLedger(purchases, payments, 10))).toBe(500_000);
+    });
+});
+
+describe('reconcileStatement', () => {
+    it('agrees throughout when both ledgers open at the same balance', () => {
+        const result = reconcileStatement(statement, wecare, 5_000_000, DEFAULT_TOLERANCES);
+        expect(result.openingDiffers).toBe(false);
+        expect(result.rows.map(row => row.status)).toEqual([ComparisonStatus.MATCHED, ComparisonStatus.MATCHED]);
+        expect(result.supplierClosing).toBe(4_100_000);
+        expect(result.systemClosing).toBe(4_100_000);
+        expect(result.divergenceIndex).toBeNull();
+    });
+
+    it('starts Wecare from its own opening balance and reports an opening difference', () => {
+        const result = reconcileStatement(statement, wecare, 4_000_000, DEFAULT_TOLERANCES);
+        expect(result.openingBalance).toBe(5_000_000);
+        expect(result.systemOpening).toBe(4_000_000);
+        expect(result.openingDiffers).toBe(true);
+        expect(result.rows[0].systemBalance).toBe(5_100_000);
+        expect(result.systemClosing).toBe(3_100_000);
+        // The balances differ from the opening on, not from the first entry.
+        expect(result.divergenceIndex).toBeNull();
+
+        const { summary } = statementToResult(result);
+        expect(summary).toContain('lệch ngay từ đầu kỳ');
+        expect(buildStatementRows(result)[1]).toEqual(['', 'Số dư đầu kỳ', '', '', '', 5_000_000, '', '', '', 4_000_000, '', 'Số dư đầu kỳ hai bên lệch nhau.']);
+    });
+
+    it('reports the first entry after which the balances differ', () => {
+        const result = reconcileStatement(statement, wecare.slice(0, 1), 5_000_000, DEFAULT_TOLERANCES);
+        expect(result.rows[1].status).toBe(ComparisonStatus.SUPPLIER_ONLY);
+        expect(result.divergenceIndex).toBe(1);
+    });
+});
+
+describe('buildStatementRows', () => {
+    it('exports only the rows of a filtered view, numbered by their place in the ledger', () => {
+        const result = reconcileStatement(statement, [wecare[1]], 5_000_000, DEFAULT_TOLERANCES);
+        const view = sortLedgerRows(filterLedgerRows(result.rows, { ...EMPTY_RESULT_FILTER, onlyDiscrepancies: true }), { key: 'difference', direction: 'desc' });
+        const rows = buildStatementRows(result, view);
+        expect(rows).toHaveLength(4);
+        expect(rows[2].slice(0, 3)).toEqual([1, 'Mua hàng', 'HD001']);
+
+        const searched = filterLedgerRows(result.rows, { ...EMPTY_RESULT_FILTER, search: 'unc01' });
+        expect(searched.map(row => row.index)).toEqual([1]);
+    });
+});
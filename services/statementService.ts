@@ -0,0 +1,279 @@
+import type { ReconciliationRecord, ReconciliationResult, LedgerEntryKind, LedgerComparison, StatementReconciliation, ToleranceSettings } from '../types';
+import { ComparisonStatus } from '../types';
+import { normalizeDocumentNumber } from './documentMatchingService';
+import { dataverseUrl, fetchAllPages } from './dataverseClient';
+import type { PageProgress } from './dataverseClient';
+import type { IndexedLedgerRow } from './resultFilterService';
+
+/**
+ * Statement-of-account reconciliation: the supplier's ledger (opening balance, purchases,
+ * payments, returns, closing balance) is paired entry by entry with the same movements
+ * on Wecare, and the running balance of both ledgers is compared after every entry.
+ */
+
+export const LEDGER_KIND_LABELS: Record<LedgerEntryKind, string> = {
+    opening: 'Số dư đầu kỳ',
+    purchase: 'Mua hàng',
+    payment: 'Thanh toán',
+    return: 'Trả hàng',
+    adjustment: 'Điều chỉnh',
+    closing: 'Số dư cuối kỳ',
+};
+
+/** Payments to suppliers recorded in Dynamics. */
+const SUPPLIER_PAYMENT_ENTITY_SET = 'cr44a_thanhtoannccs';
+const SUPPLIER_PAYMENT_SELECT = 'cr44a_sochungtu,cr44a_ngaythanhtoan,cr44a_sotien,cr44a_noidung,createdon';
+
+/** A supplier payment as Dataverse returns it for `SUPPLIER_PAYMENT_SELECT`. */
+export interface SupplierPaymentRow {
+    cr44a_sochungtu: string | null;
+    cr44a_ngaythanhtoan: string | null;
+    cr44a_sotien: number | null;
+    cr44a_noidung: string | null;
+    createdon: string;
+}
+
+/** VAT added to Wecare's pre-tax purchase totals, since statements show amounts including VAT. */
+export const DEFAULT_STATEMENT_VAT_PERCENT = 10;
+
+/** How far apart the dates of two entries may be for them to be paired without a shared reference. */
+const PAIRING_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Effect of an entry on the balance owed to the supplier. Adjustments keep the sign they were read with. */
+export const signedAmount = (entry: ReconciliationRecord): number => {
+    switch (entry.ledgerKind) {
+        case 'payment':
+        case 'return':
+            return -Math.abs(entry.amount);
+        case 'adjustment':
+            return entry.amount;
+        default:
+            return Math.abs(entry.amount);
+    }
+};
+
+export const toPaymentRecord = (row: SupplierPaymentRow): ReconciliationRecord => {
+    const date = (row.cr44a_ngaythanhtoan || row.createdon || '').split('T')[0] || undefined;
+    return {
+        id: (row.cr44a_sochungtu || '').trim(),
+        date,
+        description: row.cr44a_noidung || 'Thanh toán NCC',
+        amount: Math.abs(Number(row.cr44a_sotien) || 0),
+        ledgerKind: 'payment',
+    };
+};
+
+/** Payments to a supplier dated inside the window; without a start, every payment up to its end. */
+export const fetchSupplierPayments = async (
+    token: string,
+    supplierId: string,
+    window: { start?: string; end: string },
+    onProgress?: (progress: PageProgress) => void
+): Promise<ReconciliationRecord[]> => {
+    const filters = [
+        `_cr44a_nhacungcap_value eq ${supplierId}`,
+        window.start ? `cr44a_ngaythanhtoan ge ${window.start}T00:00:00Z` : '',
+        `cr44a_ngaythanhtoan le ${window.end}T23:59:59Z`,
+    ].filter(Boolean);
+    const apiUrl = dataverseUrl(`${SUPPLIER_PAYMENT_ENTITY_SET}?$select=${SUPPLIER_PAYMENT_SELECT}&$filter=${filters.join(' and ')}`);
+    const rows = await fetchAllPages<SupplierPaymentRow>(apiUrl, token, { errorPrefix: 'Lỗi tải dữ liệu thanh toán', onProgress });
+    return rows.map(toPaymentRecord);
+};
+
+/**
+ * Wecare's side of the ledger: each purchase document becomes a purchase (or a return when
+ * its total is negative) including VAT, followed by the payments.
+ */
+export const buildSystemLedger = (
+    purchases: ReconciliationRecord[],
+    payments: ReconciliationRecord[],
+    vatPercent: number
+): ReconciliationRecord[] => [
+    ...purchases.map((document): ReconciliationRecord => {
+        const net = (document.items ?? []).reduce((sum, item) => sum + item.totalPrice, 0) || document.amount;
+        const gross = net * (1 + vatPercent / 100);
+        return {
+            id: document.id,
+            date: document.date,
+            description: document.description,
+            amount: Math.abs(gross),
+            ledgerKind: gross < 0 ? 'return' : 'purchase',
+        };
+    }),
+    ...payments,
+];
+
+/** Balance owed to the supplier once every entry of a ledger is applied. */
+export const ledgerBalance = (entries: ReconciliationRecord[]): number =>
+    entries.reduce((sum, entry) => sum + signedAmount(entry), 0);
+
+const daysBetween = (a?: string, b?: string): number => {
+    if (!a || !b) return Infinity;
+    const diff = Math.abs(new Date(a).getTime() - new Date(b).getTime());
+    return isNaN(diff) ? Infinity : diff / DAY_MS;
+};
+
+const byDate = (a: ReconciliationRecord, b: ReconciliationRecord) => (a.date ?? '').localeCompare(b.date ?? '');
+
+const formatAmount = (value: number) => value.toLocaleString('vi-VN', { maximumFractionDigits: 0 });
+
+/**
+ * Pairs one supplier movement with a Wecare movement of the same direction: by reference
+ * first, then by amount within tolerance and the closest date inside the pairing window.
+ */
+const findPartner = (
+    entry: ReconciliationRecord,
+    candidates: ReconciliationRecord[],
+    used: Set<ReconciliationRecord>,
+    tolerance: number
+): ReconciliationRecord | undefined => {
+    const sign = Math.sign(signedAmount(entry));
+    const open = candidates.filter(candidate => !used.has(candidate) && Math.sign(signedAmount(candidate)) === sign);
+    const reference = normalizeDocumentNumber(entry.id);
+    if (reference) {
+        const byReference = open.find(candidate => normalizeDocumentNumber(candidate.id) === reference);
+        if (byReference) return byReference;
+    }
+    return open
+        .filter(candidate => Math.abs(Math.abs(signedAmount(candidate)) - Math.abs(signedAmount(entry))) <= tolerance)
+        .filter(candidate => daysBetween(candidate.date, entry.date) <= PAIRING_WINDOW_DAYS)
+        .sort((a, b) => daysBetween(a.date, entry.date) - daysBetween(b.date, entry.date))[0];
+};
+
+/**
+ * Reconciles a statement with Wecare's ledger for the statement period. The supplier's ledger
+ * starts from the statement's opening balance and Wecare's from `systemOpening`, what Wecare
+ * owed before the period. Rows are ordered by date and the first row after which the balances
+ * no longer agree within the line total tolerance is reported as the divergence point, unless
+ * they already disagree at the opening.
+ */
+export const reconcileStatement = (
+    statementEntries: ReconciliationRecord[],
+    systemEntries: ReconciliationRecord[],
+    systemOpening: number,
+    tolerances: ToleranceSettings
+): StatementReconciliation => {
+    const tolerance = tolerances.lineTotalAbsolute;
+    const opening = statementEntries.find(entry => entry.ledgerKind === 'opening');
+    const closing = [...statementEntries].reverse().find(entry => entry.ledgerKind === 'closing');
+    const openingBalance = opening ? opening.amount : 0;
+    const openingDiffers = Math.abs(openingBalance - systemOpening) > tolerance;
+    const movements = statementEntries
+        .filter(entry => entry.ledgerKind !== 'opening' && entry.ledgerKind !== 'closing')
+        .sort(byDate);
+    const systemMovements = [...systemEntries].sort(byDate);
+
+    const used = new Set<ReconciliationRecord>();
+    const pairs: { supplierEntry?: ReconciliationRecord; systemEntry?: ReconciliationRecord }[] = movements.map(entry => {
+        const partner = findPartner(entry, systemMovements, used, tolerance);
+        if (partner) used.add(partner);
+        return { supplierEntry: entry, systemEntry: partner };
+    });
+    systemMovements.filter(entry => !used.has(entry)).forEach(entry => pairs.push({ systemEntry: entry }));
+    pairs.sort((a, b) => ((a.supplierEntry ?? a.systemEntry)!.date ?? '').localeCompare((b.supplierEntry ?? b.systemEntry)!.date ?? ''));
+
+    let supplierBalance = openingBalance;
+    let systemBalance = systemOpening;
+    let divergenceIndex: number | null = null;
+    const rows: LedgerComparison[] = pairs.map(({ supplierEntry, systemEntry }, index) => {
+        const supplierAmount = supplierEntry ? signedAmount(supplierEntry) : 0;
+        const systemAmount = systemEntry ? signedAmount(systemEntry) : 0;
+        supplierBalance += supplierAmount;
+        systemBalance += systemAmount;
+
+        const notes: string[] = [];
+        let status: ComparisonStatus;
+        if (!systemEntry) {
+            status = ComparisonStatus.SUPPLIER_ONLY;
+            notes.push('Không tìm thấy bút toán tương ứng trên Wecare.');
+        } else if (!supplierEntry) {
+            status = ComparisonStatus.SYSTEM_ONLY;
+            notes.push('Bút toán trên Wecare không có trong bảng kê NCC.');
+        } else if (Math.abs(supplierAmount - systemAmount) <= tolerance) {
+            status = ComparisonStatus.MATCHED;
+        } else {
+            status = ComparisonStatus.DISCREPANCY;
+            notes.push(`Số tiền lệch ${formatAmount(supplierAmount - systemAmount)}.`);
+        }
+        if (supplierEntry?.balance !== undefined && supplierEntry.balance !== null && Math.abs(supplierEntry.balance - supplierBalance) > tolerance) {
+            notes.push(`Số dư in trên bảng kê (${formatAmount(supplierEntry.balance)}) khác số dư tính lại (${formatAmount(supplierBalance)}).`);
+        }
+        if (divergenceIndex === null && !openingDiffers && Math.abs(supplierBalance - systemBalance) > tolerance) {
+            divergenceIndex = index;
+        }
+        return {
+            status,
+            kind: (supplierEntry ?? systemEntry)!.ledgerKind ?? 'purchase',
+            supplierEntry,
+            systemEntry,
+            supplierBalance,
+            systemBalance,
+            details: notes.join(' '),
+        };
+    });
+
+    return {
+        openingBalance,
+        systemOpening,
+        openingDiffers,
+        supplierClosing: supplierBalance,
+        systemClosing: systemBalance,
+        printedClosing: closing?.amount,
+        rows,
+        divergenceIndex,
+    };
+};
+
+/** Wraps a statement reconciliation as a result, with the closing balances as totals. */
+export const statementToResult = (statement: StatementReconciliation): ReconciliationResult => {
+    const counts = statement.rows.reduce<Partial<Record<ComparisonStatus, number>>>((acc, row) => ({ ...acc, [row.status]: (acc[row.status] ?? 0) + 1 }), {});
+    const divergence = statement.divergenceIndex !== null ? statement.rows[statement.divergenceIndex] : undefined;
+    const divergenceEntry = divergence && (divergence.supplierEntry ?? divergence.systemEntry);
+    const summary = [
+        `Đã đối chiếu ${statement.rows.length} bút toán: ${counts[ComparisonStatus.MATCHED] ?? 0} khớp, ${counts[ComparisonStatus.DISCREPANCY] ?? 0} lệch số tiền, ${counts[ComparisonStatus.SUPPLIER_ONLY] ?? 0} chỉ có ở NCC, ${counts[ComparisonStatus.SYSTEM_ONLY] ?? 0} chỉ có ở Wecare.`,
+        statement.openingDiffers
+            ? `Số dư đầu kỳ trên bảng kê (${formatAmount(statement.openingBalance)}) khác số dư đầu kỳ trên Wecare (${formatAmount(statement.systemOpening)}), nên số dư hai bên lệch ngay từ đầu kỳ.`
+            : divergenceEntry
+                ? `Số dư hai bên bắt đầu lệch từ bút toán ${divergenceEntry.id || divergenceEntry.description}${divergenceEntry.date ? ` ngày ${divergenceEntry.date}` : ''}.`
+                : 'Số dư hai bên khớp nhau sau mọi bút toán.',
+        statement.printedClosing !== undefined && Math.abs(statement.printedClosing - statement.supplierClosing) >= 1
+            ? `Số dư cuối kỳ in trên bảng kê (${formatAmount(statement.printedClosing)}) khác số dư tính từ các bút toán (${formatAmount(statement.supplierClosing)}).`
+            : '',
+    ].filter(Boolean).join(' ');
+    return {
+        summary,
+        totalSupplierAmount: statement.supplierClosing,
+        totalSystemAmount: statement.systemClosing,
+        difference: statement.supplierClosing - statement.systemClosing,
+        comparedItems: [],
+        statement,
+    };
+};
+
+/**
+ * Header and rows of the ledger comparison for the CSV export, opening and closing balances included.
+ * `rows` limits the export to a filtered view; STT still refers to the row's place in the ledger.
+ */
+export const buildStatementRows = (
+    statement: StatementReconciliation,
+    rows: IndexedLedgerRow[] = statement.rows.map((row, index) => ({ row, index })),
+): (string | number | undefined)[][] => [
+    ['STT', 'Loại', 'Chứng từ NCC', 'Ngày NCC', 'Số tiền NCC', 'Số dư NCC', 'Chứng từ Wecare', 'Ngày Wecare', 'Số tiền Wecare', 'Số dư Wecare', 'Trạng thái', 'Ghi chú'],
+    ['', LEDGER_KIND_LABELS.opening, '', '', '', statement.openingBalance, '', '', '', statement.systemOpening, '', statement.openingDiffers ? 'Số dư đầu kỳ hai bên lệch nhau.' : ''],
+    ...rows.map(({ row, index }) => [
+        index + 1,
+        LEDGER_KIND_LABELS[row.kind],
+        row.supplierEntry?.id,
+        row.supplierEntry?.date,
+        row.supplierEntry ? signedAmount(row.supplierEntry) : undefined,
+        row.supplierBalance,
+        row.systemEntry?.id,
+        row.systemEntry?.date,
+        row.systemEntry ? signedAmount(row.systemEntry) : undefined,
+        row.systemBalance,
+        row.status,
+        [index === statement.divergenceIndex ? 'Số dư bắt đầu lệch từ đây.' : '', row.details].filter(Boolean).join(' '),
+    ]),
+    ['', LEDGER_KIND_LABELS.closing, '', '', '', statement.supplierClosing, '', '', '', statement.systemClosing, '', statement.printedClosing !== undefined ? `Số dư in trên bảng kê: ${statement.printedClosing}` : ''],
+];
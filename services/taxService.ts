@@ -0,0 +1,77 @@
+import type { ProductItem, ComparedItem } from '../types';
+
+export interface TaxBreakdown {
+    net: number;
+    tax: number;
+    gross: number;
+}
+
+/** Reads a VAT rate as a percentage; the AI sometimes returns 0.08 instead of 8. */
+const normalizeRate = (rate: number | undefined): number => {
+    if (!rate || rate < 0) return 0;
+    return rate < 1 ? rate * 100 : rate;
+};
+
+/**
+ * Returns the item expressed before VAT, which is the basis Wecare books prices on
+ * (cr44a_ongia is net). VAT details are kept on the returned item so tax and gross
+ * totals can still be shown. Items already on a net basis are returned unchanged.
+ */
+export const toNetBasis = (item: ProductItem): ProductItem => {
+    const vatRate = normalizeRate(item.vatRate);
+    if (!item.priceIncludesVat) {
+        if (!vatRate && item.netAmount === undefined) return item;
+        const netAmount = item.netAmount ?? item.totalPrice;
+        return {
+            ...item,
+            vatRate: vatRate || undefined,
+            netAmount,
+            taxAmount: item.taxAmount ?? netAmount * vatRate / 100,
+            grossAmount: item.grossAmount ?? netAmount * (1 + vatRate / 100),
+        };
+    }
+    const divisor = 1 + vatRate / 100;
+    const grossAmount = item.grossAmount ?? item.totalPrice;
+    const netAmount = item.netAmount ?? grossAmount / divisor;
+    return {
+        ...item,
+        unitPrice: item.unitPrice / divisor,
+        totalPrice: netAmount,
+        vatRate: vatRate || undefined,
+        priceIncludesVat: false,
+        netAmount,
+        taxAmount: item.taxAmount ?? grossAmount - netAmount,
+        grossAmount,
+    };
+};
+
+/** Splits a net-basis item into pre-tax, tax and total; `fallbackRate` applies when the item has no rate of its own. */
+export const itemTaxBreakdown = (item: ProductItem, fallbackRate?: number): TaxBreakdown => {
+    const netItem = toNetBasis(item);
+    const net = netItem.totalPrice;
+    const rate = normalizeRate(netItem.vatRate ?? fallbackRate);
+    const tax = netItem.taxAmount ?? net * rate / 100;
+    return { net, tax, gross: net + tax };
+};
+
+const addBreakdowns = (a: TaxBreakdown, b: TaxBreakdown): TaxBreakdown => ({
+    net: a.net + b.net,
+    tax: a.tax + b.tax,
+    gross: a.gross + b.gross,
+});
+
+const EMPTY_BREAKDOWN: TaxBreakdown = { net: 0, tax: 0, gross: 0 };
+
+/**
+ * Totals both sides of a reconciliation as pre-tax, tax and total. Wecare lines carry
+ * no VAT rate, so the rate of the supplier line they are paired with is used.
+ */
+export const summarizeTax = (comparedItems: ComparedItem[]): { supplier: TaxBreakdown; system: TaxBreakdown } => {
+    return comparedItems.reduce((acc, item) => {
+        const pairedRate = item.supplierItems[0]?.vatRate;
+        return {
+            supplier: item.supplierItems.reduce((sum, supplierItem) => addBreakdowns(sum, itemTaxBreakdown(supplierItem)), acc.supplier),
+            system: item.systemItems.reduce((sum, systemItem) => addBreakdowns(sum, itemTaxBreakdown(systemItem, pairedRate)), acc.system),
+        };
+    }, { supplier: EMPTY_BREAKDOWN, system: EMPTY_BREAKDOWN });
+};
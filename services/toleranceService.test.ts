@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { ProductItem } from '../types';
+import { compareWithinTolerance, DEFAULT_TOLERANCES } from './toleranceService';
+
+const item = (quantity: number, unitPrice: number, totalPrice = quantity * unitPrice): ProductItem =>
+    ({ name: 'Bulong inox M8', quantity, unitPrice, totalPrice });
+
+describe('compareWithinTolerance', () => {
+    it('reports equal quantity, unit price and line total as exact', () => {
+        expect(compareWithinTolerance(item(10, 1000), item(10, 1000), DEFAULT_TOLERANCES)).toEqual({
+            isMatch: true,
+            isExact: true,
+            deviation: { quantity: 0, unitPrice: 0, totalPrice: 0 },
+        });
+    });
+
+    it('does not report a wrong line total as exact when quantity and unit price agree', () => {
+        const comparison = compareWithinTolerance(item(10, 1000, 12000), item(10, 1000), DEFAULT_TOLERANCES);
+        expect(comparison.isExact).toBe(false);
+        expect(comparison.isMatch).toBe(false);
+        expect(comparison.deviation.totalPrice).toBe(2000);
+    });
+
+    it('accepts a line total difference within the line total tolerance, but not as exact', () => {
+        const comparison = compareWithinTolerance(item(10, 1000, 10005), item(10, 1000), DEFAULT_TOLERANCES);
+        expect(comparison.isExact).toBe(false);
+        expect(comparison.isMatch).toBe(true);
+    });
+
+    it('accepts a unit price difference within the percent tolerance', () => {
+        const settings = { ...DEFAULT_TOLERANCES, pricePercent: 1, lineTotalAbsolute: 100 };
+        expect(compareWithinTolerance(item(10, 1005), item(10, 1000), settings).isMatch).toBe(true);
+        expect(compareWithinTolerance(item(10, 1020), item(10, 1000), settings).isMatch).toBe(false);
+    });
+
+    it('compares quantities rounded to the configured decimals', () => {
+        const settings = { ...DEFAULT_TOLERANCES, quantityDecimals: 1 };
+        expect(compareWithinTolerance(item(2.04, 100, 204), item(2, 100, 204), settings).isMatch).toBe(true);
+        expect(compareWithinTolerance(item(2.1, 100, 210), item(2, 100, 210), settings).isMatch).toBe(false);
+    });
+});
@@ -0,0 +1,105 @@
+import type { ProductItem, ComparedItem, ToleranceSettings, ToleranceDeviation } from '../types';
+import { ComparisonStatus } from '../types';
+import { aggregateItems } from './groupService';
+
+const STORAGE_KEY = 'toleranceSettings';
+
+export const DEFAULT_TOLERANCES: ToleranceSettings = {
+    priceAbsolute: 1,
+    pricePercent: 0,
+    quantityDecimals: 2,
+    lineTotalAbsolute: 10,
+};
+
+export const loadToleranceSettings = (supplierId: string): ToleranceSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return { ...DEFAULT_TOLERANCES, ...(stored[supplierId] ?? {}) };
+    } catch (e) {
+        return DEFAULT_TOLERANCES;
+    }
+};
+
+export const saveToleranceSettings = (supplierId: string, settings: ToleranceSettings): void => {
+    let stored: Record<string, ToleranceSettings> = {};
+    try {
+        stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (e) {
+        // Corrupted storage is overwritten below.
+    }
+    stored[supplierId] = settings;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+export interface ToleranceComparison {
+    /** Quantity, unit price and line total all agree within tolerance. */
+    isMatch: boolean;
+    /** The values agree exactly, without needing any tolerance. */
+    isExact: boolean;
+    deviation: ToleranceDeviation;
+}
+
+const roundTo = (value: number, decimals: number) => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/** Compares quantity, unit price and line total of two items under a supplier's tolerances. */
+export const compareWithinTolerance = (
+    supplierItem: ProductItem,
+    systemItem: ProductItem,
+    settings: ToleranceSettings
+): ToleranceComparison => {
+    const deviation: ToleranceDeviation = {
+        quantity: supplierItem.quantity - systemItem.quantity,
+        unitPrice: supplierItem.unitPrice - systemItem.unitPrice,
+        totalPrice: supplierItem.totalPrice - systemItem.totalPrice,
+    };
+    const isExact = deviation.quantity === 0 && deviation.unitPrice === 0 && deviation.totalPrice === 0;
+
+    const quantityOk = roundTo(supplierItem.quantity, settings.quantityDecimals) === roundTo(systemItem.quantity, settings.quantityDecimals);
+    const priceScale = Math.max(Math.abs(supplierItem.unitPrice), Math.abs(systemItem.unitPrice));
+    const priceAllowance = Math.max(settings.priceAbsolute, priceScale * settings.pricePercent / 100);
+    const priceOk = Math.abs(deviation.unitPrice) <= priceAllowance;
+    const totalOk = Math.abs(deviation.totalPrice) <= settings.lineTotalAbsolute;
+
+    return { isMatch: isExact || (quantityOk && priceOk && totalOk), isExact, deviation };
+};
+
+/**
+ * Re-evaluates a paired result under the supplier's tolerances, so AI results follow
+ * the same rules as the local matching engine. Grouped rows are compared on their
+ * totals. Unpaired rows are returned unchanged.
+ */
+export const applyTolerance = (item: ComparedItem, settings: ToleranceSettings): ComparedItem => {
+    const supplierItem = aggregateItems(item.supplierItems);
+    const systemItem = aggregateItems(item.systemItems);
+    if (!supplierItem || !systemItem) return item;
+    if (item.status !== ComparisonStatus.MATCHED && item.status !== ComparisonStatus.DISCREPANCY) return item;
+
+    const { isMatch, isExact, deviation } = compareWithinTolerance(supplierItem, systemItem, settings);
+    if (!isMatch) {
+        return item.status === ComparisonStatus.DISCREPANCY
+            ? item
+            : { ...item, status: ComparisonStatus.DISCREPANCY, details: describeDiscrepancy(supplierItem, systemItem) };
+    }
+    return {
+        ...item,
+        status: ComparisonStatus.MATCHED,
+        details: isExact ? '' : describeDeviation(deviation),
+        toleranceDeviation: isExact ? undefined : deviation,
+    };
+};
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toLocaleString('vi-VN', { maximumFractionDigits: 4 })}`;
+
+export const describeDeviation = (deviation: ToleranceDeviation): string => {
+    const parts: string[] = [];
+    if (deviation.quantity !== 0) parts.push(`SL ${formatSigned(deviation.quantity)}`);
+    if (deviation.unitPrice !== 0) parts.push(`ĐG ${formatSigned(deviation.unitPrice)}`);
+    if (deviation.totalPrice !== 0) parts.push(`TT ${formatSigned(deviation.totalPrice)}`);
+    return `Khớp trong dung sai (${parts.join(', ') || 'làm tròn'}).`;
+};
+
+export const describeDiscrepancy = (supplierItem: ProductItem, systemItem: ProductItem): string =>
+    `Chênh lệch SL/ĐG. NCC: ${supplierItem.quantity} @ ${supplierItem.unitPrice}, Wecare: ${systemItem.quantity} @ ${systemItem.unitPrice}`;
@@ -0,0 +1,37 @@
+import type { ProductItem } from '../types';
+import { normalizeVietnamese } from './matchingService';
+
+export const isSameUnit = (a?: string, b?: string): boolean => {
+    if (!a || !b) return true;
+    return normalizeVietnamese(a) === normalizeVietnamese(b);
+};
+
+/**
+ * Expresses a supplier item in the Wecare unit: one supplier unit equals `factor`
+ * Wecare units, so quantity is multiplied and unit price divided by the factor.
+ * The line total is unchanged. The original values are kept on `conversion`.
+ */
+export const applyUnitConversion = (item: ProductItem, factor: number, toUnit?: string): ProductItem => {
+    if (!(factor > 0) || factor === 1) return item;
+    return {
+        ...item,
+        quantity: item.quantity * factor,
+        unitPrice: item.unitPrice / factor,
+        unit: toUnit || item.unit,
+        conversion: {
+            factor,
+            fromUnit: item.unit,
+            toUnit: toUnit || undefined,
+            originalQuantity: item.quantity,
+            originalUnitPrice: item.unitPrice,
+        },
+    };
+};
+
+/** "10 thùng → 240 cái (×24)" */
+export const describeConversion = (item: ProductItem): string => {
+    const conversion = item.conversion;
+    if (!conversion) return '';
+    const format = (value: number) => value.toLocaleString('vi-VN', { maximumFractionDigits: 4 });
+    return `${format(conversion.originalQuantity)} ${conversion.fromUnit ?? ''} → ${format(item.quantity)} ${conversion.toUnit ?? ''} (×${format(conversion.factor)})`.replace(/\s+/g, ' ');
+};
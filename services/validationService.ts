@@ -0,0 +1,72 @@
+import type { ReconciliationRecord, ValidationIssue } from '../types';
+
+/** Largest difference, in VND, still attributed to rounding. */
+const ROUNDING_TOLERANCE = 1;
+
+/** Documents dated before this are treated as misreads rather than real history. */
+const EARLIEST_PLAUSIBLE_YEAR = 2000;
+
+const formatNumber = (value: number) => value.toLocaleString('vi-VN');
+
+const checkDate = (date: string | undefined): string | null => {
+    if (!date) return 'Thiếu ngày chứng từ.';
+    const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return `Ngày "${date}" không đúng định dạng YYYY-MM-DD.`;
+
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const parsed = new Date(Date.UTC(year, month - 1, day));
+    // Date rolls impossible days over (2025-02-30 becomes March 2nd), which is how we detect them.
+    if (parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+        return `Ngày "${date}" không tồn tại.`;
+    }
+    if (year < EARLIEST_PLAUSIBLE_YEAR) return `Ngày "${date}" quá xa trong quá khứ.`;
+    if (parsed.getTime() > Date.now()) return `Ngày "${date}" nằm trong tương lai.`;
+    return null;
+};
+
+/**
+ * Checks extracted records for the arithmetic the extraction schema promises:
+ * quantity × unit price = line total for each item, the line totals add up to the
+ * record amount, and every record has a real date. OCR and AI misreads usually
+ * break one of these, so they are surfaced before reconciliation.
+ */
+export const validateRecords = (records: ReconciliationRecord[]): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+
+    records.forEach((record, recordIndex) => {
+        const dateProblem = checkDate(record.date);
+        if (dateProblem) {
+            issues.push({ recordIndex, message: `Chứng từ ${record.id}: ${dateProblem}` });
+        }
+
+        const items = record.items ?? [];
+        items.forEach((item, itemIndex) => {
+            if (!(item.quantity > 0)) {
+                issues.push({ recordIndex, itemIndex, message: `"${item.name}": số lượng ${formatNumber(item.quantity)} không hợp lệ.` });
+            }
+            if (item.unitPrice < 0) {
+                issues.push({ recordIndex, itemIndex, message: `"${item.name}": đơn giá âm (${formatNumber(item.unitPrice)}).` });
+            }
+            const expectedTotal = item.quantity * item.unitPrice;
+            if (Math.abs(expectedTotal - item.totalPrice) > ROUNDING_TOLERANCE) {
+                issues.push({
+                    recordIndex,
+                    itemIndex,
+                    message: `"${item.name}": ${formatNumber(item.quantity)} × ${formatNumber(item.unitPrice)} = ${formatNumber(expectedTotal)}, khác thành tiền ${formatNumber(item.totalPrice)}.`,
+                });
+            }
+        });
+
+        if (items.length > 0) {
+            const itemsTotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+            if (Math.abs(itemsTotal - record.amount) > ROUNDING_TOLERANCE * items.length) {
+                issues.push({
+                    recordIndex,
+                    message: `Chứng từ ${record.id}: tổng thành tiền các dòng ${formatNumber(itemsTotal)} khác tổng chứng từ ${formatNumber(record.amount)}.`,
+                });
+            }
+        }
+    });
+
+    return issues;
+};
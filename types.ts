@@ -3,6 +3,31 @@ export interface ProductItem {
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  /** Unit of measure as written on the document or in Wecare (cái, thùng, mét...). */
+  unit?: string;
+  /** Set when quantity and unit price were converted into the Wecare unit before comparison. */
+  conversion?: UnitConversion;
+  /** VAT rate in percent (8, 10...), when the document states one. */
+  vatRate?: number;
+  /** True when unitPrice and totalPrice include VAT. */
+  priceIncludesVat?: boolean;
+  /** Line amount before VAT. */
+  netAmount?: number;
+  /** VAT amount of the line. */
+  taxAmount?: number;
+  /** Line amount including VAT. */
+  grossAmount?: number;
+  /** Set when a user corrected the line by hand after extraction. */
+  manuallyEdited?: boolean;
+}
+
+export interface UnitConversion {
+  /** Number of Wecare units in one supplier unit. */
+  factor: number;
+  fromUnit?: string;
+  toUnit?: string;
+  originalQuantity: number;
+  originalUnitPrice: number;
 }
 
 export interface Supplier {
@@ -16,19 +41,73 @@ export interface ReconciliationRecord {
   description: string;
   amount: number;
   items?: ProductItem[];
+  /** Set when a user corrected the record's own fields by hand after extraction. */
+  manuallyEdited?: boolean;
+  /** Statement mode only: what the ledger entry records. Its `amount` is always positive. */
+  ledgerKind?: LedgerEntryKind;
+  /** Statement mode only: running balance printed on the statement after this entry. */
+  balance?: number;
 }
 
+/** Entries of a supplier's statement of account (bảng kê công nợ). */
+export type LedgerEntryKind = 'opening' | 'purchase' | 'payment' | 'return' | 'adjustment' | 'closing';
+
 export enum ComparisonStatus {
   MATCHED = 'Khớp',
   DISCREPANCY = 'Chênh lệch',
   SUPPLIER_ONLY = 'Chỉ có ở NCC',
+  SYSTEM_ONLY = 'Chỉ có ở Wecare',
   PROCESSING = 'Đang xử lý',
 }
 
 export interface ComparedItem {
   status: ComparisonStatus;
-  supplierItem: ProductItem | null;
-  systemItem: ProductItem | null;
+  /**
+   * Supplier lines covered by this row. Usually one; several when the supplier split a
+   * delivery Wecare booked as one line. Empty for 'Chỉ có ở Wecare'.
+   */
+  supplierItems: ProductItem[];
+  /** Wecare lines covered by this row, e.g. two receipts of 60 and 40 for a supplier line of 100. */
+  systemItems: ProductItem[];
+  details: string;
+  /** Matching engine confidence for the pair, from 0 to 1. Absent for AI results. */
+  confidence?: number;
+  /** Why the local matching engine paired these items. */
+  matchReason?: string;
+  /** Set when the pair was accepted as matched only thanks to the supplier's tolerances. */
+  toleranceDeviation?: ToleranceDeviation;
+  /** Key of the DocumentComparison the row belongs to. */
+  documentKey?: string;
+  /** Set when a reviewer paired or unpaired the row by hand. */
+  manuallyPaired?: boolean;
+  /** Set when a reviewer changed the status; keeps what the matching decided and why it was changed. */
+  statusOverride?: StatusOverride;
+  /** Free-text reviewer note. */
+  note?: string;
+}
+
+export interface StatusOverride {
+  originalStatus: ComparisonStatus;
+  reason: string;
+}
+
+export interface DocumentRef {
+  /** Invoice or receipt number. */
+  id: string;
+  date?: string;
+  /** Pre-tax total of the document's lines. */
+  amount: number;
+  lineCount: number;
+}
+
+/** A supplier document paired with a Wecare document, or a document found on one side only. */
+export interface DocumentComparison {
+  key: string;
+  status: ComparisonStatus;
+  supplierDocument?: DocumentRef;
+  systemDocument?: DocumentRef;
+  /** How the two documents were paired: by document number, or by date and total when the numbers differ. */
+  matchedBy?: 'number' | 'dateAmount';
   details: string;
 }
 
@@ -38,10 +117,126 @@ export interface ReconciliationResult {
   totalSystemAmount: number;
   difference: number;
   comparedItems: ComparedItem[];
+  /** Document-level view of the run; absent for results produced before documents were matched. */
+  documents?: DocumentComparison[];
+  /** ID of the reconciliation record created in Dynamics, once the result has been saved there. */
+  dynamicsRecordId?: string;
+  /** Set for statement-of-account runs, which compare ledger balances instead of goods. */
+  statement?: StatementReconciliation;
+}
+
+/** A statement entry paired with a Wecare entry, or an entry found in one ledger only. */
+export interface LedgerComparison {
+  status: ComparisonStatus;
+  kind: LedgerEntryKind;
+  supplierEntry?: ReconciliationRecord;
+  systemEntry?: ReconciliationRecord;
+  /** Balance owed to the supplier after this row, in each ledger. */
+  supplierBalance: number;
+  systemBalance: number;
+  details: string;
+}
+
+export interface StatementReconciliation {
+  /** Opening balance from the statement; the supplier's ledger starts from it. */
+  openingBalance: number;
+  /** Balance Wecare owed the supplier before the period, from the purchases and payments dated before it. */
+  systemOpening: number;
+  /** Whether the two opening balances differ by more than the line total tolerance. */
+  openingDiffers: boolean;
+  /** Closing balances computed from the entries of each ledger. */
+  supplierClosing: number;
+  systemClosing: number;
+  /** Closing balance printed on the statement, when it has one. */
+  printedClosing?: number;
+  rows: LedgerComparison[];
+  /** Index of the first row after which the two balances differ; null when they never do, or already differ at the opening. */
+  divergenceIndex: number | null;
 }
 
 export interface ExistingMapping {
+  /** Record id; needed to edit or delete the mapping. */
+  crdfd_mapping_sku_2025id?: string;
+  /** Id of the supplier record the mapping belongs to; null for mappings saved before it existed. */
+  _crdfd_supplierlookup_value?: string | null;
   crdfd_product_name: string;
   crdfd_supplier_product_name: string;
   crdfd_supplier: string;
-}
\ No newline at end of file
+  /** Unit the supplier invoices the product in. */
+  crdfd_supplier_unit?: string | null;
+  /** Unit Wecare books the product in. */
+  crdfd_unit?: string | null;
+  /** Number of Wecare units in one supplier unit. */
+  crdfd_conversion_factor?: number | null;
+}
+export type SpreadsheetField = 'product' | 'spec' | 'unit' | 'quantity' | 'unitPrice' | 'amount' | 'vatRate' | 'date' | 'documentNumber';
+
+export interface ColumnMappingTemplate {
+  /** Header label of the column holding each field, as written in the supplier's statement. */
+  columns: Partial<Record<SpreadsheetField, string>>;
+  updatedAt: string;
+}
+
+export interface ValidationIssue {
+  /** Index of the offending record in the validated list. */
+  recordIndex: number;
+  /** Index of the offending item within the record; absent for record-level issues. */
+  itemIndex?: number;
+  message: string;
+}
+
+export interface ToleranceSettings {
+  /** Unit price difference accepted regardless of price, in VND. */
+  priceAbsolute: number;
+  /** Unit price difference accepted relative to the larger price, in percent. */
+  pricePercent: number;
+  /** Quantities are compared after rounding to this many decimals. */
+  quantityDecimals: number;
+  /** Line total difference accepted, in VND. */
+  lineTotalAbsolute: number;
+}
+
+/** Date of a Wecare purchase line that the fetch window is applied to. */
+export type SystemDateField = 'accountingDate' | 'createdOn';
+
+/** How the Wecare purchase lines are selected around the supplier's document period. */
+export interface DateWindowSettings {
+  /** Days added before the first and after the last supplier document date. */
+  bufferDays: number;
+  dateField: SystemDateField;
+}
+
+/** Differences (supplier minus Wecare) of a pair accepted within tolerance. */
+export interface ToleranceDeviation {
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface SessionFileInfo {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
+/** A reconciliation run saved in the browser so it can be reopened later. */
+export interface ReconciliationSession {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Metadata of the supplier files read in this run; the files themselves are not stored. */
+  files: SessionFileInfo[];
+  extractedData: ReconciliationRecord[];
+  systemData: ReconciliationRecord[];
+  supplierDateRange: { start: string | null; end: string | null };
+  result: ReconciliationResult | null;
+  timings: {
+    /** Seconds spent reading the supplier files. */
+    extractionSeconds: number | null;
+    /** Seconds spent on the reconciliation itself. */
+    reconciliationSeconds: number | null;
+  };
+}